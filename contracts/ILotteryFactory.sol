@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// 抽奖实例回调工厂的接口
+// 用户首次参与某个抽奖时，实例调用 recordParticipation 让工厂记录参与历史
+interface ILotteryFactory {
+    function recordParticipation(address account) external;
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// 随机数服务接口：请求-回调模式（VRF 风格）
+// 抽奖合约调用 requestRandomness() 发起请求，随机数就绪后由服务方在后续交易中
+// 回调抽奖合约的 rawFulfillRandomness(requestId, randomWord)
+interface IRandomnessProvider {
+    function requestRandomness() external returns (uint256 requestId);
+}
+
+// 随机数回调接口，由使用随机数服务的合约实现
+interface IRandomnessConsumer {
+    function rawFulfillRandomness(uint256 requestId, uint256 randomWord) external;
+}
@@ -2,71 +2,268 @@
 pragma solidity ^0.8.0;
 
 import "./SimpleLottery.sol";
+import "./ILotteryFactory.sol";
 // 引入 Ownable 合约，添加所有者功能
 import "@openzeppelin/contracts/access/Ownable.sol";
+// 平台级紧急暂停：暂停后不能创建抽奖，所有实例也会拒绝参与和赞助
+import "@openzeppelin/contracts/utils/Pausable.sol";
+// 以最小代理 (EIP-1167) 部署抽奖实例，工厂不再内嵌 SimpleLottery 的完整字节码
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+// 支持经可信转发器 (ERC-2771) 转发的元交易，发起人无需持有 gas 即可创建抽奖
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 
 // 抽奖工厂合约：创建和管理抽奖实例
-contract LotteryFactory is Ownable {
+contract LotteryFactory is Ownable, Pausable, ERC2771Context, ILotteryFactory {
+    using SafeERC20 for IERC20;
 
     // 存储抽奖 ID 到抽奖实例合约地址的映射
     mapping(string => address) public lotteryInstances;
     // 存储所有抽奖 ID 的列表 (方便前端查询所有抽奖)
     string[] public lotteryIds;
+    // 发起人地址到其创建的抽奖 ID 列表，按创建顺序排列
+    mapping(address => string[]) private userCreatedLotteries;
+    // 参与者地址到其参与过的抽奖 ID 列表，按首次参与顺序排列
+    mapping(address => string[]) private userParticipatedLotteries;
+    // 抽奖实例地址到抽奖 ID 的反向映射，用于校验参与记录的来源
+    mapping(address => string) private instanceLotteryIds;
+    // 参与者是否已记录过某个抽奖实例，多轮抽奖中重复参与只记录一次
+    mapping(address => mapping(address => bool)) private participationRecorded;
+    // 新建抽奖使用的随机数服务，零地址表示使用 commit-reveal 开奖
+    address public randomnessProvider;
+    // 所有抽奖实例共用的 SimpleLottery 实现合约
+    address public immutable lotteryImplementation;
+    // 平台费率 (基点)，新建抽奖时写入实例，领奖时从奖金中扣除并转入本合约
+    uint256 public platformFeeBps;
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1000;
+
+    // 列表页展示一个抽奖所需的摘要信息，由 getLotterySummaries 批量返回
+    struct LotterySummary {
+        string id;
+        address instance;           // 抽奖实例地址，ID 不存在时为零地址
+        string name;
+        uint256 entryFee;
+        uint256 drawTime;
+        uint256 balance;            // 奖池金额 (原生币或计价代币，不含未提取的佣金和待领取的退款)
+        SimpleLottery.LotteryState state;
+        address winner;             // 头奖中奖者
+        uint256 participantCount;
+        address owner;
+        address token;              // 计价代币，零地址表示原生币
+        uint256 maxParticipants;    // 参与人数上限，0 表示不限
+        uint256 minParticipants;    // 开奖所需的最少参与人数，0 表示不限
+    }
 
     // 事件：当一个新的抽奖实例被创建时触发
     event LotteryInstanceCreated(string indexed lotteryId, address indexed instanceAddress, address indexed owner);
+    // 事件：随机数服务变更
+    event RandomnessProviderChanged(address oldProvider, address newProvider);
+    // 事件：平台费率变更
+    event PlatformFeeChanged(uint256 oldFeeBps, uint256 newFeeBps);
+    // 事件：提取平台收入，token 为零地址表示原生币
+    event PlatformRevenueWithdrawn(address indexed token, address indexed to, uint256 amount);
 
-    constructor() Ownable(msg.sender) {}
+    // trustedForwarder 为工厂和所有抽奖实例信任的 ERC-2771 转发器，零地址表示不接受元交易
+    constructor(address trustedForwarder) Ownable(msg.sender) ERC2771Context(trustedForwarder) {
+        lotteryImplementation = address(new SimpleLottery(
+            address(new SimpleLotteryDraw(trustedForwarder)),
+            trustedForwarder
+        ));
+    }
 
     /**
      * @dev 用户调用此函数发起一个新的抽奖。
-     * 部署一个新的 SimpleLottery 合约实例。
+     * 以最小代理部署一个新的 SimpleLottery 合约实例并初始化。
      * @param _lotteryId 用户自定义的唯一 ID。
      * @param _lotteryName 抽奖名称。
-     * @param _entryFee 参与费用。
-     * @param _drawTime 预设的开奖时间戳。
+     * @param _config 抽奖参数，字段含义见 SimpleLottery.LotteryConfig：
+     *        - entryFee 参与费用；drawTime 预设的开奖时间戳。
+     *        - seedCommitment 随机种子承诺 keccak256(secret)，开奖时由发起人揭示 secret，工厂配置了随机数服务时可以传 0。
+     *        - prizeTiers 各名次奖金比例 (基点，合计 10000)，为空表示只有一名中奖者。
+     *        - lotteryMode 抽奖模式：0 公开，1 私有 (白名单)；whitelist 私有抽奖的初始白名单地址。
+     *        - maxTicketsPerAddress 每个地址最多购买的彩票数，0 表示不限。
+     *        - token 计价 ERC-20 代币地址，零地址表示使用原生币。代币抽奖不接受 msg.value。
+     *        - creatorCommissionBps 发起人佣金比例 (基点)，领奖时从奖金中扣除。
      */
     function createLottery(
         string memory _lotteryId,
         string memory _lotteryName,
-        uint256 _entryFee,
-        uint256 _drawTime
+        SimpleLottery.LotteryConfig calldata _config
         // 注意：发起人可以在调用此函数时通过 msg.value 转入 ETH，作为 SimpleLottery 的初始奖池。
         // 添加 payable 修饰符，允许发起人在创建时转入 ETH
-    ) public payable { 
+    ) public payable whenNotPaused { 
         // 检查抽奖 ID 是否已被使用
         require(lotteryInstances[_lotteryId] == address(0), unicode"抽奖 ID 已被使用");
         // 检查开奖时间是否在未来
-        require(_drawTime > block.timestamp, unicode"开奖时间必须在未来");
-        require(_entryFee >= 0, unicode"入场费不能为负数");
+        require(_config.drawTime > block.timestamp, unicode"开奖时间必须在未来");
+        require(_config.entryFee >= 0, unicode"入场费不能为负数");
 
 
-        // 部署一个新的 SimpleLottery 合约实例
-        // msg.sender 将成为 SimpleLottery 实例的 Owner
-        // 将 msg.value (发起人转入的 ETH) 传递给 SimpleLottery 的构造函数作为初始奖池
-        SimpleLottery newLottery = new SimpleLottery{value: msg.value}(
+        // 部署一个新的 SimpleLottery 代理实例
+        // 调用者 (经转发器转发时为签名的用户) 将成为 SimpleLottery 实例的 Owner
+        // 将 msg.value (发起人转入的 ETH) 传递给 initialize 作为初始奖池
+        SimpleLottery newLottery = SimpleLottery(payable(Clones.clone(lotteryImplementation)));
+        newLottery.initialize{value: msg.value}(
             _lotteryId,
             _lotteryName,
-            _entryFee,
-            _drawTime,
-            msg.sender // 将发起人设为抽奖实例的 Owner
+            _config,
+            randomnessProvider,
+            platformFeeBps,
+            _msgSender() // 将发起人设为抽奖实例的 Owner
         );
 
         // 存储 ID 到实例地址的映射
         lotteryInstances[_lotteryId] = address(newLottery);
         // 将新的 ID 添加到列表中
         lotteryIds.push(_lotteryId);
+        userCreatedLotteries[_msgSender()].push(_lotteryId);
+        instanceLotteryIds[address(newLottery)] = _lotteryId;
+
+        emit LotteryInstanceCreated(_lotteryId, address(newLottery), _msgSender());
+    }
+
+    // 由抽奖实例在用户首次参与时调用，只接受本工厂创建的实例
+    function recordParticipation(address account) external {
+        string memory lotteryId = instanceLotteryIds[msg.sender];
+        require(lotteryInstances[lotteryId] == msg.sender, unicode"只有本工厂创建的抽奖可以记录参与");
+        if (participationRecorded[account][msg.sender]) return;
+        participationRecorded[account][msg.sender] = true;
+        userParticipatedLotteries[account].push(lotteryId);
+    }
+
+    // 设置新建抽奖使用的随机数服务，仅工厂 owner 可调用，不影响已创建的抽奖
+    function setRandomnessProvider(address _provider) external onlyOwner {
+        address old = randomnessProvider;
+        randomnessProvider = _provider;
+        emit RandomnessProviderChanged(old, _provider);
+    }
+
+    // 设置平台费率，仅工厂 owner 可调用，只影响之后创建的抽奖
+    function setPlatformFee(uint256 _feeBps) external onlyOwner {
+        require(_feeBps <= MAX_PLATFORM_FEE_BPS, unicode"平台费率超过上限");
+        uint256 old = platformFeeBps;
+        platformFeeBps = _feeBps;
+        emit PlatformFeeChanged(old, _feeBps);
+    }
+
+    // 暂停平台，仅工厂 owner 可调用
+    // 暂停期间不能创建抽奖，已有抽奖不能参与和赞助，但开奖、领奖和退款不受影响
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    // 恢复平台
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    // 提取累计的平台收入，_token 为零地址时提取原生币
+    function withdrawPlatformRevenue(address _token, address _to) external onlyOwner {
+        require(_to != address(0), unicode"收款地址无效");
+        uint256 amount = _token == address(0) ? address(this).balance : IERC20(_token).balanceOf(address(this));
+        require(amount > 0, unicode"没有可提取的平台收入");
+
+        if (_token == address(0)) {
+            (bool success, ) = payable(_to).call{value: amount}("");
+            require(success, unicode"转账失败");
+        } else {
+            IERC20(_token).safeTransfer(_to, amount);
+        }
+        emit PlatformRevenueWithdrawn(_token, _to, amount);
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
 
-        emit LotteryInstanceCreated(_lotteryId, address(newLottery), msg.sender);
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
     }
 
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    // 接收抽奖实例转入的原生币平台费
+    receive() external payable {}
+
     // 查询指定ID的抽奖合约地址
     function getLotteryInstanceAddress(string memory _lotteryId) public view returns (address) {
         return lotteryInstances[_lotteryId];
     }
 
     // 获取所有抽奖ID列表
+    // 抽奖数量较多时返回数据过大，前端应使用 getLotteryIds 分页读取
     function getAllLotteryIds() public view returns (string[] memory) {
         return lotteryIds;
     }
+
+    // 抽奖总数
+    function getLotteryCount() public view returns (uint256) {
+        return lotteryIds.length;
+    }
+
+    // 按创建顺序分页获取抽奖 ID，offset 超出范围时返回空数组
+    function getLotteryIds(uint256 offset, uint256 limit) public view returns (string[] memory) {
+        return _slice(lotteryIds, offset, limit);
+    }
+
+    // 从 ID 列表中截取 [offset, offset + limit) 一段，offset 超出范围时返回空数组
+    function _slice(string[] storage list, uint256 offset, uint256 limit) private view returns (string[] memory ids) {
+        uint256 total = list.length;
+        if (offset >= total) {
+            return new string[](0);
+        }
+        uint256 end = offset + limit > total ? total : offset + limit;
+        ids = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = list[i];
+        }
+    }
+
+    // 批量读取抽奖摘要，前端一次调用即可渲染一页列表
+    // 不存在的 ID 只填充 id 字段，instance 为零地址
+    function getLotterySummaries(string[] calldata _ids) external view returns (LotterySummary[] memory summaries) {
+        summaries = new LotterySummary[](_ids.length);
+        for (uint256 i = 0; i < _ids.length; i++) {
+            summaries[i].id = _ids[i];
+            address instance = lotteryInstances[_ids[i]];
+            if (instance == address(0)) continue;
+
+            SimpleLottery lottery = SimpleLottery(payable(instance));
+            summaries[i].instance = instance;
+            summaries[i].name = lottery.lotteryName();
+            summaries[i].entryFee = lottery.entryFee();
+            summaries[i].drawTime = lottery.drawTime();
+            summaries[i].balance = lottery.getPrizePool();
+            summaries[i].state = lottery.currentLotteryState();
+            summaries[i].winner = lottery.winner();
+            summaries[i].participantCount = lottery.getParticipantCount();
+            summaries[i].owner = lottery.owner();
+            summaries[i].token = address(lottery.token());
+            summaries[i].maxParticipants = lottery.maxParticipants();
+            summaries[i].minParticipants = lottery.minParticipants();
+        }
+    }
+
+    // 获取指定地址创建的全部抽奖 ID
+    function getUserCreatedLotteries(address user) public view returns (string[] memory) {
+        return userCreatedLotteries[user];
+    }
+
+    // 获取指定地址参与过的全部抽奖 ID
+    // 参与记录较多时返回数据过大，前端应使用 getUserParticipatedLotteryIds 分页读取
+    function getUserParticipatedLotteries(address user) public view returns (string[] memory) {
+        return userParticipatedLotteries[user];
+    }
+
+    // 指定地址参与过的抽奖数量
+    function getUserParticipatedCount(address user) public view returns (uint256) {
+        return userParticipatedLotteries[user].length;
+    }
+
+    // 按首次参与的顺序分页获取指定地址参与过的抽奖 ID，offset 超出范围时返回空数组
+    function getUserParticipatedLotteryIds(address user, uint256 offset, uint256 limit) public view returns (string[] memory) {
+        return _slice(userParticipatedLotteries[user], offset, limit);
+    }
 }
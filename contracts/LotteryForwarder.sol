@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+// 可信转发器 (ERC-2771)：校验用户签名的 ForwardRequest，由中继代付 gas 转发给工厂或抽奖实例
+// EIP-712 域为 name "LotteryForwarder"、version "1"，每个地址的 nonce 按顺序递增
+contract LotteryForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("LotteryForwarder") {}
+}
@@ -1,152 +1,502 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-// 引入 OpenZeppelin 的 Ownable，方便管理合约所有者权限
-import "@openzeppelin/contracts/access/Ownable.sol";
-
-
-contract SimpleLottery is Ownable {
-
-    // --- 状态变量 ---
-    string public lotteryId;         // 抽奖的唯一 ID
-    string public lotteryName;       // 抽奖名称
-    uint256 public entryFee;         // 参与费用
-    address[] public participants;   // 参与者列表
-    address public winner;           // 中奖者地址 (开奖后)
-    uint256 public prizePool;        // 奖池总金额 (由参与费用累积)
-    uint256 public openingTime;      // 抽奖开放时间 (可选，基础版简化为部署后即开放)
-    uint256 public closingTime;      // 参与截止时间 (可选，基础版简化为开奖前)
-    uint256 public drawTime;         // 预设的开奖时间戳
-
-    // 添加参与记录映射
-    mapping(address => bool) public hasParticipated;
-    // 记录是否已开奖
-    bool public isDrawn;
-
-    // 抽奖状态
-    enum LotteryState {
-        Open,        // 开放参与
-        Drawing,     // 正在开奖
-        Claimable,   // 可领奖
-        Closed       // 已结束（奖金已领取或已重置）
-    }
-
-    LotteryState public currentLotteryState; // 当前状态
-
-    // --- 事件 --- 
-    event LotteryCreated(string indexed id, address indexed owner, string name, uint256 entryFee, uint256 drawTime);
-    event EnteredLottery(string indexed lotteryId, address indexed participant);
-    event WinnerDrawn(string indexed lotteryId, address indexed winner, uint256 prizeAmount);
-    event PrizeClaimed(string indexed lotteryId, address indexed winner, uint256 prizeAmount);
-    event LotteryStateChanged(string indexed lotteryId, LotteryState newState);
-    event SponsorReceived(address indexed sponsor, uint256 amount);
-    event DrawTimeChanged(uint256 oldTime, uint256 newTime);
-
-    constructor(
+// 状态变量、类型和事件定义在 SimpleLotteryStorage 中，开奖逻辑在 SimpleLotteryDraw 中
+import "./SimpleLotteryStorage.sol";
+import "./SimpleLotteryDraw.sol";
+// 抽奖实例以最小代理 (EIP-1167) 部署，不执行构造函数，改用 initialize 初始化
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+// 以 delegatecall 调用开奖逻辑模块，并原样抛出模块的 revert 原因
+import "@openzeppelin/contracts/utils/Address.sol";
+// 校验 Merkle 白名单证明
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+// 校验入场凭证的 EIP-712 签名
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+// 读取工厂的平台暂停状态
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./IRandomnessProvider.sol";
+import "./ILotteryFactory.sol";
+
+
+contract SimpleLottery is SimpleLotteryStorage, Initializable, IRandomnessConsumer {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using SafeERC20 for IERC20;
+
+    // 仅限发起人或管理员
+    modifier onlyOwnerOrManager() {
+        _checkOwnerOrManager();
+        _;
+    }
+
+    function _checkOwnerOrManager() internal view {
+        address account = _msgSender();
+        require(account == owner() || managers.contains(account), unicode"只有发起人或管理员可以操作");
+    }
+
+    // 平台（工厂）暂停时禁止资金流入；领奖和退款不受影响
+    modifier whenPlatformNotPaused() {
+        _requirePlatformNotPaused();
+        _;
+    }
+
+    function _requirePlatformNotPaused() internal view {
+        require(!Pausable(factory).paused(), unicode"平台已暂停");
+    }
+
+    // 开奖逻辑模块，所有代理共用实现合约部署时指定的模块
+    address private immutable drawLogic;
+
+    // 实现合约本身不可初始化，只作为代理的逻辑合约
+    // 可信转发器同样是不可变量，所有代理共用；零地址表示不接受元交易
+    constructor(address _drawLogic, address trustedForwarder) Ownable(msg.sender) ERC2771Context(trustedForwarder) {
+        drawLogic = _drawLogic;
+        _disableInitializers();
+    }
+
+    // 创建抽奖时由发起人指定的参数，参数较多，打包成结构体传给 initialize 以免栈过深
+    struct LotteryConfig {
+        uint256 entryFee;              // 参与费用
+        uint256 drawTime;              // 预设的开奖时间戳
+        bytes32 seedCommitment;        // 随机种子承诺
+        uint256[] prizeTiers;          // 各名次奖金比例 (基点)，为空表示只有一名中奖者
+        LotteryMode lotteryMode;       // 公开 / 私有抽奖
+        address[] whitelist;           // 私有抽奖的初始白名单
+        uint256 maxTicketsPerAddress;  // 每个地址最多购买的彩票数，0 表示不限
+        address token;                 // 计价代币地址，零地址表示使用原生币
+        uint256 creatorCommissionBps;  // 发起人佣金比例 (基点)
+        uint256 claimWindow;           // 领奖期限 (秒)，0 表示不限期
+        UnclaimedPolicy unclaimedPolicy; // 逾期未领奖金的处理策略
+        uint256 maxParticipants;       // 参与人数上限，0 表示不限
+        uint256 minParticipants;       // 开奖所需的最少参与人数，0 表示不限
+        bytes32 merkleRoot;            // 私有抽奖的 Merkle 白名单根，零表示不使用
+        address passSigner;            // 私有抽奖的入场凭证签发人，零地址表示不使用
+    }
+
+    // 入场凭证 (EIP-712)：签发人为某个地址签发的一次性参与资格，绑定抽奖地址、参与者、过期时间和 nonce
+    struct EntryPass {
+        address lottery;
+        address entrant;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    bytes32 private constant ENTRY_PASS_TYPEHASH =
+        keccak256("EntryPass(address lottery,address entrant,uint256 expiry,uint256 nonce)");
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    // 由工厂在部署代理后立即调用，完成抽奖实例的初始化
+    function initialize(
         string memory _lotteryId,  // 用户自定义的该抽奖的唯一ID
         string memory _lotteryName,  // 抽奖名称
-        uint256 _entryFee,  // 参与费用
-        uint256 _drawTime,  // 预设的开奖时间戳
+        LotteryConfig calldata _config,  // 发起人指定的抽奖参数
+        address _randomnessProvider,  // 随机数服务地址，零地址表示使用 commit-reveal
+        uint256 _platformFeeBps,  // 工厂当前的平台费率 (基点)
         address _owner  // 该抽奖实例的发起人地址
-    ) payable Ownable(_owner) {
-        require(_drawTime > block.timestamp, unicode"开奖时间必须在未来");
+    ) external payable initializer {
+        _transferOwnership(_owner);
+        require(_config.drawTime > block.timestamp, unicode"开奖时间必须在未来");
+        // 代币抽奖的初始奖池需在创建后通过 sponsorToken 注入
+        require(_config.token == address(0) || msg.value == 0, unicode"代币抽奖不接受原生币");
+        require(
+            _randomnessProvider != address(0) || _config.seedCommitment != bytes32(0),
+            unicode"必须提交随机种子承诺"
+        );
+        // 重新抽取在领奖期限过后由任何人触发，只能使用随机数服务，否则调用者可以挑选对自己有利的区块
+        require(
+            _randomnessProvider != address(0) || _config.unclaimedPolicy != UnclaimedPolicy.Redraw,
+            unicode"重新抽取需要使用随机数服务"
+        );
         lotteryId = _lotteryId;
         lotteryName = _lotteryName;
-        entryFee = _entryFee;
-        drawTime = _drawTime;
+        entryFee = _config.entryFee;
+        drawTime = _config.drawTime;
+        seedCommitment = _config.seedCommitment;
+        randomnessProvider = IRandomnessProvider(_randomnessProvider);
+        _setPrizeTiers(_config.prizeTiers);
+        lotteryMode = _config.lotteryMode;
+        if (_config.whitelist.length > 0 || _config.merkleRoot != bytes32(0) || _config.passSigner != address(0)) {
+            require(_config.lotteryMode == LotteryMode.Private, unicode"公开抽奖不需要白名单");
+            _addToWhitelist(_config.whitelist);
+            merkleRoot = _config.merkleRoot;
+            passSigner = _config.passSigner;
+        }
+        maxTicketsPerAddress = _config.maxTicketsPerAddress;
+        token = IERC20(_config.token);
+        require(_config.creatorCommissionBps <= MAX_CREATOR_COMMISSION_BPS, unicode"发起人佣金超过上限");
+        creatorCommissionBps = _config.creatorCommissionBps;
+        claimWindow = _config.claimWindow;
+        unclaimedPolicy = _config.unclaimedPolicy;
+        require(
+            _config.maxParticipants == 0 || _config.minParticipants <= _config.maxParticipants,
+            unicode"最少参与人数不能超过人数上限"
+        );
+        maxParticipants = _config.maxParticipants;
+        minParticipants = _config.minParticipants;
+        platformFeeBps = _platformFeeBps;
+        factory = msg.sender;
         currentLotteryState = LotteryState.Open;
         prizePool = msg.value;
+        creatorDeposit = msg.value;
         isDrawn = false;
+        currentRound = 1;
+
+        emit LotteryCreated(lotteryId, _owner, lotteryName, entryFee, drawTime);
+        emit LotteryStateChanged(lotteryId, LotteryState.Open);
+    }
+
+    // 用户支付费用购买 quantity 张彩票参与抽奖，可多次购买，首次购买时加入参与者列表。
+    // 代币抽奖需要先 approve 本合约 entryFee * quantity 的额度。
+    function enter(uint256 quantity) public payable whenPlatformNotPaused {
+        _enter(quantity, lotteryMode == LotteryMode.Public || whitelist.contains(_msgSender()));
+    }
+
+    // 使用 Merkle 白名单的私有抽奖：附带自己地址的 Merkle 证明参与，其余规则与 enter 相同
+    function enterWithProof(uint256 quantity, bytes32[] calldata proof) external payable whenPlatformNotPaused {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_msgSender()))));
+        _enter(quantity, merkleRoot != bytes32(0) && MerkleProof.verifyCalldata(proof, merkleRoot, leaf));
+    }
 
-        emit LotteryCreated(_lotteryId, _owner, _lotteryName, _entryFee, _drawTime);
-        emit LotteryStateChanged(_lotteryId, LotteryState.Open);
+    // 凭签发人签发的入场凭证参与：凭证必须属于本抽奖和调用者、未过期且未使用过，使用后作废
+    function enterWithPass(uint256 quantity, EntryPass calldata pass, bytes calldata signature)
+        external payable whenPlatformNotPaused
+    {
+        require(block.timestamp <= pass.expiry, unicode"入场凭证已过期");
+        require(!usedPassNonces[pass.nonce], unicode"入场凭证已使用");
+        require(
+            passSigner != address(0) &&
+            pass.lottery == address(this) &&
+            pass.entrant == _msgSender() &&
+            ECDSA.recover(hashEntryPass(pass), signature) == passSigner,
+            unicode"入场凭证无效"
+        );
+        usedPassNonces[pass.nonce] = true;
+        emit PassUsed(pass.entrant, pass.nonce);
+        _enter(quantity, true);
+    }
+
+    // 入场凭证的 EIP-712 摘要，域为 name "SimpleLottery"、version "1"、当前链和本抽奖地址
+    function hashEntryPass(EntryPass calldata pass) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256("SimpleLottery"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+        return MessageHashUtils.toTypedDataHash(domainSeparator, keccak256(abi.encode(ENTRY_PASS_TYPEHASH, pass)));
     }
 
-    // 用户支付费用参与抽奖。
-    function enter() public payable {
+    // eligible 表示调用者是否有资格参与 (公开抽奖、在链上白名单中或白名单证明有效)
+    function _enter(uint256 quantity, bool eligible) internal {
+        address account = _msgSender();
         require(currentLotteryState == LotteryState.Open, unicode"当前抽奖未开放参与");
         require(block.timestamp < drawTime, unicode"已到开奖时间，无法参与");
-        require(msg.value == entryFee, unicode"支付的入场费不正确");
-        require(!hasParticipated[msg.sender], unicode"您已经参与过此次抽奖");
+        require(quantity > 0, unicode"购买数量必须大于0");
+        require(
+            maxTicketsPerAddress == 0 || ticketsOf[account] + quantity <= maxTicketsPerAddress,
+            unicode"超过每个地址的购买上限"
+        );
+        // 免费且不限购的抽奖每次只能买 1 张，避免一笔交易领走任意多的中奖权重或使票数溢出
+        require(entryFee > 0 || maxTicketsPerAddress > 0 || quantity == 1, unicode"免费抽奖每次只能购买1张");
+        require(eligible, unicode"您不在白名单中，无法参与");
         
-        hasParticipated[msg.sender] = true;
-        participants.push(msg.sender);
-        prizePool += msg.value;
-
-        emit EnteredLottery(lotteryId, msg.sender);
-
-        // 如果已到开奖时间，自动触发开奖
-        if (block.timestamp >= drawTime && !isDrawn) {
-            _drawWinner();
+        if (!hasParticipated[account]) {
+            require(maxParticipants == 0 || participants.length < maxParticipants, unicode"参与人数已满");
+            hasParticipated[account] = true;
+            participants.push(account);
+            // 通知工厂记录参与历史，个人中心据此列出用户参与过的全部抽奖
+            ILotteryFactory(factory).recordParticipation(account);
+            emit EnteredLottery(lotteryId, account);
         }
+        ticketsOf[account] += quantity;
+        totalTickets += quantity;
+        prizePool += entryFee * quantity;
+        _collect(entryFee * quantity);
+
+        emit TicketsPurchased(account, quantity);
     }
 
-    // 内部开奖函数
-    function _drawWinner() internal {
+    // 内部开奖函数 (commit-reveal 模式)，_seed 为发起人揭示的种子
+    function _drawWinner(bytes32 _seed) internal {
         require(!isDrawn, unicode"已经开过奖了");
         require(participants.length > 0, unicode"没有参与者，无法开奖");
 
         currentLotteryState = LotteryState.Drawing;
         emit LotteryStateChanged(lotteryId, LotteryState.Drawing);
 
-        uint256 randomIndex = uint256(keccak256(abi.encodePacked(
-            block.timestamp,
+        _pickWinner(uint256(keccak256(abi.encodePacked(
+            _seed,
+            blockhash(block.number - 1),
             block.prevrandao,
-            participants.length,
-            msg.sender
-        ))) % participants.length;
+            participants.length
+        ))));
+    }
 
-        winner = participants[randomIndex];
-        isDrawn = true;
+    // 在本合约的存储上执行开奖逻辑模块中的函数，模块的 revert 原因原样抛出
+    // 调用数据末尾附加调用者地址，经转发器转发时模块据此识别签名的用户，直接调用时多余的数据会被忽略
+    function _delegate(bytes memory data) internal {
+        Address.functionDelegateCall(drawLogic, abi.encodePacked(data, _msgSender()));
+    }
 
-        emit WinnerDrawn(lotteryId, winner, prizePool);
+    // 用随机数从参与者中按名次选出互不相同的中奖者，进入可领奖状态
+    function _pickWinner(uint256 _randomWord) internal {
+        _delegate(abi.encodeCall(SimpleLotteryDraw.pickWinner, (_randomWord)));
+    }
+
+    // 校验并保存奖项设置
+    function _setPrizeTiers(uint256[] memory _prizeTiers) internal {
+        if (_prizeTiers.length == 0) {
+            prizeTiers.push(10000);
+            return;
+        }
+        require(_prizeTiers.length <= MAX_PRIZE_TIERS, unicode"奖项数量过多");
+
+        uint256 total;
+        for (uint256 i = 0; i < _prizeTiers.length; i++) {
+            require(_prizeTiers[i] > 0, unicode"奖项比例必须大于0");
+            total += _prizeTiers[i];
+            prizeTiers.push(_prizeTiers[i]);
+        }
+        require(total == 10000, unicode"奖项比例合计必须为100%");
+    }
+
+
+
+    // 发起人在开奖时间到达后揭示种子并开奖（commit-reveal）
+    // 种子在创建时已承诺，参与者截止前无人能预知结果；再混入区块数据，发起人也无法单独决定结果
+    function revealAndDraw(bytes32 _secret) external onlyOwner {
+        require(address(randomnessProvider) == address(0), unicode"该抽奖使用随机数服务开奖");
+        require(block.timestamp >= drawTime, unicode"未到开奖时间，无法开奖");
+        require(block.timestamp < drawTime + REVEAL_TIMEOUT, unicode"已超过揭示期限");
+        require(currentLotteryState == LotteryState.Open, unicode"抽奖未开放或已开奖");
+        require(keccak256(abi.encodePacked(_secret)) == seedCommitment, unicode"种子与承诺不匹配");
 
-        currentLotteryState = LotteryState.Claimable;
-        emit LotteryStateChanged(lotteryId, LotteryState.Claimable);
+        // 参与人数不足时不开奖，直接取消抽奖
+        if (_belowMinParticipants()) {
+            _cancel();
+            return;
+        }
+        emit SeedRevealed(lotteryId, _secret);
+        _drawWinner(_secret);
     }
 
-    // 公开的开奖函数，任何人都可以在时间到达后调用
+    // 公开的开奖函数，任何人都可以调用
+    // 使用随机数服务时：开奖时间到达后发起随机数请求，进入 Drawing 状态等待回调
+    // 使用 commit-reveal 时：发起人在 REVEAL_TIMEOUT 内未揭示种子则取消抽奖，所有人领取退款。
+    // 不用区块数据兜底开奖：调用者 (例如参与者部署的合约) 可以在自己未中奖时 revert 并逐个区块重试，
+    // 发起人也可以先看兜底结果再决定是否揭示
+    // 参与人数未达到最低要求时不开奖，直接取消抽奖
     function drawWinner() public {
         require(block.timestamp >= drawTime, unicode"未到开奖时间，无法开奖");
+
+        if (_belowMinParticipants()) {
+            _cancel();
+            return;
+        }
+
+        if (address(randomnessProvider) != address(0)) {
+            _requestRandomness();
+            return;
+        }
+
+        require(block.timestamp >= drawTime + REVEAL_TIMEOUT, unicode"等待发起人揭示种子，暂不能取消抽奖");
         require(currentLotteryState == LotteryState.Open, unicode"抽奖未开放或已开奖");
-        _drawWinner();
+        _cancel();
+    }
+
+    // 向随机数服务发起请求；上一次请求超时未回调时可重新请求
+    function _requestRandomness() internal {
+        if (currentLotteryState == LotteryState.Drawing) {
+            require(
+                block.timestamp >= randomnessRequestedAt + RANDOMNESS_TIMEOUT,
+                unicode"正在等待随机数回调"
+            );
+        } else {
+            require(currentLotteryState == LotteryState.Open, unicode"抽奖未开放或已开奖");
+            require(participants.length > 0, unicode"没有参与者，无法开奖");
+
+            currentLotteryState = LotteryState.Drawing;
+            emit LotteryStateChanged(lotteryId, LotteryState.Drawing);
+        }
+
+        _sendRandomnessRequest();
+    }
+
+    // 随机数服务回调：用返回的随机数选出中奖者，或为未领取的名次重新抽取中奖者
+    function rawFulfillRandomness(uint256 _requestId, uint256 _randomWord) external {
+        require(msg.sender == address(randomnessProvider), unicode"只有随机数服务可以回调");
+        require(currentLotteryState == LotteryState.Drawing, unicode"当前没有等待中的随机数请求");
+        require(_requestId == randomnessRequestId, unicode"随机数请求 ID 不匹配");
+        _pickWinner(_randomWord);
     }
 
-    // 中奖者调用此函数领取奖金。
-    // 必须在抽奖处于 Claimable 状态时调用。
+    // 中奖者领取自己名次的奖金，扣除平台费和发起人佣金，所有名次都领取后抽奖结束
     function claimPrize() public {
-        // 检查是否是中奖者且状态可领奖
-        require(msg.sender == winner, unicode"只有中奖者才能领取奖金");
-        require(currentLotteryState == LotteryState.Claimable, unicode"奖金当前不可领取");
+        _delegate(abi.encodeCall(SimpleLotteryDraw.claimPrize, ()));
+    }
+
+
+
+    // 清除本轮的参与、中奖和赞助记录，开奖结果已在开奖时归档
+    function resetLottery() public onlyOwnerOrManager {
+         _clearRound();
+    }
 
-        uint256 amountToTransfer = address(this).balance;
+    function _clearRound() internal {
+        _delegate(abi.encodeCall(SimpleLotteryDraw.clearRound, ()));
+    }
 
-        (bool success, ) = payable(winner).call{value: amountToTransfer}("");
-        require(success, unicode"奖金转账失败");
+    // 领奖期限过后处理未领取的奖金，策略在创建时选定：
+    // Rollover：任何人可调用，奖金留在合约中，本轮结束，发起人开启下一轮后计入新奖池
+    // ReturnToOwner：仅发起人可调用，未领取的奖金转给发起人，本轮结束
+    // Redraw：任何人可调用，向随机数服务请求随机数，回调时从未中奖的参与者中为每个未领取的名次重新抽取中奖者
+    function settleUnclaimed() external {
+        _delegate(abi.encodeCall(SimpleLotteryDraw.settleUnclaimed, ()));
+    }
 
-        emit PrizeClaimed(lotteryId, winner, amountToTransfer);
+    // 开启下一轮：清除上一轮的记录，设置新的开奖时间和种子承诺后重新开放参与
+    // 使用随机数服务开奖的抽奖可以不提交种子承诺
+    function startNextRound(uint256 _drawTime, bytes32 _seedCommitment) external onlyOwner {
+        require(_drawTime > block.timestamp, unicode"开奖时间必须在未来");
+        require(
+            address(randomnessProvider) != address(0) || _seedCommitment != bytes32(0),
+            unicode"必须提交随机种子承诺"
+        );
+        _clearRound();
 
-        currentLotteryState = LotteryState.Closed;
-        emit LotteryStateChanged(lotteryId, LotteryState.Closed);
+        currentRound++;
+        drawTime = _drawTime;
+        seedCommitment = _seedCommitment;
+        // 上一轮转入的奖金 (逾期未领取或无人领取的部分) 作为新一轮的初始奖池，
+        // 本轮取消时和发起人创建时转入的初始奖池一样退还发起人，否则会永久锁定在已取消的抽奖中
+        uint256 carriedOver = _availablePrize();
+        creatorDeposit = carriedOver;
+        prizePool = carriedOver;
+        claimDeadline = 0;
+        currentLotteryState = LotteryState.Open;
+
+        emit RoundStarted(currentRound, _drawTime);
+        emit LotteryStateChanged(lotteryId, LotteryState.Open);
     }
 
-    function resetLottery() public onlyOwner {
-         // 检查抽奖是否已结束
-         require(currentLotteryState == LotteryState.Closed, unicode"抽奖未结束，无法重置");
 
-         // 清除所有参与记录
-         for (uint i = 0; i < participants.length; i++) {
-             delete hasParticipated[participants[i]];
-         }
-         delete participants;
-         // 重置中奖者地址
-         winner = address(0);
-         isDrawn = false;
+    // 批量添加白名单地址，已存在的地址会被跳过，仅限私有抽奖
+    function addToWhitelist(address[] memory addresses) public onlyOwnerOrManager {
+        require(lotteryMode == LotteryMode.Private, unicode"公开抽奖不需要白名单");
+        require(currentLotteryState == LotteryState.Open, unicode"抽奖已开奖，不能修改白名单");
+        _addToWhitelist(addresses);
     }
 
-    // 检查是否可以开奖
+    // 批量移除白名单地址，不在白名单中的地址会被跳过
+    // 已经参与的地址不受影响
+    function removeFromWhitelist(address[] memory addresses) public onlyOwnerOrManager {
+        require(lotteryMode == LotteryMode.Private, unicode"公开抽奖不需要白名单");
+        require(currentLotteryState == LotteryState.Open, unicode"抽奖已开奖，不能修改白名单");
+        for (uint256 i = 0; i < addresses.length; i++) {
+            if (whitelist.remove(addresses[i])) {
+                emit WhitelistUpdated(addresses[i], false);
+            }
+        }
+    }
+
+    // 更换入场凭证签发人，设为零地址则停用凭证，已签发的凭证随之失效
+    function setPassSigner(address signer) external onlyOwner {
+        require(lotteryMode == LotteryMode.Private, unicode"公开抽奖不需要白名单");
+        passSigner = signer;
+        emit PassSignerUpdated(signer);
+    }
+
+    // 设置 Merkle 白名单根，设为零则只使用链上白名单
+    function setMerkleRoot(bytes32 root) external onlyOwnerOrManager {
+        require(lotteryMode == LotteryMode.Private, unicode"公开抽奖不需要白名单");
+        require(currentLotteryState == LotteryState.Open, unicode"抽奖已开奖，不能修改白名单");
+        merkleRoot = root;
+        emit MerkleRootUpdated(root);
+    }
+
+    function _addToWhitelist(address[] memory addresses) internal {
+        for (uint256 i = 0; i < addresses.length; i++) {
+            require(addresses[i] != address(0), unicode"白名单地址无效");
+            if (whitelist.add(addresses[i])) {
+                emit WhitelistUpdated(addresses[i], true);
+            }
+        }
+    }
+
+    // 取消抽奖：发起人可在无人参与时随时取消；
+    // 开奖时间过后 CANCEL_GRACE_PERIOD 仍无人参与时，任何人都可以取消，避免初始奖池永久锁定；
+    // 开奖时间到达时参与人数未达到最低要求，任何人都可以取消
+    function cancelLottery() external {
+        if (_belowMinParticipants()) {
+            _cancel();
+            return;
+        }
+        require(currentLotteryState == LotteryState.Open, unicode"抽奖未开放，无法取消");
+        require(participants.length == 0, unicode"已有人参与，无法取消");
+        require(
+            _msgSender() == owner() || block.timestamp >= drawTime + CANCEL_GRACE_PERIOD,
+            unicode"只有发起人可以取消抽奖"
+        );
+        _cancel();
+    }
+
+    // 开奖时间已到、仍在开放参与且参与人数未达到最低要求
+    function _belowMinParticipants() internal view returns (bool) {
+        return currentLotteryState == LotteryState.Open &&
+               block.timestamp >= drawTime &&
+               participants.length < minParticipants;
+    }
+
+    function _cancel() internal {
+        currentLotteryState = LotteryState.Cancelled;
+        emit LotteryCancelled(lotteryId, _msgSender());
+        emit LotteryStateChanged(lotteryId, LotteryState.Cancelled);
+    }
+
+    // 抽奖取消后，参与者、赞助人和发起人各自领取退款
+    function withdrawRefund() external {
+        _delegate(abi.encodeCall(SimpleLotteryDraw.withdrawRefund, ()));
+    }
+
+
+
+    // 发起人提取已累计的佣金
+    function withdrawCommission() external {
+        _delegate(abi.encodeCall(SimpleLotteryDraw.withdrawCommission, ()));
+    }
+
+
+    // 添加管理员，仅发起人可用
+    function addManager(address account) external onlyOwner {
+        require(account != address(0), unicode"管理员地址无效");
+        require(account != owner(), unicode"发起人无需设为管理员");
+        require(managers.add(account), unicode"该地址已是管理员");
+        emit ManagerAdded(account);
+    }
+
+    // 移除管理员，仅发起人可用
+    function removeManager(address account) external onlyOwner {
+        require(managers.remove(account), unicode"该地址不是管理员");
+        emit ManagerRemoved(account);
+    }
+
+    // 检查是否可以调用 drawWinner
+    // 随机数服务模式：开奖时间到达即可请求，或上一次请求已超时
+    // commit-reveal 模式：发起人揭示超时后可以取消抽奖
     function canDraw() public view returns (bool) {
-        return block.timestamp >= drawTime && 
+        // 人数不足时调用 drawWinner 会取消抽奖
+        if (_belowMinParticipants()) return true;
+        if (address(randomnessProvider) != address(0)) {
+            if (currentLotteryState == LotteryState.Drawing) {
+                return block.timestamp >= randomnessRequestedAt + RANDOMNESS_TIMEOUT;
+            }
+            return block.timestamp >= drawTime &&
+                   currentLotteryState == LotteryState.Open &&
+                   participants.length > 0;
+        }
+        return block.timestamp >= drawTime + REVEAL_TIMEOUT && 
                currentLotteryState == LotteryState.Open && 
                !isDrawn &&
                participants.length > 0;
@@ -157,6 +507,18 @@ contract SimpleLottery is Ownable {
         return participants;
     }
 
+    function getParticipantCount() public view returns (uint256) {
+        return participants.length;
+    }
+
+    // 与 getParticipants 顺序一致的各参与者彩票数
+    function getTicketCounts() public view returns (uint256[] memory counts) {
+        counts = new uint256[](participants.length);
+        for (uint256 i = 0; i < counts.length; i++) {
+            counts[i] = ticketsOf[participants[i]];
+        }
+    }
+
     function getLotteryState() public view returns (LotteryState) {
         return currentLotteryState;
     }
@@ -165,50 +527,157 @@ contract SimpleLottery is Ownable {
         return winner;
     }
 
+    function getLotteryMode() public view returns (LotteryMode) {
+        return lotteryMode;
+    }
+
+    // 检查用户是否在白名单中
+    function isInWhitelist(address user) public view returns (bool) {
+        return whitelist.contains(user);
+    }
+
+    // 获取所有白名单地址
+    function getWhitelistAddresses() public view returns (address[] memory) {
+        return whitelist.values();
+    }
+
+    function isManager(address account) public view returns (bool) {
+        return managers.contains(account);
+    }
+
+    function getManagers() public view returns (address[] memory) {
+        return managers.values();
+    }
+
+    function getPrizeTiers() public view returns (uint256[] memory) {
+        return prizeTiers;
+    }
+
+    // 返回按名次排列的中奖者、奖金和领取情况
+    function getWinners() public view returns (
+        address[] memory winnerList,
+        uint256[] memory amountList,
+        bool[] memory claimedList
+    ) {
+        return (winners, prizeAmounts, prizeClaimed);
+    }
+
+    // 奖池金额：不含发起人未提取的佣金，抽奖取消后也不含待领取的退款
     function getPrizePool() public view returns (uint256) {
-        return address(this).balance; // 奖池就是合约余额
+        return _availablePrize();
     }
 
     // 返回抽奖完整信息
     function getLotteryDetails() public view returns (
-        string memory lotteryName,  // 抽奖名称
+        string memory name,  // 抽奖名称
         address ownerAddress,   // 所有者地址
         uint256 fee,    // 参与费用
         uint256 time,   // 开奖时间
         uint256 pool,   // 奖池金额
         LotteryState state,    // 当前状态
-        address winnerAddress   // 获胜者地址
+        address winnerAddress,   // 头奖获胜者地址
+        address[] memory winnerList,    // 按名次排列的全部中奖者
+        uint256[] memory prizeAmountList    // 各名次奖金
     ) {
         return (
             lotteryName,
             Ownable.owner(),
             entryFee,
             drawTime,
-            address(this).balance,
+            _availablePrize(),
             currentLotteryState,
-            winner
+            winner,
+            winners,
+            prizeAmounts
         );
     }
 
     // 赞助函数，任何人可调用，金额累加到奖池
     function sponsor() external payable {
+        _sponsor(msg.value, "");
+    }
+
+    // 赞助并附带留言，留言随赞助记录保存在链上
+    function sponsorWithMemo(string calldata memo) external payable {
+        require(bytes(memo).length <= MAX_SPONSOR_MEMO_LENGTH, unicode"赞助留言过长");
+        _sponsor(msg.value, memo);
+    }
+
+    // 代币抽奖的赞助入口，需要先 approve 本合约 amount 的额度
+    function sponsorToken(uint256 amount, string calldata memo) external {
+        require(address(token) != address(0), unicode"该抽奖不使用代币");
+        require(bytes(memo).length <= MAX_SPONSOR_MEMO_LENGTH, unicode"赞助留言过长");
+        _sponsor(amount, memo);
+    }
+
+    function _sponsor(uint256 amount, string memory memo) internal whenPlatformNotPaused {
         require(currentLotteryState == LotteryState.Open, unicode"抽奖未结束，不能赞助");
-        require(msg.value > 0, unicode"赞助金额需大于0");
-        prizePool += msg.value;
-        emit SponsorReceived(msg.sender, msg.value);
+        require(amount > 0, unicode"赞助金额需大于0");
+        address account = _msgSender();
+        prizePool += amount;
+        if (sponsorAmounts[account] == 0) {
+            sponsorList.push(account);
+        }
+        sponsorAmounts[account] += amount;
+        sponsorships.push(Sponsorship(account, amount, block.timestamp, memo));
+        _collect(amount);
+        emit SponsorReceived(account, amount);
+    }
+
+    // 收款：原生币抽奖校验 msg.value，代币抽奖从调用者划转代币
+    function _collect(uint256 amount) internal {
+        if (address(token) == address(0)) {
+            require(msg.value == amount, unicode"支付的入场费不正确");
+        } else {
+            require(msg.value == 0, unicode"代币抽奖不接受原生币");
+            token.safeTransferFrom(_msgSender(), address(this), amount);
+        }
+    }
+
+
+
+    // 获取所有赞助人及其累计赞助金额，按首次赞助顺序排列
+    function getSponsors() public view returns (address[] memory sponsors, uint256[] memory amounts) {
+        sponsors = sponsorList;
+        amounts = new uint256[](sponsors.length);
+        for (uint256 i = 0; i < sponsors.length; i++) {
+            amounts[i] = sponsorAmounts[sponsors[i]];
+        }
+    }
+
+    function getSponsorAmount(address account) public view returns (uint256) {
+        return sponsorAmounts[account];
+    }
+
+    // 获取每一笔赞助的明细（赞助人、金额、时间、留言）
+    function getSponsorships() public view returns (Sponsorship[] memory) {
+        return sponsorships;
     }
 
-    // 修改开奖时间，仅限 owner，且未开奖前可改
-    function setDrawTime(uint256 newTime) external onlyOwner {
+    // 修改开奖时间，仅限 owner 或管理员，且未开奖前可改，每次修改都会记入历史
+    function setDrawTime(uint256 newTime, string calldata reason) external onlyOwnerOrManager {
         require(currentLotteryState == LotteryState.Open, unicode"已开奖不能修改时间");
         require(newTime > block.timestamp, unicode"开奖时间必须在未来");
+        require(bytes(reason).length <= MAX_REASON_LENGTH, unicode"修改原因过长");
         uint256 old = drawTime;
         drawTime = newTime;
+        drawTimeHistory.push(DrawTimeChange(old, newTime, block.timestamp, _msgSender(), reason));
         emit DrawTimeChanged(old, newTime);
     }
 
+    // 获取指定轮次的开奖结果，未开奖的轮次返回空结果
+    function getRoundResult(uint256 round) public view returns (RoundResult memory) {
+        return roundResults[round];
+    }
+
+    // 获取开奖时间的全部修改记录，按修改先后排列
+    function getDrawTimeHistory() public view returns (DrawTimeChange[] memory) {
+        return drawTimeHistory;
+    }
+
     // 允许直接发送ETH到合约
-    receive() external payable {
+    // 直接转入的资金计入奖池，平台暂停期间与参与、赞助一样拒收
+    receive() external payable whenPlatformNotPaused {
         // 也可以在这里拒绝直接转账:
         // revert(unicode"请通过enter函数参与");
     }
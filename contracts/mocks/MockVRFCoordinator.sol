@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "../IRandomnessProvider.sol";
+
+// 模拟 VRF 协调器：仅用于 Hardhat 测试和本地链
+// 请求会被记录下来，由测试代码或本地脚本调用 fulfillRandomness 手动回调
+contract MockVRFCoordinator is IRandomnessProvider {
+
+    uint256 public nextRequestId = 1;
+    // 请求 ID 到发起请求的合约地址
+    mapping(uint256 => address) public consumers;
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer);
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomWord);
+
+    function requestRandomness() external returns (uint256 requestId) {
+        requestId = nextRequestId++;
+        consumers[requestId] = msg.sender;
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+
+    // 用指定的随机数完成请求，方便测试构造确定的结果
+    function fulfillRandomness(uint256 _requestId, uint256 _randomWord) public {
+        address consumer = consumers[_requestId];
+        require(consumer != address(0), unicode"请求不存在或已完成");
+        delete consumers[_requestId];
+
+        IRandomnessConsumer(consumer).rawFulfillRandomness(_requestId, _randomWord);
+        emit RandomnessFulfilled(_requestId, _randomWord);
+    }
+
+    // 用区块数据生成随机数完成请求，供本地链演示使用
+    function fulfillRandomnessWithBlockData(uint256 _requestId) external {
+        fulfillRandomness(_requestId, uint256(keccak256(abi.encodePacked(
+            _requestId,
+            blockhash(block.number - 1),
+            block.prevrandao
+        ))));
+    }
+}
@@ -1,11 +1,22 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+// 抽奖运维任务 lottery:*
+import "./tasks/lottery";
 
 import * as dotenv from "dotenv";
 dotenv.config();
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    settings: {
+      // 工厂合约内嵌了 SimpleLottery 的部署字节码，需开启优化器才能低于 24KB 的合约大小限制
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+    },
+  },
   networks: {
     // Polkadot EVM 平行链测试网配置
     moonbase: {
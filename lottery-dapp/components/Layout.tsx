@@ -1,8 +1,11 @@
 "use client"
 
-import React from "react"
+import React, { useState, useEffect } from "react"
+import { AlertTriangle } from "lucide-react"
 import Navbar from "./Navbar"
 import { useTheme } from "../contexts/ThemeContext"
+import { useWeb3 } from "../contexts/Web3Context"
+import { isPlatformPaused } from "../services/contracts"
 
 interface LayoutProps {
   children: React.ReactNode
@@ -10,10 +13,28 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { theme } = useTheme()
+  const { provider } = useWeb3()
+  const [paused, setPaused] = useState(false)
+
+  // 平台暂停时在所有页面顶部显示提示
+  useEffect(() => {
+    if (!provider) return
+    isPlatformPaused(provider)
+      .then(setPaused)
+      .catch(error => console.error("获取平台暂停状态失败:", error))
+  }, [provider])
 
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
+      {paused && (
+        <div className="bg-destructive text-destructive-foreground">
+          <div className="container mx-auto px-4 py-2 flex items-center justify-center text-sm">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            平台已暂停：暂时无法创建、参与或赞助抽奖，开奖、领奖和退款不受影响
+          </div>
+        </div>
+      )}
       <main className="flex-1 container mx-auto px-4 py-8">{children}</main>
       <footer className="border-t py-6">
         <div className="container mx-auto text-center text-sm text-muted-foreground">
@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import { Download, KeyRound } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { useToast } from "./ui/use-toast"
+import { issueEntryPasses, SignedEntryPass } from "../services/passes"
+import { parseAddressList } from "../utils/format"
+import { downloadJson } from "../utils/json"
+
+interface PassIssuerProps {
+  lotteryId: string
+  lotteryAddress: string
+}
+
+// 签发入场凭证：签发人为一组地址逐个签名 (钱包会依次弹出签名请求)，导出 JSON 后分发给对应的参与者
+export default function PassIssuer({ lotteryId, lotteryAddress }: PassIssuerProps) {
+  const { signer } = useWeb3()
+  const { toast } = useToast()
+  const [input, setInput] = useState("")
+  const [validDays, setValidDays] = useState("7")
+  const [issued, setIssued] = useState<SignedEntryPass[]>([])
+  const [processing, setProcessing] = useState(false)
+
+  const handleIssue = async () => {
+    if (!signer) return
+
+    const { valid, invalid } = parseAddressList(input)
+    if (invalid.length > 0 || valid.length === 0) {
+      toast({
+        title: "无效的地址",
+        description: invalid.length > 0
+          ? `以下地址格式不正确: ${invalid.slice(0, 3).join(", ")}${invalid.length > 3 ? " 等" : ""}`
+          : "请输入至少一个地址",
+        variant: "destructive",
+      })
+      return
+    }
+    const days = Number(validDays)
+    if (!Number.isFinite(days) || days <= 0) {
+      toast({ title: "无效的有效期", description: "请输入大于 0 的天数", variant: "destructive" })
+      return
+    }
+
+    setProcessing(true)
+    try {
+      const expiry = Math.floor(Date.now() / 1000) + Math.round(days * 24 * 60 * 60)
+      const passes = await issueEntryPasses(signer, lotteryAddress, valid, expiry)
+      setIssued(passes)
+      setInput("")
+      toast({
+        title: "签发成功",
+        description: `已签发 ${passes.length} 张入场凭证，请导出后分发给对应的参与者`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "签发失败",
+        description: error.message || "签发入场凭证时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        placeholder="参与者地址，每行一个或用逗号分隔"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        rows={4}
+        disabled={processing}
+      />
+      <div className="space-y-2">
+        <Label htmlFor="passValidDays">有效期 (天)</Label>
+        <Input
+          id="passValidDays"
+          type="number"
+          min="1"
+          step="1"
+          value={validDays}
+          onChange={e => setValidDays(e.target.value)}
+          disabled={processing}
+        />
+      </div>
+      <Button onClick={handleIssue} disabled={!input.trim() || processing} className="w-full">
+        {processing ? (
+          <><LoadingSpinner size="sm" className="mr-2" />等待钱包签名...</>
+        ) : (
+          <><KeyRound className="mr-2 h-4 w-4" />签发入场凭证</>
+        )}
+      </Button>
+
+      {issued.length > 0 && (
+        <Button
+          variant="outline"
+          onClick={() => downloadJson(`${lotteryId}-passes.json`, issued)}
+          className="w-full"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          导出 {issued.length} 张凭证 (JSON)
+        </Button>
+      )}
+      <p className="text-sm text-muted-foreground">
+        每张凭证只能使用一次，过期或更换签发人后失效；参与者在本页粘贴自己的凭证即可参与
+      </p>
+    </div>
+  )
+}
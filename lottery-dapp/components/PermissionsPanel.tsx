@@ -0,0 +1,156 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Minus, Trash2, UserPlus } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Badge } from "./ui/badge"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { useToast } from "./ui/use-toast"
+import { addManager, removeManager } from "../services/contracts"
+import { truncateAddress } from "../utils/format"
+
+// 各角色可执行的操作，与合约中的 onlyOwner / onlyOwnerOrManager 保持一致
+const ROLE_MATRIX = [
+  { action: "揭示种子开奖", owner: true, manager: false },
+  { action: "修改开奖时间", owner: true, manager: true },
+  { action: "管理白名单", owner: true, manager: true },
+  { action: "重置抽奖", owner: true, manager: true },
+  { action: "增删管理员", owner: true, manager: false },
+]
+
+interface PermissionsPanelProps {
+  lotteryAddress: string
+  owner: string
+  managers: string[]
+  // 当前用户是否是发起人，只有发起人可以编辑管理员
+  canEdit: boolean
+  onChanged: () => void
+}
+
+export default function PermissionsPanel({ lotteryAddress, owner, managers, canEdit, onChanged }: PermissionsPanelProps) {
+  const { signer, account } = useWeb3()
+  const { toast } = useToast()
+  const [newManager, setNewManager] = useState("")
+  const [processing, setProcessing] = useState(false)
+
+  const handleAdd = async () => {
+    if (!signer) return
+
+    setProcessing(true)
+    try {
+      await addManager(signer, lotteryAddress, newManager)
+      toast({
+        title: "添加成功",
+        description: `已将 ${truncateAddress(newManager)} 设为管理员`,
+      })
+      setNewManager("")
+      onChanged()
+    } catch (error: any) {
+      toast({
+        title: "添加失败",
+        description: error.message || "添加管理员时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleRemove = async (address: string) => {
+    if (!signer) return
+
+    setProcessing(true)
+    try {
+      await removeManager(signer, lotteryAddress, address)
+      toast({
+        title: "移除成功",
+        description: `已移除管理员 ${truncateAddress(address)}`,
+      })
+      onChanged()
+    } catch (error: any) {
+      toast({
+        title: "移除失败",
+        description: error.message || "移除管理员时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const renderAllowed = (allowed: boolean) =>
+    allowed ? <Check className="h-4 w-4 mx-auto text-green-600" /> : <Minus className="h-4 w-4 mx-auto text-muted-foreground" />
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-muted-foreground">
+            <th className="py-2 text-left font-normal">操作</th>
+            <th className="py-2 font-normal">发起人</th>
+            <th className="py-2 font-normal">管理员</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROLE_MATRIX.map(row => (
+            <tr key={row.action} className="border-b last:border-0">
+              <td className="py-2">{row.action}</td>
+              <td className="py-2">{renderAllowed(row.owner)}</td>
+              <td className="py-2">{renderAllowed(row.manager)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-2">
+        <div className="p-3 rounded-md border bg-muted/30 flex justify-between items-center">
+          <span className="truncate flex-1">{truncateAddress(owner)}</span>
+          {owner.toLowerCase() === account?.toLowerCase() && (
+            <Badge variant="outline" className="ml-2 whitespace-nowrap">
+              我
+            </Badge>
+          )}
+          <Badge className="ml-2 whitespace-nowrap">发起人</Badge>
+        </div>
+        {managers.map(address => (
+          <div key={address} className="p-3 rounded-md border bg-muted/30 flex justify-between items-center">
+            <span className="truncate flex-1">{truncateAddress(address)}</span>
+            {address.toLowerCase() === account?.toLowerCase() && (
+              <Badge variant="outline" className="ml-2 whitespace-nowrap">
+                我
+              </Badge>
+            )}
+            <Badge variant="secondary" className="ml-2 whitespace-nowrap">管理员</Badge>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-2 h-7 px-2"
+                onClick={() => handleRemove(address)}
+                disabled={processing}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="管理员地址 0x..."
+            value={newManager}
+            onChange={e => setNewManager(e.target.value.trim())}
+            disabled={processing}
+          />
+          <Button onClick={handleAdd} disabled={!newManager || processing}>
+            {processing ? <LoadingSpinner size="sm" /> : <UserPlus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
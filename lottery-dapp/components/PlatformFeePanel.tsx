@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Percent, Wallet } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { useToast } from "./ui/use-toast"
+import { getPlatformFeeInfo, setPlatformFee, withdrawPlatformRevenue } from "../services/contracts"
+
+// 管理后台的平台费面板：设置平台费率，提取累计的平台收入
+export default function PlatformFeePanel() {
+  const { provider, signer, account } = useWeb3()
+  const { toast } = useToast()
+  const [info, setInfo] = useState<{ feeBps: number; maxFeeBps: number; nativeRevenue: string } | null>(null)
+  const [feePercent, setFeePercent] = useState("")
+  const [tokenAddress, setTokenAddress] = useState("")
+  const [processing, setProcessing] = useState(false)
+
+  const fetchInfo = async () => {
+    if (!provider) return
+    try {
+      const data = await getPlatformFeeInfo(provider)
+      setInfo(data)
+      setFeePercent(String(data.feeBps / 100))
+    } catch (error) {
+      console.error("获取平台费信息失败:", error)
+    }
+  }
+
+  useEffect(() => {
+    fetchInfo()
+  }, [provider])
+
+  const handleSetFee = async () => {
+    if (!signer || !info) return
+
+    // 百分比转基点，只接受整数基点
+    const feeBps = Math.round(Number(feePercent) * 100)
+    if (!Number.isFinite(feeBps) || feeBps < 0 || feeBps > info.maxFeeBps) {
+      toast({
+        title: "无效的平台费率",
+        description: `请输入 0 到 ${info.maxFeeBps / 100}% 之间的数值`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setProcessing(true)
+    try {
+      await setPlatformFee(signer, feeBps)
+      toast({
+        title: "设置成功",
+        description: `平台费率已设为 ${feeBps / 100}%，对之后创建的抽奖生效`,
+      })
+      fetchInfo()
+    } catch (error: any) {
+      toast({
+        title: "设置失败",
+        description: error.message || "设置平台费率时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 提取平台收入到当前钱包，未填写代币地址时提取原生币
+  const handleWithdraw = async () => {
+    if (!signer || !account) return
+    if (tokenAddress && !ethers.isAddress(tokenAddress)) {
+      toast({
+        title: "无效的代币地址",
+        description: "请输入正确的 ERC-20 代币合约地址，或留空提取原生币",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setProcessing(true)
+    try {
+      await withdrawPlatformRevenue(signer, tokenAddress || ethers.ZeroAddress, account)
+      toast({
+        title: "提取成功",
+        description: "平台收入已转入当前钱包",
+      })
+      setTokenAddress("")
+      fetchInfo()
+    } catch (error: any) {
+      toast({
+        title: "提取失败",
+        description: error.message || "提取平台收入时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Percent className="mr-2 h-5 w-5" />
+          平台费
+        </CardTitle>
+        <CardDescription>
+          领奖时按费率从每份奖金中扣除，费率在抽奖创建时锁定
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!info ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="platformFee">平台费率 (%)，上限 {info.maxFeeBps / 100}%</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="platformFee"
+                  type="number"
+                  min="0"
+                  max={info.maxFeeBps / 100}
+                  step="0.01"
+                  value={feePercent}
+                  onChange={e => setFeePercent(e.target.value)}
+                  disabled={processing}
+                />
+                <Button onClick={handleSetFee} disabled={processing || Number(feePercent) * 100 === info.feeBps}>
+                  {processing ? <LoadingSpinner size="sm" /> : "保存"}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">当前费率 {info.feeBps / 100}%</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="revenueToken">提取平台收入</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="revenueToken"
+                  placeholder="代币地址 0x...，留空提取原生币"
+                  value={tokenAddress}
+                  onChange={e => setTokenAddress(e.target.value.trim())}
+                  disabled={processing}
+                />
+                <Button
+                  onClick={handleWithdraw}
+                  disabled={processing || (!tokenAddress && Number(info.nativeRevenue) === 0)}
+                >
+                  {processing ? <LoadingSpinner size="sm" /> : <Wallet className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">原生币收入 {info.nativeRevenue}</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Award } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { getRoundResult, TokenInfo } from "../services/contracts"
+import { formatDateTime, truncateAddress } from "../utils/format"
+
+interface RoundHistoryProps {
+  lotteryAddress: string
+  currentRound: number
+  // 计价代币，金额按其符号和小数位数展示
+  token: TokenInfo
+  // 变化时重新读取所选轮次的结果，例如开奖后
+  refreshKey?: number
+}
+
+// 多轮抽奖的往期结果：选择轮次查看归档的头奖、奖池和参与人数，重置后仍可核验
+export default function RoundHistory({ lotteryAddress, currentRound, token, refreshKey }: RoundHistoryProps) {
+  const { provider, account } = useWeb3()
+  const [round, setRound] = useState(currentRound)
+  const [result, setResult] = useState<Awaited<ReturnType<typeof getRoundResult>> | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // 开启新一轮后默认显示最新一轮
+  useEffect(() => {
+    setRound(currentRound)
+  }, [currentRound])
+
+  useEffect(() => {
+    if (!provider || !lotteryAddress) return
+    setLoading(true)
+    getRoundResult(provider, lotteryAddress, round, token.decimals)
+      .then(setResult)
+      .catch(error => console.error("获取轮次结果失败:", error))
+      .finally(() => setLoading(false))
+  }, [provider, lotteryAddress, round, token.decimals, refreshKey])
+
+  return (
+    <div className="space-y-4">
+      <Select value={String(round)} onValueChange={value => setRound(Number(value))}>
+        <SelectTrigger>
+          <SelectValue placeholder="选择轮次" />
+        </SelectTrigger>
+        <SelectContent>
+          {Array.from({ length: currentRound }, (_, index) => currentRound - index).map(r => (
+            <SelectItem key={r} value={String(r)}>
+              第 {r} 轮{r === currentRound ? "（当前）" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : !result || result.winner === ethers.ZeroAddress ? (
+        <div className="text-center py-6 text-muted-foreground">本轮尚未开奖</div>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">头奖</span>
+            <span className="flex items-center font-medium">
+              <Award className="mr-1 h-4 w-4 text-yellow-500" />
+              {truncateAddress(result.winner)}
+              {result.winner.toLowerCase() === account?.toLowerCase() && "（我）"}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">奖池</span>
+            <span className="font-medium">{result.pool} {token.symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">参与人数</span>
+            <span className="font-medium">{result.participantCount}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">开奖时间</span>
+            <span className="font-medium">{formatDateTime(result.drawTime)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Download, Trophy } from "lucide-react"
+import { Button } from "./ui/button"
+import { Badge } from "./ui/badge"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { getSponsorships, TokenInfo } from "../services/contracts"
+import { truncateAddress } from "../utils/format"
+import { toCsv, downloadCsv } from "../utils/csv"
+import { format } from "date-fns"
+
+interface Sponsorship {
+  sponsor: string
+  amount: string
+  timestamp: number
+  memo: string
+}
+
+interface SponsorLeaderboardProps {
+  lotteryId: string
+  lotteryAddress: string
+  // 计价代币，金额按其符号和小数位数展示
+  token: TokenInfo
+  // 是否允许导出 CSV（发起人）
+  canExport: boolean
+  // 变化时重新读取赞助记录，例如赞助成功后
+  refreshKey?: number
+}
+
+export default function SponsorLeaderboard({ lotteryId, lotteryAddress, token, canExport, refreshKey }: SponsorLeaderboardProps) {
+  const { provider, account } = useWeb3()
+  const [records, setRecords] = useState<Sponsorship[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!provider || !lotteryAddress) return
+    setLoading(true)
+    getSponsorships(provider, lotteryAddress)
+      .then(setRecords)
+      .catch(error => console.error("获取赞助记录失败:", error))
+      .finally(() => setLoading(false))
+  }, [provider, lotteryAddress, refreshKey])
+
+  // 按赞助人汇总，金额从高到低排序
+  const leaderboard = Object.values(
+    records.reduce((acc, record) => {
+      const key = record.sponsor.toLowerCase()
+      const entry = acc[key] || { sponsor: record.sponsor, total: BigInt(0), count: 0, lastTime: 0, memo: "" }
+      entry.total += ethers.parseUnits(record.amount, token.decimals)
+      entry.count += 1
+      if (record.timestamp >= entry.lastTime) {
+        entry.lastTime = record.timestamp
+        entry.memo = record.memo || entry.memo
+      }
+      acc[key] = entry
+      return acc
+    }, {} as Record<string, { sponsor: string; total: bigint; count: number; lastTime: number; memo: string }>)
+  ).sort((a, b) => (b.total > a.total ? 1 : b.total < a.total ? -1 : 0))
+
+  // 导出每一笔赞助明细
+  const handleExport = () => {
+    const csv = toCsv(
+      ["赞助人", `金额 (${token.symbol})`, "时间", "留言"],
+      records.map(record => [
+        record.sponsor,
+        record.amount,
+        format(new Date(record.timestamp * 1000), "yyyy-MM-dd HH:mm:ss"),
+        record.memo,
+      ])
+    )
+    downloadCsv(`sponsors-${lotteryId}.csv`, csv)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {leaderboard.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          暂无赞助
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
+          {leaderboard.map((entry, index) => (
+            <div
+              key={entry.sponsor}
+              className={`p-3 rounded-md border ${
+                entry.sponsor.toLowerCase() === account?.toLowerCase()
+                  ? "bg-primary/10 border-primary"
+                  : "bg-muted/30"
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2 min-w-0">
+                  {index < 3 ? (
+                    <Trophy className="h-4 w-4 text-yellow-500 shrink-0" />
+                  ) : (
+                    <span className="w-4 text-center text-xs text-muted-foreground">{index + 1}</span>
+                  )}
+                  <span className="truncate">{truncateAddress(entry.sponsor)}</span>
+                </div>
+                <Badge variant="outline" className="ml-2 whitespace-nowrap">
+                  {ethers.formatUnits(entry.total, token.decimals)} {token.symbol}
+                </Badge>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {format(new Date(entry.lastTime * 1000), "yyyy-MM-dd HH:mm")}
+                {entry.count > 1 && ` · 共 ${entry.count} 笔`}
+              </p>
+              {entry.memo && <p className="mt-1 text-sm break-all">“{entry.memo}”</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canExport && records.length > 0 && (
+        <Button variant="outline" size="sm" className="w-full" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" /> 导出赞助明细 CSV
+        </Button>
+      )}
+    </div>
+  )
+}
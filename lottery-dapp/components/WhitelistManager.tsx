@@ -0,0 +1,239 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { ethers } from "ethers"
+import { Upload, Trash2, UserPlus, GitMerge } from "lucide-react"
+import { Button } from "./ui/button"
+import { Textarea } from "./ui/textarea"
+import { Badge } from "./ui/badge"
+import LoadingSpinner from "./LoadingSpinner"
+import { useWeb3 } from "../contexts/Web3Context"
+import { useToast } from "./ui/use-toast"
+import { addToWhitelist, removeFromWhitelist, setMerkleRoot } from "../services/contracts"
+import { buildMerkleAllowlistFromText, ALLOWLIST_BASE_PATH } from "../services/merkle"
+import { parseAddressList, truncateAddress } from "../utils/format"
+import { downloadJson } from "../utils/json"
+
+interface WhitelistManagerProps {
+  lotteryId: string
+  lotteryAddress: string
+  whitelist: string[]
+  // 链上的 Merkle 白名单根，ZeroHash 表示未使用
+  merkleRoot: string
+  // 是否显示添加/移除操作（创建者且抽奖未开奖）
+  canManage: boolean
+  onChanged: () => void
+}
+
+export default function WhitelistManager({ lotteryId, lotteryAddress, whitelist, merkleRoot, canManage, onChanged }: WhitelistManagerProps) {
+  const { signer, account } = useWeb3()
+  const { toast } = useToast()
+  const [input, setInput] = useState("")
+  const [processing, setProcessing] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isListed = (address: string) =>
+    whitelist.some(item => item.toLowerCase() === address.toLowerCase())
+
+  // 读取 CSV/TXT 文件内容追加到输入框
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    const text = await file.text()
+    setInput(prev => (prev ? `${prev}\n${text}` : text))
+    event.target.value = ""
+  }
+
+  // 批量添加：校验格式、去重并跳过已在白名单中的地址
+  const handleAdd = async () => {
+    if (!signer) return
+
+    const { valid, invalid } = parseAddressList(input)
+    const pending = valid.filter(address => !isListed(address))
+
+    if (invalid.length > 0) {
+      toast({
+        title: "存在无效地址",
+        description: `已忽略 ${invalid.length} 个格式不正确的条目: ${invalid.slice(0, 3).join(", ")}${invalid.length > 3 ? " 等" : ""}`,
+        variant: "destructive",
+      })
+    }
+    if (pending.length === 0) {
+      toast({
+        title: "没有需要添加的地址",
+        description: "输入的地址为空或已全部在白名单中",
+      })
+      return
+    }
+
+    setProcessing(true)
+    try {
+      await addToWhitelist(signer, lotteryAddress, pending)
+      toast({
+        title: "添加成功",
+        description: `已添加 ${pending.length} 个地址到白名单`,
+      })
+      setInput("")
+      onChanged()
+    } catch (error: any) {
+      toast({
+        title: "添加失败",
+        description: error.message || "添加白名单时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 地址较多时改用 Merkle 白名单：只把根写入合约，并下载证明文件，
+  // 发布到 public/allowlists/<抽奖ID>.json 后参与者才能取得自己的证明
+  const handleSetMerkleRoot = async () => {
+    if (!signer) return
+
+    let allowlist
+    try {
+      allowlist = buildMerkleAllowlistFromText(input)
+    } catch (error: any) {
+      toast({ title: "生成 Merkle 白名单失败", description: error.message, variant: "destructive" })
+      return
+    }
+
+    setProcessing(true)
+    try {
+      await setMerkleRoot(signer, lotteryAddress, allowlist.root)
+      downloadJson(`${lotteryId}.json`, allowlist)
+      toast({
+        title: "Merkle 根已更新",
+        description: `共 ${Object.keys(allowlist.proofs).length} 个地址，请将下载的文件发布到 ${ALLOWLIST_BASE_PATH}/${lotteryId}.json`,
+      })
+      setInput("")
+      onChanged()
+    } catch (error: any) {
+      toast({
+        title: "设置失败",
+        description: error.message || "设置 Merkle 根时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 移除单个地址
+  const handleRemove = async (address: string) => {
+    if (!signer) return
+
+    setProcessing(true)
+    try {
+      await removeFromWhitelist(signer, lotteryAddress, [address])
+      toast({
+        title: "移除成功",
+        description: `已将 ${truncateAddress(address)} 移出白名单`,
+      })
+      onChanged()
+    } catch (error: any) {
+      toast({
+        title: "移除失败",
+        description: error.message || "移除白名单时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="粘贴地址，每行一个或用逗号分隔，也可以上传 CSV 文件"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            rows={4}
+            disabled={processing}
+          />
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={handleFileUpload}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={processing}
+            >
+              <Upload className="mr-2 h-4 w-4" /> 上传 CSV
+            </Button>
+            <Button size="sm" onClick={handleAdd} disabled={!input.trim() || processing} className="flex-1">
+              {processing ? (
+                <><LoadingSpinner size="sm" className="mr-2" />提交中...</>
+              ) : (
+                <><UserPlus className="mr-2 h-4 w-4" />添加到白名单</>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSetMerkleRoot}
+              disabled={!input.trim() || processing}
+              title="只在链上保存 Merkle 根，适合大量地址"
+            >
+              <GitMerge className="mr-2 h-4 w-4" /> 设为 Merkle 白名单
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {merkleRoot !== ethers.ZeroHash && (
+        <div className="p-3 rounded-md border bg-muted/30 text-sm">
+          <p className="font-medium">Merkle 白名单</p>
+          <p className="text-muted-foreground break-all">根：{merkleRoot}</p>
+          <p className="text-muted-foreground">名单内的地址凭 {ALLOWLIST_BASE_PATH}/{lotteryId}.json 中的证明参与</p>
+        </div>
+      )}
+
+      {whitelist.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          白名单为空
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
+          {whitelist.map(address => (
+            <div
+              key={address}
+              className={`p-3 rounded-md border flex justify-between items-center ${
+                address.toLowerCase() === account?.toLowerCase()
+                  ? "bg-primary/10 border-primary"
+                  : "bg-muted/30"
+              }`}
+            >
+              <span className="truncate flex-1">{truncateAddress(address)}</span>
+              {address.toLowerCase() === account?.toLowerCase() && (
+                <Badge variant="outline" className="ml-2 whitespace-nowrap">
+                  我
+                </Badge>
+              )}
+              {canManage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 h-7 px-2"
+                  onClick={() => handleRemove(address)}
+                  disabled={processing}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
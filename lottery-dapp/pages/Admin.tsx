@@ -6,11 +6,17 @@ import Link from "next/link"
 import { useRouter } from "next/router"
 import { useWeb3 } from "../contexts/Web3Context"
 import {
-  getAllLotteryIds,
-  getLotteryInstanceAddress,
-  getLotteryDetails,
+  getLatestLotteryIdsPage,
+  getLotterySummaries,
   resetLottery,
+  cancelLottery,
+  withdrawRefund,
+  getRefundAmount,
+  LotteryState,
   LOTTERY_FACTORY_ADDRESS,
+  CANCEL_GRACE_PERIOD,
+  isPlatformPaused,
+  setPlatformPaused,
 } from "../services/contracts"
 import { useToast } from "../components/ui/use-toast"
 import { Button } from "../components/ui/button"
@@ -18,9 +24,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../co
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table"
 import { Badge } from "../components/ui/badge"
 import { Input } from "../components/ui/input"
-import { ArrowLeft, Search, RefreshCw, Shield, AlertTriangle, Check, X } from "lucide-react"
+import { ArrowLeft, Search, RefreshCw, Shield, AlertTriangle, Check, X, PauseCircle, PlayCircle } from "lucide-react"
 import { formatDateTime } from "../utils/format"
 import LoadingSpinner from "../components/LoadingSpinner"
+import PlatformFeePanel from "../components/PlatformFeePanel"
 import {
   Dialog,
   DialogContent,
@@ -40,11 +47,23 @@ const Admin: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
+  // 分页状态：已加载的页数、抽奖总数以及是否还有更早的抽奖
+  const [loadedPages, setLoadedPages] = useState(0)
+  const [totalLotteries, setTotalLotteries] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
 
   // 停止抽奖相关状态
   const [isStoppingLottery, setIsStoppingLottery] = useState(false)
   const [selectedLottery, setSelectedLottery] = useState<any>(null)
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false)
+  // 确认对话框对应的操作：停止（重置）或取消
+  const [confirmAction, setConfirmAction] = useState<"stop" | "cancel">("stop")
+
+  // 平台暂停相关状态
+  const [paused, setPaused] = useState(false)
+  const [pauseDialogOpen, setPauseDialogOpen] = useState(false)
+  const [isTogglingPause, setIsTogglingPause] = useState(false)
 
   // 检查是否是工厂合约的部署者
   useEffect(() => {
@@ -78,7 +97,22 @@ const Admin: React.FC = () => {
     checkFactoryDeployer()
   }, [provider, account, isConnected, isCorrectNetwork, router, toast])
 
-  // 获取所有抽奖
+  // 批量读取一页抽奖的摘要，只有已取消的抽奖需要额外查询退款金额
+  const loadLotteryRows = async (ids: string[]) => {
+    if (!provider) return []
+    const summaries = await getLotterySummaries(provider, ids)
+    return Promise.all(
+      summaries.map(async summary => ({
+        ...summary,
+        publicCancelTime: summary.drawTime + CANCEL_GRACE_PERIOD,
+        refundAmount: summary.currentState === LotteryState.Cancelled && account
+          ? await getRefundAmount(provider, summary.address, account)
+          : "0",
+      })),
+    )
+  }
+
+  // 获取最新一页抽奖，刷新时重新从第一页开始
   const fetchLotteries = async () => {
     if (!provider || !isConnected || !isCorrectNetwork) {
       setLoading(false)
@@ -87,23 +121,13 @@ const Admin: React.FC = () => {
 
     try {
       setRefreshing(true)
-      const ids = await getAllLotteryIds(provider)
-
-      const lotteriesData = await Promise.all(
-        ids.map(async (id: string) => {
-          const address = await getLotteryInstanceAddress(provider, id)
-          const details = await getLotteryDetails(provider, address)
-
-          return {
-            id,
-            address,
-            ...details,
-            participantsCount: details.participants.length,
-          }
-        }),
-      )
+      const { ids, total, hasMore } = await getLatestLotteryIdsPage(provider, 0)
+      const lotteriesData = await loadLotteryRows(ids)
 
       setLotteries(lotteriesData)
+      setLoadedPages(1)
+      setTotalLotteries(total)
+      setHasMore(hasMore)
     } catch (error) {
       console.error("获取抽奖列表失败:", error)
       toast({
@@ -117,6 +141,35 @@ const Admin: React.FC = () => {
     }
   }
 
+  // 加载更早创建的一页抽奖
+  const loadMoreLotteries = async () => {
+    if (!provider || !hasMore) return
+
+    try {
+      setLoadingMore(true)
+      const { ids, total, hasMore: more } = await getLatestLotteryIdsPage(provider, loadedPages)
+      const lotteriesData = await loadLotteryRows(ids)
+
+      // 加载期间可能有新抽奖创建导致分页偏移，按 ID 去重
+      setLotteries(prev => {
+        const known = prev.map(lottery => lottery.id)
+        return [...prev, ...lotteriesData.filter(lottery => known.indexOf(lottery.id) === -1)]
+      })
+      setLoadedPages(loadedPages + 1)
+      setTotalLotteries(total)
+      setHasMore(more)
+    } catch (error) {
+      console.error("加载更多抽奖失败:", error)
+      toast({
+        title: "获取数据失败",
+        description: "无法加载更多抽奖",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   // 停止抽奖
   const handleStopLottery = async () => {
     if (!signer || !selectedLottery) return
@@ -155,12 +208,99 @@ const Admin: React.FC = () => {
     }
   }
 
+  // 取消抽奖（仅无人参与的抽奖）
+  const handleCancelLottery = async () => {
+    if (!signer || !selectedLottery) return
+
+    setIsStoppingLottery(true)
+
+    try {
+      await cancelLottery(signer, selectedLottery.address)
+
+      toast({
+        title: "操作成功",
+        description: `抽奖 "${selectedLottery.lotteryName}" 已取消，资金可由发起人和赞助人领取退款`,
+      })
+
+      fetchLotteries()
+    } catch (error: any) {
+      toast({
+        title: "操作失败",
+        description: error.message || "取消抽奖时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setIsStoppingLottery(false)
+      setConfirmDialogOpen(false)
+      setSelectedLottery(null)
+    }
+  }
+
+  // 领取已取消抽奖的退款
+  const handleWithdrawRefund = async (lottery: any) => {
+    if (!signer) return
+
+    try {
+      await withdrawRefund(signer, lottery.address)
+      toast({
+        title: "退款成功",
+        description: `${lottery.refundAmount} ${lottery.token.symbol} 已退回您的钱包`,
+      })
+      fetchLotteries()
+    } catch (error: any) {
+      toast({
+        title: "退款失败",
+        description: error.message || "领取退款时发生错误",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // 无人参与的抽奖可取消：发起人随时可取消，其他人需等到宽限期结束
+  const canCancel = (lottery: any) =>
+    lottery.currentState === LotteryState.Open &&
+    lottery.participantsCount === 0 &&
+    (lottery.owner.toLowerCase() === account?.toLowerCase() || Date.now() / 1000 >= lottery.publicCancelTime)
+
   // 打开确认对话框
-  const openConfirmDialog = (lottery: any) => {
+  const openConfirmDialog = (lottery: any, action: "stop" | "cancel" = "stop") => {
     setSelectedLottery(lottery)
+    setConfirmAction(action)
     setConfirmDialogOpen(true)
   }
 
+  // 读取平台暂停状态
+  useEffect(() => {
+    if (!provider) return
+    isPlatformPaused(provider)
+      .then(setPaused)
+      .catch(error => console.error("获取平台暂停状态失败:", error))
+  }, [provider])
+
+  // 暂停或恢复平台
+  const handleTogglePause = async () => {
+    if (!signer) return
+
+    setIsTogglingPause(true)
+    try {
+      await setPlatformPaused(signer, !paused)
+      toast({
+        title: paused ? "平台已恢复" : "平台已暂停",
+        description: paused ? "用户可以正常创建、参与和赞助抽奖" : "已阻止创建、参与和赞助抽奖，领奖和退款不受影响",
+      })
+      setPaused(!paused)
+      setPauseDialogOpen(false)
+    } catch (error: any) {
+      toast({
+        title: paused ? "恢复失败" : "暂停失败",
+        description: error.message || "切换平台暂停状态时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTogglingPause(false)
+    }
+  }
+
   // 过滤抽奖列表
   const filteredLotteries = lotteries.filter(
     (lottery) =>
@@ -219,6 +359,30 @@ const Admin: React.FC = () => {
         </Link>
       </div>
 
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center">
+                <AlertTriangle className="mr-2 h-5 w-5" />
+                紧急暂停
+              </CardTitle>
+              <CardDescription>
+                {paused
+                  ? "平台已暂停：无法创建、参与或赞助抽奖，开奖、领奖和退款照常进行"
+                  : "平台运行中。发现线上问题时可暂停全部抽奖的资金流入"}
+              </CardDescription>
+            </div>
+            <Button variant={paused ? "default" : "destructive"} onClick={() => setPauseDialogOpen(true)}>
+              {paused ? <PlayCircle className="mr-2 h-4 w-4" /> : <PauseCircle className="mr-2 h-4 w-4" />}
+              {paused ? "恢复平台" : "暂停平台"}
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <PlatformFeePanel />
+
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -227,7 +391,7 @@ const Admin: React.FC = () => {
                 <Shield className="mr-2 h-5 w-5" />
                 管理后台
               </CardTitle>
-              <CardDescription>管理所有抽奖活动</CardDescription>
+              <CardDescription>管理所有抽奖活动，共 {totalLotteries} 个</CardDescription>
             </div>
             <Button
               variant="outline"
@@ -289,7 +453,9 @@ const Admin: React.FC = () => {
                                 ? "bg-yellow-500"
                                 : lottery.currentState === 2
                                   ? "bg-blue-500"
-                                  : "bg-gray-500"
+                                  : lottery.currentState === 4
+                                    ? "bg-red-500"
+                                    : "bg-gray-500"
                           }
                         >
                           {lottery.currentState === 0
@@ -298,11 +464,13 @@ const Admin: React.FC = () => {
                               ? "开奖中"
                               : lottery.currentState === 2
                                 ? "可领奖"
-                                : "已结束"}
+                                : lottery.currentState === 4
+                                  ? "已取消"
+                                  : "已结束"}
                         </Badge>
                       </TableCell>
                       <TableCell>{lottery.participantsCount}</TableCell>
-                      <TableCell>{lottery.prizePool} ETH</TableCell>
+                      <TableCell>{lottery.prizePool} {lottery.token.symbol}</TableCell>
                       <TableCell>{formatDateTime(lottery.drawTime)}</TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
@@ -311,7 +479,20 @@ const Admin: React.FC = () => {
                               查看
                             </Button>
                           </Link>
-                          {lottery.currentState === 3 ? (
+                          {lottery.currentState === 4 ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={Number(lottery.refundAmount) === 0}
+                              onClick={() => handleWithdrawRefund(lottery)}
+                            >
+                              {Number(lottery.refundAmount) > 0 ? `退款 ${lottery.refundAmount} ${lottery.token.symbol}` : "已取消"}
+                            </Button>
+                          ) : canCancel(lottery) ? (
+                            <Button variant="destructive" size="sm" onClick={() => openConfirmDialog(lottery, "cancel")}>
+                              取消
+                            </Button>
+                          ) : lottery.currentState === 3 ? (
                             <Button variant="outline" size="sm" disabled>
                               已结束
                             </Button>
@@ -328,6 +509,14 @@ const Admin: React.FC = () => {
               </TableBody>
             </Table>
           </div>
+
+          {hasMore && (
+            <div className="mt-4 flex justify-center">
+              <Button variant="outline" onClick={loadMoreLotteries} disabled={loadingMore}>
+                {loadingMore ? <LoadingSpinner size="sm" /> : `加载更多（已显示 ${lotteries.length} / ${totalLotteries}）`}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -337,16 +526,22 @@ const Admin: React.FC = () => {
           <DialogHeader>
             <DialogTitle className="flex items-center">
               <AlertTriangle className="h-5 w-5 text-destructive mr-2" />
-              确认停止抽奖
+              {confirmAction === "cancel" ? "确认取消抽奖" : "确认停止抽奖"}
             </DialogTitle>
-            <DialogDescription>您确定要停止抽奖 "{selectedLottery?.lotteryName}" 吗？此操作不可逆。</DialogDescription>
+            <DialogDescription>
+              您确定要{confirmAction === "cancel" ? "取消" : "停止"}抽奖 "{selectedLottery?.lotteryName}" 吗？此操作不可逆。
+            </DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button variant="outline" onClick={() => setConfirmDialogOpen(false)} disabled={isStoppingLottery}>
               <X className="mr-2 h-4 w-4" />
               取消
             </Button>
-            <Button variant="destructive" onClick={handleStopLottery} disabled={isStoppingLottery}>
+            <Button
+              variant="destructive"
+              onClick={confirmAction === "cancel" ? handleCancelLottery : handleStopLottery}
+              disabled={isStoppingLottery}
+            >
               {isStoppingLottery ? (
                 <>
                   <LoadingSpinner size="sm" className="mr-2" />
@@ -355,7 +550,46 @@ const Admin: React.FC = () => {
               ) : (
                 <>
                   <Check className="mr-2 h-4 w-4" />
-                  确认停止
+                  {confirmAction === "cancel" ? "确认取消" : "确认停止"}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pauseDialogOpen} onOpenChange={setPauseDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertTriangle className="h-5 w-5 text-destructive mr-2" />
+              {paused ? "确认恢复平台" : "确认暂停平台"}
+            </DialogTitle>
+            <DialogDescription>
+              {paused
+                ? "恢复后用户可以重新创建、参与和赞助抽奖。"
+                : "暂停后所有用户都无法创建新抽奖，也无法参与或赞助已有抽奖；开奖、领奖和退款不受影响。"}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPauseDialogOpen(false)} disabled={isTogglingPause}>
+              <X className="mr-2 h-4 w-4" />
+              取消
+            </Button>
+            <Button
+              variant={paused ? "default" : "destructive"}
+              onClick={handleTogglePause}
+              disabled={isTogglingPause}
+            >
+              {isTogglingPause ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  处理中...
+                </>
+              ) : (
+                <>
+                  <Check className="mr-2 h-4 w-4" />
+                  {paused ? "确认恢复" : "确认暂停"}
                 </>
               )}
             </Button>
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next"
+import { ethers } from "ethers"
+import { submitForwardRequest } from "../../services/relayer"
+import { handleContractError } from "../../services/contracts"
+
+// 中继接口：接收用户签名的 ForwardRequest，由中继账户代付 gas 提交到可信转发器
+// 服务端需配置 RELAYER_PRIVATE_KEY (中继账户私钥) 和 RELAYER_RPC_URL，工厂地址沿用 NEXT_PUBLIC_LOTTERY_FACTORY_ADDRESS
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST")
+    return res.status(405).json({ error: "只支持 POST 请求" })
+  }
+
+  const privateKey = process.env.RELAYER_PRIVATE_KEY
+  const rpcUrl = process.env.RELAYER_RPC_URL
+  const factoryAddress = process.env.NEXT_PUBLIC_LOTTERY_FACTORY_ADDRESS
+  if (!privateKey || !rpcUrl || !factoryAddress) {
+    return res.status(503).json({ error: "中继未配置" })
+  }
+
+  try {
+    const relayer = new ethers.Wallet(privateKey, new ethers.JsonRpcProvider(rpcUrl))
+    const hash = await submitForwardRequest(relayer, factoryAddress, req.body)
+    return res.status(200).json({ hash })
+  } catch (error) {
+    console.error("中继提交失败:", error)
+    return res.status(400).json({ error: handleContractError(error) })
+  }
+}
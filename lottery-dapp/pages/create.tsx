@@ -1,16 +1,22 @@
 import React, { useState, useEffect } from "react"
+import { ethers } from "ethers"
 import { useRouter } from "next/router"
 import { useWeb3 } from "../contexts/Web3Context"
-import { createLottery } from "../services/contracts"
+import { createLottery, commitSeed, saveSeedSecret, seedBackupFilename, factoryUsesRandomnessProvider, equalPrizeTiers, percentPrizeTiers, LotteryMode, getTokenInfo, TokenInfo, MAX_CREATOR_COMMISSION_BPS, UnclaimedPolicy } from "../services/contracts"
 import Layout from "../components/Layout"
 import { Button } from "../components/ui/button"
 import { Input } from "../components/ui/input"
 import { Label } from "../components/ui/label"
+import { Textarea } from "../components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "../components/ui/radio-group"
 import { Calendar } from "../components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "../components/ui/popover"
 import { format } from "date-fns"
 import { Calendar as CalendarIcon, Clock, RefreshCw } from "lucide-react"
 import { cn } from "../utils/cn"
+import { parseAddressList } from "../utils/format"
+import { downloadJson } from "../utils/json"
+import { buildMerkleAllowlistFromText, MerkleAllowlist, ALLOWLIST_BASE_PATH } from "../services/merkle"
 import { useToast } from "../components/ui/use-toast"
 import LoadingSpinner from "../components/LoadingSpinner"
 
@@ -26,6 +32,28 @@ export default function CreateLottery() {
   const [entryFee, setEntryFee] = useState("")
   const [date, setDate] = useState<Date | undefined>(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)) // 默认7天后
   const [time, setTime] = useState("12:00")
+  // 奖项设置：单一中奖者 / N 名平分 / 按名次自定义比例
+  const [prizeMode, setPrizeMode] = useState<"single" | "equal" | "custom">("single")
+  const [winnerCount, setWinnerCount] = useState("3")
+  const [tierPercents, setTierPercents] = useState("50,30,20")
+  const [lotteryMode, setLotteryMode] = useState<LotteryMode>(LotteryMode.Public)
+  const [whitelistInput, setWhitelistInput] = useState("")
+  // 白名单保存方式：逐个地址写入合约，或只写入 Merkle 根 (适合大量地址)
+  const [whitelistStorage, setWhitelistStorage] = useState<"onchain" | "merkle" | "passes">("onchain")
+  const [maxTickets, setMaxTickets] = useState("0")
+  // 参与人数上限和开奖所需的最少人数，0 表示不限
+  const [maxParticipantsInput, setMaxParticipantsInput] = useState("0")
+  const [minParticipantsInput, setMinParticipantsInput] = useState("0")
+  // 发起人佣金百分比，领奖时从奖金中扣除
+  const [commissionPercent, setCommissionPercent] = useState("0")
+  // 领奖期限 (天)，0 表示不限期；逾期未领的奖金按所选策略处理
+  const [claimWindowDays, setClaimWindowDays] = useState("0")
+  const [unclaimedPolicy, setUnclaimedPolicy] = useState<UnclaimedPolicy>(UnclaimedPolicy.Rollover)
+  // 工厂未配置随机数服务时不能选择逾期重新抽取
+  const [redrawAvailable, setRedrawAvailable] = useState(false)
+  // 计价代币地址，留空表示使用原生币
+  const [tokenAddress, setTokenAddress] = useState("")
+  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null)
   const [forceRerender, setForceRerender] = useState(0)
   
   // 强制刷新钱包连接状态
@@ -97,6 +125,34 @@ export default function CreateLottery() {
     checkWalletStatus();
   }, [isConnected, account, forceRerender]);
 
+  // 输入代币地址后读取符号和小数位数，用于展示和换算参与费用
+  useEffect(() => {
+    setTokenInfo(null)
+    if (!signer || !ethers.isAddress(tokenAddress)) return
+
+    let cancelled = false
+    getTokenInfo(signer, tokenAddress)
+      .then(info => !cancelled && setTokenInfo(info))
+      .catch(error => console.error("读取代币信息失败:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [signer, tokenAddress]);
+
+  // 读取工厂是否配置了随机数服务，决定是否提供逾期重新抽取的选项
+  useEffect(() => {
+    if (!signer?.provider) return
+
+    factoryUsesRandomnessProvider(signer.provider)
+      .then(available => {
+        setRedrawAvailable(available)
+        if (!available) {
+          setUnclaimedPolicy(policy => policy === UnclaimedPolicy.Redraw ? UnclaimedPolicy.Rollover : policy)
+        }
+      })
+      .catch(error => console.error("读取随机数服务配置失败:", error))
+  }, [signer]);
+
   // 提交表单
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -147,17 +203,127 @@ export default function CreateLottery() {
       return
     }
 
-    // 验证抽奖费用
+    // 验证抽奖费用，0 表示免费参与
     const entryFeeNum = parseFloat(entryFee)
-    if (isNaN(entryFeeNum) || entryFeeNum <= 0) {
+    if (isNaN(entryFeeNum) || entryFeeNum < 0) {
       toast({
         title: "无效的参与费用",
-        description: "参与费用必须大于0。",
+        description: "参与费用不能小于0。",
         variant: "destructive",
       })
       return
     }
 
+    // 计算奖项比例 (基点)
+    let prizeTiers: number[] = []
+    try {
+      if (prizeMode === "equal") {
+        prizeTiers = equalPrizeTiers(Number(winnerCount))
+      } else if (prizeMode === "custom") {
+        prizeTiers = percentPrizeTiers(tierPercents.split(/[,，\s]+/).filter(Boolean).map(Number))
+      }
+    } catch (error: any) {
+      toast({
+        title: "无效的奖项设置",
+        description: error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    // 私有抽奖的初始白名单，创建后也可以在详情页继续管理
+    let whitelist: string[] = []
+    let merkleAllowlist: MerkleAllowlist | null = null
+    // 凭证模式下由创建者自己签发入场凭证
+    const passSigner = lotteryMode === LotteryMode.Private && whitelistStorage === "passes" && account ? account : ethers.ZeroAddress
+    if (lotteryMode === LotteryMode.Private && whitelistStorage === "merkle") {
+      try {
+        merkleAllowlist = buildMerkleAllowlistFromText(whitelistInput)
+      } catch (error: any) {
+        toast({
+          title: "无效的白名单",
+          description: error.message,
+          variant: "destructive",
+        })
+        return
+      }
+    } else if (lotteryMode === LotteryMode.Private && whitelistStorage === "onchain") {
+      const { valid, invalid } = parseAddressList(whitelistInput)
+      if (invalid.length > 0) {
+        toast({
+          title: "无效的白名单地址",
+          description: `以下地址格式不正确: ${invalid.slice(0, 3).join(", ")}${invalid.length > 3 ? " 等" : ""}`,
+          variant: "destructive",
+        })
+        return
+      }
+      whitelist = valid
+    }
+
+    // 计价代币地址必须是可读取符号和小数位数的 ERC-20 合约
+    if (tokenAddress && !tokenInfo) {
+      toast({
+        title: "无效的代币地址",
+        description: "无法读取该地址的 ERC-20 代币信息",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // 每个地址的购买上限，0 表示不限
+    const maxTicketsPerAddress = Number(maxTickets || 0)
+    if (!Number.isInteger(maxTicketsPerAddress) || maxTicketsPerAddress < 0) {
+      toast({
+        title: "无效的购买上限",
+        description: "请输入不小于 0 的整数",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // 参与人数限制
+    const maxParticipants = Number(maxParticipantsInput || 0)
+    const minParticipants = Number(minParticipantsInput || 0)
+    if (!Number.isInteger(maxParticipants) || maxParticipants < 0 || !Number.isInteger(minParticipants) || minParticipants < 0) {
+      toast({
+        title: "无效的参与人数",
+        description: "请输入不小于 0 的整数",
+        variant: "destructive",
+      })
+      return
+    }
+    if (maxParticipants > 0 && minParticipants > maxParticipants) {
+      toast({
+        title: "无效的参与人数",
+        description: "最少参与人数不能超过人数上限",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // 发起人佣金，百分比转基点
+    const creatorCommissionBps = Math.round(Number(commissionPercent || 0) * 100)
+    if (!Number.isFinite(creatorCommissionBps) || creatorCommissionBps < 0 || creatorCommissionBps > MAX_CREATOR_COMMISSION_BPS) {
+      toast({
+        title: "无效的发起人佣金",
+        description: `请输入 0 到 ${MAX_CREATOR_COMMISSION_BPS / 100}% 之间的数值`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    // 领奖期限，天转秒
+    const claimWindowNumber = Number(claimWindowDays || 0)
+    if (!Number.isFinite(claimWindowNumber) || claimWindowNumber < 0) {
+      toast({
+        title: "无效的领奖期限",
+        description: "请输入不小于 0 的天数",
+        variant: "destructive",
+      })
+      return
+    }
+    const claimWindow = Math.round(claimWindowNumber * 24 * 60 * 60)
+
     // 计算时间戳
     const [hours, minutes] = time.split(":").map(Number)
     const drawDate = new Date(date)
@@ -180,12 +346,26 @@ export default function CreateLottery() {
 
     setLoading(true)
     try {
-      console.log("创建抽奖参数：", { lotteryId, name, entryFee, drawTimeInSeconds });
-      await createLottery(signer, lotteryId, name, entryFee, drawTimeInSeconds)
+      // 生成开奖种子，链上只保存承诺，创建成功后种子留在本浏览器里等开奖时揭示
+      const { secret, commitment } = commitSeed()
+      console.log("创建抽奖参数：", { lotteryId, name, entryFee, drawTimeInSeconds, commitment, prizeTiers, lotteryMode, whitelist, maxTicketsPerAddress, tokenAddress, creatorCommissionBps, claimWindow, unclaimedPolicy, maxParticipants, minParticipants, merkleRoot: merkleAllowlist?.root, passSigner });
+      const lotteryAddress = await createLottery(signer, lotteryId, name, entryFee, drawTimeInSeconds, commitment, prizeTiers, lotteryMode, whitelist, maxTicketsPerAddress, tokenAddress || ethers.ZeroAddress, creatorCommissionBps, claimWindow, unclaimedPolicy, maxParticipants, minParticipants, merkleAllowlist?.root, passSigner)
+      saveSeedSecret(lotteryAddress, 1, secret)
+      // 同时下载种子备份，否则浏览器数据被清除后抽奖只能在揭示超时后取消
+      downloadJson(seedBackupFilename(lotteryId, 1), { lotteryId, lotteryAddress, round: 1, secret })
+
+      // Merkle 白名单的证明文件需要由发起人发布，参与者才能取得自己的证明
+      if (merkleAllowlist) {
+        downloadJson(`${lotteryId}.json`, merkleAllowlist)
+        toast({
+          title: "请发布白名单证明文件",
+          description: `已下载 ${lotteryId}.json，请将其发布到 ${ALLOWLIST_BASE_PATH}/${lotteryId}.json`,
+        })
+      }
       
       toast({
         title: "创建成功",
-        description: "抽奖已成功创建！",
+        description: `抽奖已成功创建！开奖种子已保存在本浏览器并下载为 ${seedBackupFilename(lotteryId, 1)}，请妥善保管该备份文件。`,
       })
       
       // 跳转到首页
@@ -310,12 +490,30 @@ export default function CreateLottery() {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="entryFee">参与费用 (ETH)</Label>
+              <Label htmlFor="tokenAddress">计价代币（可选）</Label>
+              <Input
+                id="tokenAddress"
+                placeholder="ERC-20 代币合约地址 0x...，留空使用原生币"
+                value={tokenAddress}
+                onChange={(e) => setTokenAddress(e.target.value.trim())}
+                disabled={loading}
+              />
+              <p className="text-sm text-muted-foreground">
+                {tokenInfo
+                  ? `参与费用、赞助和奖金将以 ${tokenInfo.symbol}（${tokenInfo.decimals} 位小数）结算，参与者需先授权代币`
+                  : tokenAddress
+                    ? "正在读取代币信息或地址无效"
+                    : "参与费用、赞助和奖金以原生币结算"}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="entryFee">参与费用 ({tokenInfo ? tokenInfo.symbol : "ETH"})</Label>
               <Input
                 id="entryFee"
                 type="number"
                 step="0.001"
-                min="0.001"
+                min="0"
                 placeholder="例如: 0.01"
                 value={entryFee}
                 onChange={(e) => setEntryFee(e.target.value)}
@@ -323,10 +521,223 @@ export default function CreateLottery() {
                 disabled={loading}
               />
               <p className="text-sm text-muted-foreground">
-                设置参与者需要支付的ETH数量
+                设置参与者每张彩票需要支付的{tokenInfo ? tokenInfo.symbol : "ETH"}数量；0 表示免费参与，未设购买上限时每次只能买 1 张，配置了中继时参与者可以免 gas 参与
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxTickets">每个地址最多购买</Label>
+              <Input
+                id="maxTickets"
+                type="number"
+                step="1"
+                min="0"
+                value={maxTickets}
+                onChange={(e) => setMaxTickets(e.target.value)}
+                disabled={loading}
+              />
+              <p className="text-sm text-muted-foreground">
+                每张彩票价格等于参与费用，买得越多中奖概率越高；0 表示不限购
+              </p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="maxParticipants">参与人数上限</Label>
+                <Input
+                  id="maxParticipants"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={maxParticipantsInput}
+                  onChange={(e) => setMaxParticipantsInput(e.target.value)}
+                  disabled={loading}
+                />
+                <p className="text-sm text-muted-foreground">
+                  人满后不再接受新地址参与；0 表示不限
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minParticipants">最少参与人数</Label>
+                <Input
+                  id="minParticipants"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={minParticipantsInput}
+                  onChange={(e) => setMinParticipantsInput(e.target.value)}
+                  disabled={loading}
+                />
+                <p className="text-sm text-muted-foreground">
+                  开奖时间到达时人数不足将取消抽奖，所有人可领取退款；0 表示不限
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="commission">发起人佣金 (%)</Label>
+              <Input
+                id="commission"
+                type="number"
+                step="0.01"
+                min="0"
+                max={MAX_CREATOR_COMMISSION_BPS / 100}
+                value={commissionPercent}
+                onChange={(e) => setCommissionPercent(e.target.value)}
+                disabled={loading}
+              />
+              <p className="text-sm text-muted-foreground">
+                中奖者领奖时按此比例从奖金中扣除，开奖后可在详情页提取；最高 {MAX_CREATOR_COMMISSION_BPS / 100}%，平台另按平台费率扣除
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="claimWindow">领奖期限 (天)</Label>
+              <Input
+                id="claimWindow"
+                type="number"
+                step="1"
+                min="0"
+                value={claimWindowDays}
+                onChange={(e) => setClaimWindowDays(e.target.value)}
+                disabled={loading}
+              />
+              <p className="text-sm text-muted-foreground">
+                开奖后中奖者需在此期限内领奖；0 表示不限期
+              </p>
+              {Number(claimWindowDays) > 0 && (
+                <RadioGroup
+                  value={String(unclaimedPolicy)}
+                  onValueChange={(value) => setUnclaimedPolicy(Number(value) as UnclaimedPolicy)}
+                  className="flex flex-wrap gap-4 pt-2"
+                  disabled={loading}
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(UnclaimedPolicy.Rollover)} id="unclaimed-rollover" />
+                    <Label htmlFor="unclaimed-rollover" className="font-normal">逾期奖金转入下一轮</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(UnclaimedPolicy.ReturnToOwner)} id="unclaimed-return" />
+                    <Label htmlFor="unclaimed-return" className="font-normal">逾期奖金退还发起人</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(UnclaimedPolicy.Redraw)} id="unclaimed-redraw" disabled={!redrawAvailable} />
+                    <Label htmlFor="unclaimed-redraw" className="font-normal">
+                      逾期重新抽取中奖者{!redrawAvailable && "（需要平台配置随机数服务）"}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              )}
+            </div>
+            
+            <div className="space-y-2">
+              <Label>奖项设置</Label>
+              <RadioGroup
+                value={prizeMode}
+                onValueChange={(value) => setPrizeMode(value as "single" | "equal" | "custom")}
+                className="flex flex-wrap gap-4"
+                disabled={loading}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="single" id="prize-single" />
+                  <Label htmlFor="prize-single" className="font-normal">一名中奖者独得奖池</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="equal" id="prize-equal" />
+                  <Label htmlFor="prize-equal" className="font-normal">多名中奖者平分</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="custom" id="prize-custom" />
+                  <Label htmlFor="prize-custom" className="font-normal">按名次设置比例</Label>
+                </div>
+              </RadioGroup>
+              {prizeMode === "equal" && (
+                <Input
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="1"
+                  placeholder="中奖人数，例如: 3"
+                  value={winnerCount}
+                  onChange={(e) => setWinnerCount(e.target.value)}
+                  disabled={loading}
+                />
+              )}
+              {prizeMode === "custom" && (
+                <Input
+                  placeholder="各名次百分比，用逗号分隔，例如: 50,30,20"
+                  value={tierPercents}
+                  onChange={(e) => setTierPercents(e.target.value)}
+                  disabled={loading}
+                />
+              )}
+              <p className="text-sm text-muted-foreground">
+                最多 10 个名次，中奖者互不重复；参与人数不足时只开出前几个名次，奖池按这些名次的比例分配
               </p>
             </div>
             
+            <div className="space-y-2">
+              <Label>参与方式</Label>
+              <RadioGroup
+                value={String(lotteryMode)}
+                onValueChange={(value) => setLotteryMode(Number(value) as LotteryMode)}
+                className="flex flex-wrap gap-4"
+                disabled={loading}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value={String(LotteryMode.Public)} id="mode-public" />
+                  <Label htmlFor="mode-public" className="font-normal">公开抽奖，任何人可参与</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value={String(LotteryMode.Private)} id="mode-private" />
+                  <Label htmlFor="mode-private" className="font-normal">私有抽奖，仅白名单可参与</Label>
+                </div>
+              </RadioGroup>
+              {lotteryMode === LotteryMode.Private && (
+                <>
+                  <RadioGroup
+                    value={whitelistStorage}
+                    onValueChange={(value) => setWhitelistStorage(value as "onchain" | "merkle" | "passes")}
+                    className="flex flex-wrap gap-4 pt-2"
+                    disabled={loading}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="onchain" id="whitelist-onchain" />
+                      <Label htmlFor="whitelist-onchain" className="font-normal">白名单地址写入合约</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="merkle" id="whitelist-merkle" />
+                      <Label htmlFor="whitelist-merkle" className="font-normal">只写入 Merkle 根（适合大量地址）</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="passes" id="whitelist-passes" />
+                      <Label htmlFor="whitelist-passes" className="font-normal">签发入场凭证（名单不上链）</Label>
+                    </div>
+                  </RadioGroup>
+                  {whitelistStorage === "passes" ? (
+                    <p className="text-sm text-muted-foreground">
+                      当前钱包将作为凭证签发人，创建后在详情页的“凭证”标签中为参与者签发一次性入场凭证
+                    </p>
+                  ) : (
+                    <Textarea
+                      placeholder={whitelistStorage === "merkle"
+                        ? "白名单地址，每行一个或用逗号分隔"
+                        : "初始白名单地址，每行一个或用逗号分隔（可留空，创建后在详情页添加）"}
+                      value={whitelistInput}
+                      onChange={(e) => setWhitelistInput(e.target.value)}
+                      rows={4}
+                      disabled={loading}
+                    />
+                  )}
+                  {whitelistStorage === "merkle" && (
+                    <p className="text-sm text-muted-foreground">
+                      创建后会下载证明文件，需发布到 {ALLOWLIST_BASE_PATH}/&lt;抽奖ID&gt;.json，参与者凭其中的证明参与
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+            
             <div className="grid gap-6 md:grid-cols-2">
               <div className="space-y-2">
                 <Label>开奖日期</Label>
@@ -391,8 +802,10 @@ export default function CreateLottery() {
           <h3 className="font-medium mb-2">注意事项:</h3>
           <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
             <li>创建抽奖需要支付少量燃料费</li>
-            <li>开奖后，中奖者可以领取全部奖池金额</li>
-            <li>开奖时间到达后，创建者可以点击"开奖"按钮来选择随机中奖者</li>
+            <li>开奖后，每位中奖者按名次比例领取各自的奖金</li>
+            <li>开奖时间到达后，创建者点击"开奖"按钮揭示开奖种子，与区块数据一起决定中奖者</li>
+            <li>开奖种子保存在创建时使用的浏览器中，创建者超过1天未开奖时抽奖将被取消并全额退款</li>
+            <li>私有抽奖的白名单可以在开奖前由创建者在详情页增删</li>
             <li>创建后的抽奖参数无法修改，请确认无误再提交</li>
           </ul>
         </div>
@@ -16,19 +16,19 @@ import { Input } from "../components/ui/input"
 import { Label } from "../components/ui/label"
 import { Badge } from "../components/ui/badge"
 import { Skeleton } from "../components/ui/skeleton"
+import { Progress } from "../components/ui/progress"
 import { Search } from "lucide-react"
 import {
   getReadOnlyLotteryFactoryContract,
-  getReadOnlyLotteryInstanceContract,
   getLotteryFactoryContract,
-  getLotteryInstanceContract,
-  formatEther,
+  getLotterySummaries,
   LotteryState,
   getCurrentNetworkSymbol,
   SUPPORTED_NETWORKS,
   LOTTERY_FACTORY_ADDRESS,
   safeContractCall,
-  BACKUP_RPCS
+  BACKUP_RPCS,
+  LOTTERY_PAGE_SIZE
 } from "../services/contracts"
 import {
   Trophy,
@@ -73,6 +73,10 @@ interface LotteryDetails {
   winner: string;
   owner: string;
   address: string; // 添加address字段
+  tokenSymbol?: string; // ERC-20 计价抽奖的代币符号，原生币抽奖为空
+  participantsCount: number;
+  maxParticipants: number; // 参与人数上限，0 表示不限
+  minParticipants: number; // 开奖所需的最少参与人数，0 表示不限
 }
 
 // 视图类型枚举
@@ -91,6 +95,9 @@ export default function Home() {
   const [lotteryIdInput, setLotteryIdInput] = useState("")
   const [showIdInput, setShowIdInput] = useState(false)
   const [viewType, setViewType] = useState<ViewType>('card') // 默认卡片视图
+  // 只加载最新的 visibleCount 个抽奖，点击"加载更多"时向前翻页
+  const [visibleCount, setVisibleCount] = useState(LOTTERY_PAGE_SIZE)
+  const [totalLotteries, setTotalLotteries] = useState(0)
   
   // 获取当前网络的代币符号
   const tokenSymbol = chainId ? getCurrentNetworkSymbol(chainId) : "ETH";
@@ -149,9 +156,14 @@ export default function Home() {
         return;
       }
       
-      // 获取所有抽奖ID
+      // 分页获取最新的抽奖ID，避免一次读取全部ID
       console.log("尝试获取抽奖ID列表...");
-      const lotteryIds = await safeContractCall<string[]>(factoryContract, 'getAllLotteryIds') || [];
+      const total = Number(await safeContractCall<bigint>(factoryContract, 'getLotteryCount') || 0);
+      const start = Math.max(total - visibleCount, 0);
+      const lotteryIds = total > start
+        ? Array.from(await safeContractCall<string[]>(factoryContract, 'getLotteryIds', [start, total - start]) || [])
+        : [];
+      setTotalLotteries(total);
       console.log("获取到抽奖ID列表:", lotteryIds);
       
       if (lotteryIds.length === 0) {
@@ -169,66 +181,28 @@ export default function Home() {
         return;
       }
       
-      // 获取每个抽奖的详细信息
-      const lotteriesData: LotteryDetails[] = []
-
-      for (const id of lotteryIds) {
-        try {
-          // 获取该抽奖实例的合约地址
-          const instanceAddress = await factoryContract.getLotteryInstanceAddress(id)
-          console.log("实例合约地址", instanceAddress)
-          
-          if (instanceAddress && instanceAddress !== ethers.ZeroAddress) {
-            // 获取该抽奖实例的详细信息
-            const instanceContract = provider 
-              ? getLotteryInstanceContract(instanceAddress, provider)
-              : getReadOnlyLotteryInstanceContract(instanceAddress)
-            
-            // 获取基本信息
-            const details = await instanceContract.getLotteryDetails()
-            
-            // 调试日志
-            console.log(`获取抽奖(${id})详情:`, details);
-            console.log("抽奖名称字段:", {
-              lotteryName: details.lotteryName,
-              name: details.name,
-              结构化解包: details[0],
-              id: details.id,
-              原始对象: Object.keys(details)
-            });
-            
-            // 安全处理可能的null值，并支持不同的参数名格式
-            const safeFormatEther = (value: any) => {
-              if (value === null || value === undefined) return "0";
-              try {
-                return formatEther(value);
-              } catch (error) {
-                console.error("格式化ETH数值失败:", error, "原始值:", value);
-                return "0";
-              }
-            };
-            
-            // 处理结构化返回值和不同参数名
-            const lotteryName = details.lotteryName || details[0] || details.name || "";
-            
-            // 将信息格式化后添加到列表
-            lotteriesData.push({
-              id: id,
-              name: lotteryName,
-              entryFee: safeFormatEther(details.fee || details[2] || details.entryFee),
-              drawTime: Number(details.time || details[3] || details.drawTime || 0),
-              prizePool: safeFormatEther(details.pool || details[4] || details.prizePool),
-              state: Number(details.state || details[5] || details.currentState || 0),
-              address: instanceAddress,
-              winner: details.winnerAddress || details[6] || details.winner || ethers.ZeroAddress,
-              owner: details.ownerAddress || details[1] || details.owner || ethers.ZeroAddress
-            })
-          }
-        } catch (err) {
-          console.error(`获取抽奖 ${id} 详情失败:`, err)
-          // 继续处理下一个，而不终止整个流程
-        }
+      // 通过工厂一次调用批量获取本页抽奖的摘要，取代逐个读取实例地址和详情
+      const summaryProvider = factoryContract.runner?.provider;
+      if (!summaryProvider) {
+        throw new Error("无法获取合约的provider");
       }
+      const summaries = await getLotterySummaries(summaryProvider, lotteryIds);
+
+      const lotteriesData: LotteryDetails[] = summaries.map(summary => ({
+        id: summary.id,
+        name: summary.lotteryName,
+        entryFee: summary.entryFee,
+        drawTime: summary.drawTime,
+        prizePool: summary.prizePool,
+        state: summary.currentState,
+        address: summary.address,
+        winner: summary.winner,
+        owner: summary.owner,
+        tokenSymbol: summary.token.isNative ? undefined : summary.token.symbol,
+        participantsCount: summary.participantsCount,
+        maxParticipants: summary.maxParticipants,
+        minParticipants: summary.minParticipants,
+      }))
 
       // 对抽奖按开奖时间排序，最近的排在前面
       lotteriesData.sort((a, b) => a.drawTime - b.drawTime)
@@ -257,7 +231,7 @@ export default function Home() {
     } finally {
       setLoading(false)
     }
-  }, [provider, toast])
+  }, [provider, toast, visibleCount])
 
   // 初始化时加载抽奖
   useEffect(() => {
@@ -340,6 +314,12 @@ export default function Home() {
             已结束
           </Badge>
         )
+      case LotteryState.Cancelled:
+        return (
+          <Badge variant="outline" className="bg-red-100 text-red-800 hover:bg-red-100">
+            已取消
+          </Badge>
+        )
       default:
         return (
           <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
@@ -349,6 +329,38 @@ export default function Home() {
     }
   }
 
+  // 参与进度：有人数上限时显示满员进度，否则有最低人数时显示达到开奖人数的进度
+  const renderFillProgress = (lottery: LotteryDetails) => {
+    const target = lottery.maxParticipants || lottery.minParticipants
+    if (!target) {
+      return (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">参与人数</span>
+          <span className="font-medium">{lottery.participantsCount}</span>
+        </div>
+      )
+    }
+    return (
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">参与人数</span>
+          <span className="font-medium">
+            {lottery.participantsCount} / {target}
+            {lottery.maxParticipants > 0 && lottery.participantsCount >= lottery.maxParticipants && "（已满）"}
+          </span>
+        </div>
+        <Progress value={Math.min(100, (lottery.participantsCount / target) * 100)} className="h-2" />
+        {lottery.minParticipants > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {lottery.participantsCount >= lottery.minParticipants
+              ? "已达到开奖人数"
+              : `至少 ${lottery.minParticipants} 人参与才开奖，不足将取消并退款`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
   // 格式化时间显示，更加友好
   const formatDrawTime = (timestamp: number) => {
     // 使用共享的时间格式化函数，与详情页保持一致
@@ -570,11 +582,11 @@ export default function Home() {
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">入场费</span>
-                        <span className="font-medium">{lottery.entryFee} {tokenSymbol}</span>
+                        <span className="font-medium">{lottery.entryFee} {lottery.tokenSymbol || tokenSymbol}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">奖池</span>
-                        <span className="font-medium">{lottery.prizePool} {tokenSymbol}</span>
+                        <span className="font-medium">{lottery.prizePool} {lottery.tokenSymbol || tokenSymbol}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">开奖时间</span>
@@ -582,6 +594,7 @@ export default function Home() {
                           {formatDrawTime(lottery.drawTime)}
                         </span>
                       </div>
+                      {renderFillProgress(lottery)}
                     </div>
                   </CardContent>
                   <CardFooter>
@@ -615,8 +628,8 @@ export default function Home() {
                     <tr key={lottery.id} className="hover:bg-muted/50">
                       <td className="px-4 py-3 font-medium">{lottery.name || `抽奖 #${lottery.id}`}</td>
                       <td className="px-4 py-3 text-muted-foreground">{lottery.id}</td>
-                      <td className="px-4 py-3">{lottery.entryFee} {tokenSymbol}</td>
-                      <td className="px-4 py-3">{lottery.prizePool} {tokenSymbol}</td>
+                      <td className="px-4 py-3">{lottery.entryFee} {lottery.tokenSymbol || tokenSymbol}</td>
+                      <td className="px-4 py-3">{lottery.prizePool} {lottery.tokenSymbol || tokenSymbol}</td>
                       <td className="px-4 py-3">{formatDrawTime(lottery.drawTime)}</td>
                       <td className="px-4 py-3">
                         {getLotteryStateDisplay(lottery.state, lottery.drawTime)}
@@ -636,6 +649,18 @@ export default function Home() {
               </table>
             </div>
           )}
+
+          {/* 还有更早的抽奖未加载时显示加载更多 */}
+          {!loading && lotteries.length > 0 && totalLotteries > visibleCount && (
+            <div className="flex justify-center mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setVisibleCount(count => count + LOTTERY_PAGE_SIZE)}
+              >
+                加载更多（已显示 {lotteries.length} / {totalLotteries}）
+              </Button>
+            </div>
+          )}
         </section>
       </div>
     </Layout>
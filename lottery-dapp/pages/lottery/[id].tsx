@@ -7,11 +7,33 @@ import {
   getLotteryDetails,
   enterLottery,
   drawWinner,
+  revealAndDraw,
+  getStoredSeedSecret,
   claimPrize,
   sponsorLottery,
   setDrawTime,
+  MAX_SPONSOR_MEMO_LENGTH,
+  MAX_REASON_LENGTH,
+  getWhitelist,
+  LotteryMode,
+  LotteryState,
+  cancelLottery,
+  withdrawRefund,
+  getRefundAmount,
+  splitPrize,
+  withdrawCommission,
+  startNextRound,
+  commitSeed,
+  saveSeedSecret,
+  seedBackupFilename,
+  settleUnclaimed,
+  UnclaimedPolicy,
+  RELAYER_URL,
 } from "../../services/contracts"
-import { formatDateTime, truncateAddress, calculateCountdown, isValidAddress } from "../../utils/format"
+import { fetchMerkleProof } from "../../services/merkle"
+import { downloadJson } from "../../utils/json"
+import { findEntryPass, SignedEntryPass } from "../../services/passes"
+import { formatDateTime, truncateAddress, calculateCountdown } from "../../utils/format"
 import { Button } from "../../components/ui/button"
 import {
   Card,
@@ -38,13 +60,42 @@ import {
   Copy,
   DollarSign,
   Calendar,
+  Lock,
+  XCircle,
+  RotateCcw,
+  Plus,
+  Minus,
+  Ticket,
+  PieChart,
 } from "lucide-react"
 import Layout from "../../components/Layout"
 import LoadingSpinner from "../../components/LoadingSpinner"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "../../components/ui/dialog"
 import { Input } from "../../components/ui/input"
+import { Textarea } from "../../components/ui/textarea"
+import { Label } from "../../components/ui/label"
+import { Switch } from "../../components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs"
+import WhitelistManager from "../../components/WhitelistManager"
+import PassIssuer from "../../components/PassIssuer"
+import PermissionsPanel from "../../components/PermissionsPanel"
+import SponsorLeaderboard from "../../components/SponsorLeaderboard"
+import RoundHistory from "../../components/RoundHistory"
 import { format } from "date-fns"
 
+// 逾期未领奖金的处理方式说明和对应的操作按钮文案
+const unclaimedPolicyLabels: Record<UnclaimedPolicy, string> = {
+  [UnclaimedPolicy.Rollover]: "未领取的奖金转入下一轮奖池",
+  [UnclaimedPolicy.ReturnToOwner]: "未领取的奖金退还发起人",
+  [UnclaimedPolicy.Redraw]: "将重新抽取中奖者",
+}
+
+const unclaimedPolicyActions: Record<UnclaimedPolicy, string> = {
+  [UnclaimedPolicy.Rollover]: "领奖期限已过，结束本轮并保留奖金",
+  [UnclaimedPolicy.ReturnToOwner]: "领奖期限已过，收回未领取的奖金",
+  [UnclaimedPolicy.Redraw]: "领奖期限已过，重新抽取中奖者",
+}
+
 export default function LotteryDetail() {
   const router = useRouter()
   const { id } = router.query
@@ -88,7 +139,28 @@ export default function LotteryDetail() {
         console.warn("警告: 未能获取到抽奖名称，将使用ID作为名称");
       }
       
-      setLottery({ id, address, ...details })
+      // 私有抽奖额外读取白名单
+      const whitelist = details.lotteryMode === LotteryMode.Private
+        ? await getWhitelist(provider, address)
+        : []
+      
+      // 使用 Merkle 白名单且当前用户不在链上白名单中时，从发布的白名单文件读取证明
+      let merkleProof: string[] | null = null
+      if (details.merkleRoot !== ethers.ZeroHash && account &&
+          !whitelist.some(address => address.toLowerCase() === account.toLowerCase())) {
+        try {
+          merkleProof = await fetchMerkleProof(String(id), account, details.merkleRoot)
+        } catch (error) {
+          console.error("读取 Merkle 白名单证明失败:", error)
+        }
+      }
+
+      // 已取消的抽奖读取当前用户可领取的退款
+      const refundAmount = details.currentState === LotteryState.Cancelled && account
+        ? await getRefundAmount(provider, address, account)
+        : "0"
+      
+      setLottery({ id, address, ...details, whitelist, merkleProof, refundAmount })
     } catch (error) {
       if (loading) {
         toast({
@@ -127,18 +199,39 @@ export default function LotteryDetail() {
     return () => clearInterval(timer)
   }, [lottery])
 
+  // 本次购买的彩票数量
+  const [quantity, setQuantity] = useState(1)
+  // 凭入场凭证参与：参与者粘贴签发人分发的凭证 JSON
+  const [passInput, setPassInput] = useState("")
+  const [entryPass, setEntryPass] = useState<SignedEntryPass | null>(null)
+  // 免 gas 参与：配置了中继且参与免费时可选，由中继代付 gas；中继只代付本轮的首次参与且只买 1 张
+  const [gasless, setGasless] = useState(false)
+
+  const canEnterGasless = () => !!RELAYER_URL && !!lottery && Number(lottery.entryFee) === 0 && !hasEntered() && quantity === 1
+
   // 参与抽奖
   const handleEnterLottery = async () => {
     if (!signer || !lottery) return
 
     setProcessing(true)
     try {
-      const tx = await enterLottery(signer, lottery.address, lottery.entryFee)
+      const tx = await enterLottery(
+        signer,
+        lottery.address,
+        quantity,
+        lottery.merkleProof || undefined,
+        entryPass || undefined,
+        gasless && canEnterGasless()
+      )
       
       toast({
         title: "参与成功",
-        description: "您已成功参与抽奖",
+        description: `您已成功购买 ${quantity} 张彩票`,
       })
+      setQuantity(1)
+      // 凭证使用后即作废
+      setEntryPass(null)
+      setPassInput("")
       
       // 刷新数据
       fetchLotteryDetails()
@@ -162,18 +255,30 @@ export default function LotteryDetail() {
     }
   }
 
-  // 开奖
-  const handleDrawWinner = async () => {
+  // 揭示种子弹窗相关（本浏览器没有保存种子时手动输入）
+  const [showReveal, setShowReveal] = useState(false)
+  const [revealSecret, setRevealSecret] = useState("")
+
+  // 开奖：发起人揭示创建时承诺的种子
+  const handleDrawWinner = async (secret?: string) => {
     if (!signer || !lottery) return
 
+    const seed = secret || getStoredSeedSecret(lottery.address, lottery.currentRound)
+    if (!seed) {
+      setShowReveal(true)
+      return
+    }
+
     setProcessing(true)
     try {
-      await drawWinner(signer, lottery.address)
+      await revealAndDraw(signer, lottery.address, seed)
       
       toast({
         title: "开奖成功",
         description: "已成功开奖，请刷新页面查看中奖者",
       })
+      setShowReveal(false)
+      setRevealSecret("")
       
       // 刷新数据
       fetchLotteryDetails()
@@ -197,6 +302,37 @@ export default function LotteryDetail() {
     }
   }
 
+  // 公开开奖：使用随机数服务时发起随机数请求，commit-reveal 抽奖则在发起人揭示超时后取消抽奖
+  const handlePublicDraw = async () => {
+    if (!signer || !lottery) return
+
+    setProcessing(true)
+    try {
+      await drawWinner(signer, lottery.address)
+
+      toast(lottery.usesRandomnessProvider ? {
+        title: "已请求随机数",
+        description: "正在等待随机数服务回调，中奖者稍后揭晓",
+      } : {
+        title: "抽奖已取消",
+        description: "发起人超时未开奖，抽奖已取消，请领取退款",
+      })
+
+      // 刷新数据
+      fetchLotteryDetails()
+    } catch (error: any) {
+      console.error("公开开奖失败:", error)
+
+      toast({
+        title: "开奖失败",
+        description: error.reason || error.message || "开奖时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
   // 领奖
   const handleClaimPrize = async () => {
     if (!signer || !lottery) return
@@ -232,6 +368,105 @@ export default function LotteryDetail() {
     }
   }
 
+  // 领奖期限过后按创建时选定的策略处理未领取的奖金
+  const handleSettleUnclaimed = async () => {
+    if (!signer || !lottery) return
+
+    setProcessing(true)
+    try {
+      await settleUnclaimed(signer, lottery.address)
+      toast({
+        title: "处理成功",
+        description: lottery.unclaimedPolicy === UnclaimedPolicy.Redraw
+          ? "已请求随机数，随机数服务回调后将为未领取的名次重新抽取中奖者"
+          : "未领取的奖金已处理，本轮抽奖结束",
+      })
+      fetchLotteryDetails()
+    } catch (e: any) {
+      toast({ title: "处理失败", description: e.message, variant: "destructive" })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 取消抽奖
+  const [showCancel, setShowCancel] = useState(false)
+  const handleCancelLottery = async () => {
+    if (!signer || !lottery) return
+
+    setProcessing(true)
+    try {
+      await cancelLottery(signer, lottery.address)
+      toast({
+        title: "抽奖已取消",
+        description: "发起人和赞助人可以在本页领取退款",
+      })
+      setShowCancel(false)
+      fetchLotteryDetails()
+    } catch (error: any) {
+      toast({
+        title: "取消失败",
+        description: error.message || "取消抽奖时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 领取退款
+  const handleWithdrawRefund = async () => {
+    if (!signer || !lottery) return
+
+    setProcessing(true)
+    try {
+      await withdrawRefund(signer, lottery.address)
+      toast({
+        title: "退款成功",
+        description: `${lottery.refundAmount} ${lottery.token.symbol} 已退回您的钱包`,
+      })
+      fetchLotteryDetails()
+    } catch (error: any) {
+      toast({
+        title: "退款失败",
+        description: error.message || "领取退款时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 发起人提取累计的佣金
+  const handleWithdrawCommission = async () => {
+    if (!signer || !lottery) return
+
+    setProcessing(true)
+    try {
+      await withdrawCommission(signer, lottery.address)
+      toast({
+        title: "提取成功",
+        description: `${lottery.creatorCommissionBalance} ${lottery.token.symbol} 佣金已转入您的钱包`,
+      })
+      fetchLotteryDetails()
+    } catch (error: any) {
+      toast({
+        title: "提取失败",
+        description: error.message || "提取佣金时发生错误",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // 奖池按领奖时的扣费规则拆分为中奖者、发起人佣金和平台费三部分
+  // 合约返回的奖池已扣除未提取的佣金
+  const getPoolBreakdown = () => {
+    const { decimals } = lottery.token
+    return splitPrize(lottery.prizePool, decimals, lottery.platformFeeBps, lottery.creatorCommissionBps)
+  }
+
   // 检查当前用户是否已参与
   const hasEntered = () => {
     if (!lottery || !account) return false
@@ -240,16 +475,135 @@ export default function LotteryDetail() {
     )
   }
 
+  // 当前用户是否有资格参与（公开抽奖、在白名单中或持有 Merkle 白名单证明）
+  const isEligible = () => {
+    if (!lottery || !account) return false
+    if (lottery.lotteryMode !== LotteryMode.Private || lottery.merkleProof || entryPass) return true
+    return lottery.whitelist.some(
+      (address: string) => address.toLowerCase() === account.toLowerCase()
+    )
+  }
+
+  // 抽奖接受入场凭证，且当前用户不在链上白名单、也没有 Merkle 证明时，可以凭凭证参与
+  const canUsePass = () => {
+    if (!lottery || !account || lottery.passSigner === ethers.ZeroAddress || lottery.merkleProof) return false
+    return !lottery.whitelist.some((address: string) => address.toLowerCase() === account.toLowerCase())
+  }
+
+  // 解析粘贴的入场凭证，只接受属于本抽奖和当前地址且未过期的凭证
+  const handlePassInput = (value: string) => {
+    setPassInput(value)
+    setEntryPass(null)
+    if (!value.trim() || !lottery || !account) return
+    try {
+      const found = findEntryPass(value, lottery.address, account)
+      if (!found) {
+        toast({ title: "没有找到可用的凭证", description: "凭证不属于当前钱包地址或本抽奖", variant: "destructive" })
+      } else if (found.pass.expiry < Date.now() / 1000) {
+        toast({ title: "凭证已过期", description: "请联系发起人重新签发", variant: "destructive" })
+      } else {
+        setEntryPass(found)
+      }
+    } catch {
+      toast({ title: "凭证格式错误", description: "请粘贴发起人导出的 JSON 凭证", variant: "destructive" })
+    }
+  }
+
+  // 当前用户持有的彩票数
+  const getMyTickets = () => {
+    if (!lottery || !account) return 0
+    const index = lottery.participants.findIndex(
+      (participant: string) => participant.toLowerCase() === account.toLowerCase()
+    )
+    return index >= 0 ? lottery.ticketCounts[index] || 0 : 0
+  }
+
+  // 当前用户还能购买的彩票数，不限购时返回 Infinity
+  const getRemainingQuota = () => {
+    if (!lottery || !lottery.maxTicketsPerAddress) return Infinity
+    return Math.max(lottery.maxTicketsPerAddress - getMyTickets(), 0)
+  }
+
+  // 单次最多可购买的张数，免费且不限购的抽奖合约只允许每次买 1 张
+  const getPurchaseLimit = () => {
+    if (lottery && Number(lottery.entryFee) === 0 && !lottery.maxTicketsPerAddress) return 1
+    return getRemainingQuota()
+  }
+
+  // 购买后抽中头奖的概率 (%)：持有彩票数 / 总彩票数
+  const getFirstPrizeOdds = (extra: number) => {
+    if (!lottery) return 0
+    const total = lottery.totalTickets + extra
+    return total > 0 ? ((getMyTickets() + extra) / total) * 100 : 0
+  }
+
   // 检查当前用户是否是创建者
   const isOwner = () => {
     if (!lottery || !account) return false
     return lottery.owner.toLowerCase() === account.toLowerCase()
   }
 
+  // 检查当前用户是否是管理员
+  const isManager = () => {
+    if (!lottery || !account) return false
+    return lottery.managers.some(
+      (address: string) => address.toLowerCase() === account.toLowerCase()
+    )
+  }
+
+  // 发起人或管理员可以执行日常运营操作（修改开奖时间、管理白名单）
+  const canOperate = () => isOwner() || isManager()
+
+  // 当前用户是否是入场凭证签发人
+  const isPassSigner = () =>
+    !!lottery && !!account && lottery.passSigner?.toLowerCase() === account.toLowerCase()
+
+  // 当前用户的中奖记录（名次、奖金、是否已领取）
+  const getMyPrize = () => {
+    if (!lottery || !account || !lottery.winners) return null
+    return lottery.winners.find(
+      (w: any) => w.address.toLowerCase() === account.toLowerCase()
+    ) || null
+  }
+
   // 检查当前用户是否是中奖者
-  const isWinner = () => {
-    if (!lottery || !account || !lottery.winner || !isValidAddress(lottery.winner)) return false
-    return lottery.winner.toLowerCase() === account.toLowerCase()
+  const isWinner = () => !!getMyPrize()
+
+  // 查找参与者的中奖名次
+  const getWinnerRank = (address: string) => {
+    const prize = lottery?.winners?.find((w: any) => w.address.toLowerCase() === address.toLowerCase())
+    return prize ? prize.rank : 0
+  }
+
+  // 检查发起人揭示种子是否已超时
+  const isRevealExpired = () => {
+    if (!lottery || !lottery.revealDeadline) return false
+    return Date.now() / 1000 >= lottery.revealDeadline
+  }
+
+  // 领奖期限是否已过，不限期的抽奖始终返回 false
+  const isClaimExpired = () => {
+    if (!lottery || !lottery.claimDeadline) return false
+    return Date.now() / 1000 >= lottery.claimDeadline
+  }
+
+  // 无人参与时可以取消：发起人随时可取消，其他人需等到宽限期结束；开奖时人数不足时任何人都可取消
+  const canCancel = () => {
+    if (isBelowMinParticipants()) return true
+    if (!lottery || lottery.currentState !== LotteryState.Open || lottery.participants.length > 0) return false
+    return isOwner() || Date.now() / 1000 >= lottery.publicCancelTime
+  }
+
+  // 开奖时间已到但参与人数未达到最低要求，任何人都可以取消抽奖
+  const isBelowMinParticipants = () => {
+    if (!lottery || lottery.currentState !== LotteryState.Open || !lottery.minParticipants) return false
+    return Date.now() / 1000 >= lottery.drawTime && lottery.participants.length < lottery.minParticipants
+  }
+
+  // 人数已满时不再接受新地址参与，已参与的地址仍可加购
+  const isFull = () => {
+    if (!lottery || !lottery.maxParticipants) return false
+    return lottery.participants.length >= lottery.maxParticipants
   }
 
   // 渲染抽奖状态
@@ -265,6 +619,8 @@ export default function LotteryDetail() {
         return <Badge className="text-white bg-blue-500">可领奖</Badge>
       case 3:
         return <Badge className="text-gray-700 bg-gray-300">已结束</Badge>
+      case 4:
+        return <Badge className="text-white bg-red-500">已取消</Badge>
       default:
         return <Badge variant="outline">未知</Badge>
     }
@@ -274,6 +630,16 @@ export default function LotteryDetail() {
   const renderActionButton = () => {
     if (!lottery || !isConnected || !isCorrectNetwork) return null
 
+    // 已结束状态，发起人可以开启下一轮
+    if (lottery.currentState === 3 && isOwner()) {
+      return (
+        <Button onClick={() => setShowNextRound(true)} disabled={processing} className="w-full">
+          <RotateCcw className="mr-2 h-4 w-4" />
+          开启第 {lottery.currentRound + 1} 轮
+        </Button>
+      )
+    }
+
     // 已结束状态
     if (lottery.currentState === 3) {
       return (
@@ -283,6 +649,86 @@ export default function LotteryDetail() {
       )
     }
 
+    // 已取消状态 & 有可领取的退款
+    if (lottery.currentState === 4 && Number(lottery.refundAmount) > 0) {
+      return (
+        <Button onClick={handleWithdrawRefund} disabled={processing} className="w-full">
+          {processing ? (
+            <>
+              <LoadingSpinner size="sm" className="mr-2" />
+              处理中...
+            </>
+          ) : (
+            <>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              领取退款（{lottery.refundAmount} {lottery.token.symbol}）
+            </>
+          )}
+        </Button>
+      )
+    }
+
+    // 已取消状态
+    if (lottery.currentState === 4) {
+      return (
+        <Button disabled className="w-full">
+          抽奖已取消
+        </Button>
+      )
+    }
+
+    // 进行中状态 & 时间已到 & 无人参与：无法开奖，只能取消
+    if (lottery.currentState === 0 && countdown.isExpired && lottery.participants.length === 0) {
+      return canCancel() ? (
+        <Button onClick={() => setShowCancel(true)} disabled={processing} variant="destructive" className="w-full">
+          <XCircle className="mr-2 h-4 w-4" />
+          无人参与，取消抽奖并退款
+        </Button>
+      ) : (
+        <Button disabled className="w-full">
+          <Timer className="mr-2 h-4 w-4" />
+          无人参与，{formatDateTime(lottery.publicCancelTime).split("（")[0]} 后任何人可取消
+        </Button>
+      )
+    }
+
+    // 可领奖状态 & 领奖期限已过：处理未领取的奖金，退还发起人的策略只有发起人可以操作
+    if (lottery.currentState === 2 && isClaimExpired()) {
+      if (lottery.unclaimedPolicy === UnclaimedPolicy.ReturnToOwner && !isOwner()) {
+        return (
+          <Button disabled className="w-full">
+            <Timer className="mr-2 h-4 w-4" />
+            领奖期限已过，等待发起人收回未领取的奖金
+          </Button>
+        )
+      }
+      return (
+        <Button onClick={handleSettleUnclaimed} disabled={processing} className="w-full">
+          {processing ? (
+            <>
+              <LoadingSpinner size="sm" className="mr-2" />
+              处理中...
+            </>
+          ) : (
+            <>
+              <Timer className="mr-2 h-4 w-4" />
+              {unclaimedPolicyActions[lottery.unclaimedPolicy as UnclaimedPolicy]}
+            </>
+          )}
+        </Button>
+      )
+    }
+
+    // 可领奖状态 & 是中奖者 & 已领取
+    if (lottery.currentState === 2 && isWinner() && getMyPrize().claimed) {
+      return (
+        <Button disabled className="w-full bg-green-500">
+          <CheckCircle className="mr-2 h-4 w-4" />
+          奖金已领取
+        </Button>
+      )
+    }
+
     // 可领奖状态 & 是中奖者
     if (lottery.currentState === 2 && isWinner()) {
       return (
@@ -299,17 +745,27 @@ export default function LotteryDetail() {
           ) : (
             <>
               <Gift className="mr-2 h-4 w-4" />
-              领取奖金
+              领取奖金（{splitPrize(getMyPrize().amount, lottery.token.decimals, lottery.platformFeeBps, lottery.creatorCommissionBps).winner} {lottery.token.symbol}）
             </>
           )}
         </Button>
       )
     }
 
-    // 进行中状态 & 时间已到 & 是开奖者
-    if (lottery.currentState === 0 && countdown.isExpired && isOwner()) {
+    // 进行中状态 & 时间已到 & 人数不足：不开奖，任何人都可以取消并让所有人退款
+    if (lottery.currentState === 0 && countdown.isExpired && isBelowMinParticipants()) {
       return (
-        <Button onClick={handleDrawWinner} disabled={processing} className="w-full bg-yellow-500 hover:bg-yellow-600">
+        <Button onClick={() => setShowCancel(true)} disabled={processing} variant="destructive" className="w-full">
+          <XCircle className="mr-2 h-4 w-4" />
+          参与人数不足 {lottery.minParticipants} 人，取消抽奖并退款
+        </Button>
+      )
+    }
+
+    // 进行中状态 & 时间已到 & 是开奖者 (commit-reveal) & 揭示未超时；超时后发起人与其他人一样只能取消抽奖
+    if (lottery.currentState === 0 && countdown.isExpired && isOwner() && !lottery.usesRandomnessProvider && !isRevealExpired()) {
+      return (
+        <Button onClick={() => handleDrawWinner()} disabled={processing} className="w-full bg-yellow-500 hover:bg-yellow-600">
           {processing ? (
             <>
               <LoadingSpinner size="sm" className="mr-2" />
@@ -325,8 +781,43 @@ export default function LotteryDetail() {
       )
     }
 
-    // 进行中状态 & 时间未到 & 未参与
-    if (lottery.currentState === 0 && !countdown.isExpired && !hasEntered()) {
+    // 进行中状态 & 时间未到 & 不在白名单
+    if (lottery.currentState === 0 && !countdown.isExpired && !isEligible()) {
+      return hasEntered() ? (
+        <Button disabled className="w-full bg-green-500">
+          <CheckCircle className="mr-2 h-4 w-4" />
+          已参与（{getMyTickets()} 张）
+        </Button>
+      ) : (
+        <Button disabled className="w-full">
+          <Lock className="mr-2 h-4 w-4" />
+          不在白名单中，无法参与
+        </Button>
+      )
+    }
+
+    // 进行中状态 & 时间未到 & 人数已满 & 未参与
+    if (lottery.currentState === 0 && !countdown.isExpired && isFull() && !hasEntered()) {
+      return (
+        <Button disabled className="w-full">
+          <Users className="mr-2 h-4 w-4" />
+          参与人数已满
+        </Button>
+      )
+    }
+
+    // 进行中状态 & 时间未到 & 已达购买上限
+    if (lottery.currentState === 0 && !countdown.isExpired && getRemainingQuota() === 0) {
+      return (
+        <Button disabled className="w-full bg-green-500">
+          <CheckCircle className="mr-2 h-4 w-4" />
+          已参与（{getMyTickets()} 张，已达购买上限）
+        </Button>
+      )
+    }
+
+    // 进行中状态 & 时间未到：首次参与或继续加购
+    if (lottery.currentState === 0 && !countdown.isExpired) {
       return (
         <Button onClick={handleEnterLottery} disabled={processing} className="w-full">
           {processing ? (
@@ -337,24 +828,33 @@ export default function LotteryDetail() {
           ) : (
             <>
               <CreditCard className="mr-2 h-4 w-4" />
-              参与抽奖
+              {hasEntered() ? `再买 ${quantity} 张` : `参与抽奖（${quantity} 张）`}
             </>
           )}
         </Button>
       )
     }
 
-    // 进行中状态 & 时间未到 & 已参与
-    if (lottery.currentState === 0 && !countdown.isExpired && hasEntered()) {
+    // 进行中状态 & 时间已到 & (使用随机数服务 或 发起人揭示超时)
+    if (lottery.currentState === 0 && countdown.isExpired && (lottery.usesRandomnessProvider || isRevealExpired())) {
       return (
-        <Button disabled className="w-full bg-green-500">
-          <CheckCircle className="mr-2 h-4 w-4" />
-          已参与
+        <Button onClick={handlePublicDraw} disabled={processing} className="w-full bg-yellow-500 hover:bg-yellow-600">
+          {processing ? (
+            <>
+              <LoadingSpinner size="sm" className="mr-2" />
+              处理中...
+            </>
+          ) : (
+            <>
+              <Award className="mr-2 h-4 w-4" />
+              {lottery.usesRandomnessProvider ? "开始抽奖" : "发起人超时未开奖，取消抽奖"}
+            </>
+          )}
         </Button>
       )
     }
 
-    // 进行中状态 & 时间已到 & 非开奖者
+    // 进行中状态 & 时间已到 & 非开奖者（管理员也需等待发起人揭示种子）
     if (lottery.currentState === 0 && countdown.isExpired && !isOwner()) {
       return (
         <Button disabled className="w-full">
@@ -369,7 +869,7 @@ export default function LotteryDetail() {
       return (
         <Button disabled className="w-full">
           <LoadingSpinner size="sm" className="mr-2" />
-          正在开奖...
+          等待随机数...
         </Button>
       )
     }
@@ -387,42 +887,13 @@ export default function LotteryDetail() {
     return null
   }
 
-  // 自动开奖：每10秒检测一次，满足条件自动开奖
-  // 触发条件：用户点开这个页面，就可触发查询功能
+  // 开奖中：轮询等待随机数服务回调
   useEffect(() => {
-    if (!signer || !lottery) return
+    if (!lottery || lottery.currentState !== 1) return
 
-    let timer: NodeJS.Timeout
-
-    const autoDraw = async () => {
-      // 只在可开奖且未处理时自动开奖
-      if (lottery.canDraw && !processing) {
-        setProcessing(true)
-        try {
-          await drawWinner(signer, lottery.address)
-          toast({
-            title: "自动开奖成功",
-            description: "已自动开奖，刷新可见中奖者",
-          })
-          fetchLotteryDetails()
-        } catch (e: any) {
-          // 已开奖等常见错误不提示
-          if (!e.message?.includes("已经开过奖")) {
-            toast({
-              title: "自动开奖失败",
-              description: e.message || "未知错误",
-              variant: "destructive",
-            })
-          }
-        } finally {
-          setProcessing(false)
-        }
-      }
-    }
-
-    timer = setInterval(autoDraw, 10000) // 10秒轮询
+    const timer = setInterval(fetchLotteryDetails, 5000) // 5秒轮询
     return () => clearInterval(timer)
-  }, [signer, lottery, processing])
+  }, [lottery])
 
   // 分享按钮逻辑
   const handleShare = () => {
@@ -433,15 +904,20 @@ export default function LotteryDetail() {
   // 赞助弹窗相关
   const [showSponsor, setShowSponsor] = useState(false)
   const [sponsorAmount, setSponsorAmount] = useState("")
+  const [sponsorMemo, setSponsorMemo] = useState("")
   const [sponsorLoading, setSponsorLoading] = useState(false)
+  // 赞助成功后递增，通知赞助榜重新读取
+  const [sponsorRefresh, setSponsorRefresh] = useState(0)
   const handleSponsor = async () => {
     if (!signer || !lottery || !sponsorAmount) return
     setSponsorLoading(true)
     try {
-      await sponsorLottery(signer, lottery.address, sponsorAmount)
-      toast({ title: "赞助成功", description: `已赞助 ${sponsorAmount} ETH` })
+      await sponsorLottery(signer, lottery.address, sponsorAmount, sponsorMemo.trim())
+      toast({ title: "赞助成功", description: `已赞助 ${sponsorAmount} ${lottery.token.symbol}` })
       setShowSponsor(false)
       setSponsorAmount("")
+      setSponsorMemo("")
+      setSponsorRefresh(n => n + 1)
       fetchLotteryDetails()
     } catch (e: any) {
       toast({ title: "赞助失败", description: e.message, variant: "destructive" })
@@ -453,16 +929,18 @@ export default function LotteryDetail() {
   // 修改开奖时间弹窗相关
   const [showDrawTime, setShowDrawTime] = useState(false)
   const [newDrawTime, setNewDrawTime] = useState("")
+  const [drawTimeReason, setDrawTimeReason] = useState("")
   const [drawTimeLoading, setDrawTimeLoading] = useState(false)
   const handleChangeDrawTime = async () => {
-    if (!signer || !lottery || !newDrawTime) return
+    if (!signer || !lottery || !newDrawTime || !drawTimeReason.trim()) return
     setDrawTimeLoading(true)
     try {
       const unixTime = Math.floor(new Date(newDrawTime).getTime() / 1000)
-      await setDrawTime(signer, lottery.address, unixTime)
+      await setDrawTime(signer, lottery.address, unixTime, drawTimeReason.trim())
       toast({ title: "开奖时间已修改", description: format(new Date(newDrawTime), "yyyy-MM-dd HH:mm:ss") })
       setShowDrawTime(false)
       setNewDrawTime("")
+      setDrawTimeReason("")
       fetchLotteryDetails()
     } catch (e: any) {
       toast({ title: "修改失败", description: e.message, variant: "destructive" })
@@ -471,6 +949,38 @@ export default function LotteryDetail() {
     }
   }
 
+  // 开启下一轮弹窗相关
+  const [showNextRound, setShowNextRound] = useState(false)
+  const [nextRoundDrawTime, setNextRoundDrawTime] = useState("")
+  const [nextRoundLoading, setNextRoundLoading] = useState(false)
+
+  // 发起人开启下一轮：commit-reveal 抽奖在本浏览器生成新一轮的开奖种子并提交承诺
+  const handleStartNextRound = async () => {
+    if (!signer || !lottery || !nextRoundDrawTime) return
+    setNextRoundLoading(true)
+    try {
+      const unixTime = Math.floor(new Date(nextRoundDrawTime).getTime() / 1000)
+      const seed = lottery.usesRandomnessProvider ? null : commitSeed()
+      await startNextRound(signer, lottery.address, unixTime, seed ? seed.commitment : ethers.ZeroHash)
+      if (seed) {
+        const round = lottery.currentRound + 1
+        saveSeedSecret(lottery.address, round, seed.secret)
+        downloadJson(seedBackupFilename(lottery.id, round), { lotteryId: lottery.id, lotteryAddress: lottery.address, round, secret: seed.secret })
+      }
+      toast({
+        title: `第 ${lottery.currentRound + 1} 轮已开始`,
+        description: `开奖时间 ${format(new Date(nextRoundDrawTime), "yyyy-MM-dd HH:mm:ss")}`,
+      })
+      setShowNextRound(false)
+      setNextRoundDrawTime("")
+      fetchLotteryDetails()
+    } catch (e: any) {
+      toast({ title: "开启下一轮失败", description: e.message, variant: "destructive" })
+    } finally {
+      setNextRoundLoading(false)
+    }
+  }
+
   if (!isConnected || !isCorrectNetwork) {
     return (
       <Layout>
@@ -538,7 +1048,10 @@ export default function LotteryDetail() {
                   <CardTitle className="text-2xl">
                     {lottery.lotteryName || `抽奖 #${lottery.id}`}
                   </CardTitle>
-                  <CardDescription className="mt-1">ID: {lottery.id}</CardDescription>
+                  <CardDescription className="mt-1">
+                    ID: {lottery.id}
+                    {lottery.currentRound > 1 && ` · 第 ${lottery.currentRound} 轮`}
+                  </CardDescription>
                 </div>
                 <div>{renderLotteryState()}</div>
               </div>
@@ -550,18 +1063,23 @@ export default function LotteryDetail() {
                 <Button variant="outline" size="sm" onClick={() => setShowSponsor(true)} className="flex items-center gap-2">
                   <DollarSign className="h-4 w-4" /> 我要赞助
                 </Button>
-                {isOwner() && lottery.currentState === 0 && (
+                {canOperate() && lottery.currentState === 0 && (
                   <Button variant="outline" size="sm" onClick={() => setShowDrawTime(true)} className="flex items-center gap-2">
                     <Calendar className="h-4 w-4" /> 修改开奖时间
                   </Button>
                 )}
+                {isOwner() && canCancel() && !countdown.isExpired && (
+                  <Button variant="outline" size="sm" onClick={() => setShowCancel(true)} className="flex items-center gap-2">
+                    <XCircle className="h-4 w-4" /> 取消抽奖
+                  </Button>
+                )}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="flex items-center p-4 rounded-lg border">
                   <CreditCard className="h-8 w-8 text-primary mr-4" />
                   <div>
                     <p className="text-sm text-muted-foreground">参与费用</p>
-                    <p className="text-lg font-medium">{lottery.entryFee} ETH</p>
+                    <p className="text-lg font-medium">{lottery.entryFee} {lottery.token.symbol}</p>
                   </div>
                 </div>
                 
@@ -569,7 +1087,7 @@ export default function LotteryDetail() {
                   <Gift className="h-8 w-8 text-primary mr-4" />
                   <div>
                     <p className="text-sm text-muted-foreground">当前奖池</p>
-                    <p className="text-lg font-medium">{lottery.prizePool} ETH</p>
+                    <p className="text-lg font-medium">{lottery.prizePool} {lottery.token.symbol}</p>
                   </div>
                 </div>
                 
@@ -577,7 +1095,12 @@ export default function LotteryDetail() {
                   <Users className="h-8 w-8 text-primary mr-4" />
                   <div>
                     <p className="text-sm text-muted-foreground">参与人数</p>
-                    <p className="text-lg font-medium">{lottery.participants.length} 人</p>
+                    <p className="text-lg font-medium">
+                      {lottery.participants.length}{lottery.maxParticipants > 0 && ` / ${lottery.maxParticipants}`} 人
+                    </p>
+                    {lottery.minParticipants > 0 && (
+                      <p className="text-xs text-muted-foreground">至少 {lottery.minParticipants} 人参与才开奖</p>
+                    )}
                   </div>
                 </div>
                 
@@ -589,6 +1112,38 @@ export default function LotteryDetail() {
                   </div>
                 </div>
               </div>
+
+              {(lottery.platformFeeBps > 0 || lottery.creatorCommissionBps > 0) && (
+                <div className="p-4 rounded-lg border">
+                  <h3 className="flex items-center text-lg font-medium mb-3">
+                    <PieChart className="mr-2 h-5 w-5" />
+                    奖池分配
+                  </h3>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="p-2 rounded-md bg-muted/50">
+                      <p className="text-sm text-muted-foreground">中奖者</p>
+                      <p className="font-medium">{getPoolBreakdown().winner}</p>
+                    </div>
+                    <div className="p-2 rounded-md bg-muted/50">
+                      <p className="text-sm text-muted-foreground">发起人佣金 {lottery.creatorCommissionBps / 100}%</p>
+                      <p className="font-medium">{getPoolBreakdown().creator}</p>
+                    </div>
+                    <div className="p-2 rounded-md bg-muted/50">
+                      <p className="text-sm text-muted-foreground">平台费 {lottery.platformFeeBps / 100}%</p>
+                      <p className="font-medium">{getPoolBreakdown().platform}</p>
+                    </div>
+                  </div>
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    单位 {lottery.token.symbol}，费用在中奖者领奖时从奖金中扣除
+                  </p>
+                  {isOwner() && Number(lottery.creatorCommissionBalance) > 0 && (
+                    <Button variant="outline" size="sm" className="mt-3" onClick={handleWithdrawCommission} disabled={processing}>
+                      <DollarSign className="mr-2 h-4 w-4" />
+                      提取佣金（{lottery.creatorCommissionBalance} {lottery.token.symbol}）
+                    </Button>
+                  )}
+                </div>
+              )}
               
               {lottery.currentState === 0 && !countdown.isExpired && (
                 <div className="p-4 rounded-lg border bg-muted/50">
@@ -617,30 +1172,172 @@ export default function LotteryDetail() {
                 </div>
               )}
               
-              {lottery.winner && isValidAddress(lottery.winner) && (
+              {lottery.currentState === 0 && !countdown.isExpired && isEligible() && getRemainingQuota() > 0 && (
+                <div className="p-4 rounded-lg border">
+                  <h3 className="flex items-center text-lg font-medium mb-3">
+                    <Ticket className="mr-2 h-5 w-5" />
+                    购买彩票
+                    {hasEntered() && <Badge variant="outline" className="ml-2">已持有 {getMyTickets()} 张</Badge>}
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(q => Math.max(q - 1, 1))}
+                      disabled={processing || quantity <= 1}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={Number.isFinite(getPurchaseLimit()) ? getPurchaseLimit() : undefined}
+                      value={quantity}
+                      onChange={e => setQuantity(Math.min(Math.max(Math.floor(Number(e.target.value)) || 1, 1), getPurchaseLimit()))}
+                      className="w-20 text-center"
+                      disabled={processing}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(q => Math.min(q + 1, getPurchaseLimit()))}
+                      disabled={processing || quantity >= getPurchaseLimit()}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <span className="ml-2 text-sm text-muted-foreground">
+                      合计 {ethers.formatUnits(ethers.parseUnits(lottery.entryFee, lottery.token.decimals) * BigInt(quantity), lottery.token.decimals)} {lottery.token.symbol}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    购买后共持有 {getMyTickets() + quantity} 张 / 全部 {lottery.totalTickets + quantity} 张，
+                    头奖中奖概率约 {getFirstPrizeOdds(quantity).toFixed(2)}%
+                    {lottery.maxTicketsPerAddress > 0 && `（每个地址最多 ${lottery.maxTicketsPerAddress} 张）`}
+                  </p>
+                  {canEnterGasless() && (
+                    <div className="mt-3 flex items-center space-x-2">
+                      <Switch id="gasless" checked={gasless} onCheckedChange={setGasless} disabled={processing} />
+                      <Label htmlFor="gasless" className="font-normal">免 gas 参与（只需签名，由中继代付 gas）</Label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {lottery.drawTimeHistory.length > 0 && (
+                <div className="p-4 rounded-lg border">
+                  <h3 className="flex items-center text-lg font-medium mb-3">
+                    <Calendar className="mr-2 h-5 w-5" />
+                    开奖时间变更记录
+                    <Badge variant="outline" className="ml-2">已修改 {lottery.drawTimeHistory.length} 次</Badge>
+                  </h3>
+                  <ol className="relative border-l ml-2 space-y-3">
+                    {lottery.drawTimeHistory.map((change: any, index: number) => (
+                      <li key={index} className="ml-4">
+                        <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(change.changedAt * 1000), "yyyy-MM-dd HH:mm")} · {truncateAddress(change.changedBy)}
+                        </p>
+                        <p className="text-sm">
+                          {format(new Date(change.oldTime * 1000), "MM-dd HH:mm")} → {format(new Date(change.newTime * 1000), "MM-dd HH:mm")}
+                        </p>
+                        {change.reason && <p className="text-sm text-muted-foreground break-all">原因：{change.reason}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {lottery.lotteryMode === LotteryMode.Private && lottery.currentState === 0 && account && !hasEntered() && (
+                <div className={`p-4 rounded-lg border ${isEligible() ? "bg-green-50 dark:bg-green-950" : "bg-red-50 dark:bg-red-950"}`}>
+                  <h3 className="flex items-center text-lg font-medium mb-1">
+                    <Lock className="mr-2 h-5 w-5" />
+                    私有抽奖
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {isEligible()
+                      ? "您的地址在白名单中，可以参与本次抽奖。"
+                      : "您的地址不在白名单中，无法参与本次抽奖，请联系创建者添加。"}
+                  </p>
+                  {canUsePass() && (
+                    <Textarea
+                      className="mt-3"
+                      placeholder="持有入场凭证？在此粘贴发起人分发的凭证 JSON"
+                      value={passInput}
+                      onChange={e => handlePassInput(e.target.value)}
+                      rows={3}
+                    />
+                  )}
+                  {entryPass && (
+                    <p className="mt-2 text-sm text-green-700 dark:text-green-300">
+                      凭证有效，{formatDateTime(entryPass.pass.expiry).split("（")[0]} 前可用，使用一次后作废
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {lottery.currentState === 1 && (
+                <div className="p-4 rounded-lg border bg-yellow-50 dark:bg-yellow-950">
+                  <h3 className="flex items-center text-lg font-medium mb-2 text-yellow-800 dark:text-yellow-300">
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    等待随机数
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    已向随机数服务发起请求，回调到达后将自动揭晓中奖者，页面会自动刷新。
+                  </p>
+                </div>
+              )}
+
+              {lottery.prizeTiers?.length > 1 && lottery.winners.length === 0 && (
+                <div className="p-4 rounded-lg border">
+                  <h3 className="flex items-center text-lg font-medium mb-2">
+                    <Award className="mr-2 h-5 w-5" />
+                    奖项设置
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {lottery.prizeTiers.map((bps: number, index: number) => (
+                      <Badge key={index} variant="outline">
+                        第{index + 1}名 {bps / 100}%
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {lottery.winners?.length > 0 && (
                 <div className="p-4 rounded-lg border bg-blue-50 dark:bg-blue-950">
                   <h3 className="flex items-center text-lg font-medium mb-2 text-blue-800 dark:text-blue-300">
                     <Award className="mr-2 h-5 w-5" />
                     中奖者信息
                   </h3>
-                  <p className="mb-1">
-                    <span className="font-medium">地址: </span>
-                    <Link
-                      href={`https://moonbase.moonscan.io/address/${lottery.winner}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                    >
-                      {lottery.winner}
-                    </Link>
-                  </p>
-                  <p className="mb-1">
-                    <span className="font-medium">奖金: </span>
-                    <span>{lottery.prizePool} ETH</span>
-                  </p>
-                  {isWinner() && (
+                  <div className="space-y-2">
+                    {lottery.winners.map((prize: any) => (
+                      <div key={prize.rank} className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge className="bg-yellow-500 text-white whitespace-nowrap">第{prize.rank}名</Badge>
+                          <Link
+                            href={`https://moonbase.moonscan.io/address/${prize.address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+                          >
+                            {truncateAddress(prize.address)}
+                          </Link>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{prize.amount} {lottery.token.symbol}</span>
+                          <Badge variant="outline">{prize.claimed ? "已领取" : "待领取"}</Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {isWinner() && !getMyPrize().claimed && (
                     <div className="mt-2 text-blue-700 dark:text-blue-300 font-medium">
-                      恭喜您中奖！请及时领取奖金。
+                      恭喜您获得第{getMyPrize().rank}名！请及时领取奖金。
+                    </div>
+                  )}
+                  {lottery.currentState === 2 && lottery.claimDeadline > 0 && (
+                    <div className="mt-2 text-sm text-muted-foreground">
+                      领奖截止：{formatDateTime(lottery.claimDeadline)}，逾期{unclaimedPolicyLabels[lottery.unclaimedPolicy as UnclaimedPolicy]}
                     </div>
                   )}
                 </div>
@@ -654,58 +1351,160 @@ export default function LotteryDetail() {
         </div>
         
         <div className="md:col-span-1">
-          <Card>
-            <CardHeader>
-              <CardTitle>参与者列表</CardTitle>
-              <CardDescription>当前共 {lottery.participants.length} 人参与</CardDescription>
-            </CardHeader>
-            <CardContent>
-              {lottery.participants.length === 0 ? (
-                <div className="text-center py-6 text-muted-foreground">
-                  暂无参与者
-                </div>
-              ) : (
-                <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
-                  {lottery.participants.map((participant: string, index: number) => (
-                    <div
-                      key={`${participant}-${index}`}
-                      className={`p-3 rounded-md border ${
-                        participant.toLowerCase() === account?.toLowerCase()
-                          ? "bg-primary/10 border-primary"
-                          : "bg-muted/30"
-                      }`}
-                    >
-                      <div className="flex justify-between items-center">
-                        <div className="truncate flex-1">
-                          <Link
-                            href={`https://moonbase.moonscan.io/address/${participant}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="hover:underline truncate"
-                          >
-                            {truncateAddress(participant)}
-                          </Link>
-                        </div>
-                        {participant.toLowerCase() === account?.toLowerCase() && (
-                          <Badge variant="outline" className="ml-2 whitespace-nowrap">
-                            我
-                          </Badge>
-                        )}
-                        {lottery.winner &&
-                          isValidAddress(lottery.winner) &&
-                          participant.toLowerCase() === lottery.winner.toLowerCase() && (
-                            <Badge className="ml-2 bg-yellow-500 text-white whitespace-nowrap">
-                              <Award className="mr-1 h-3 w-3" />
-                              中奖
+          <Tabs defaultValue="participants">
+            <TabsList className="mb-4 w-full">
+              <TabsTrigger value="participants" className="flex-1">参与者</TabsTrigger>
+              {lottery.lotteryMode === LotteryMode.Private && (
+                <TabsTrigger value="whitelist" className="flex-1">白名单</TabsTrigger>
+              )}
+              <TabsTrigger value="sponsors" className="flex-1">赞助</TabsTrigger>
+              <TabsTrigger value="permissions" className="flex-1">权限</TabsTrigger>
+              <TabsTrigger value="rounds" className="flex-1">往期</TabsTrigger>
+              {isPassSigner() && (
+                <TabsTrigger value="passes" className="flex-1">凭证</TabsTrigger>
+              )}
+            </TabsList>
+            <TabsContent value="participants" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>参与者列表</CardTitle>
+                  <CardDescription>当前共 {lottery.participants.length} 人参与</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {lottery.participants.length === 0 ? (
+                    <div className="text-center py-6 text-muted-foreground">
+                      暂无参与者
+                    </div>
+                  ) : (
+                    <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
+                      {lottery.participants.map((participant: string, index: number) => (
+                        <div
+                          key={`${participant}-${index}`}
+                          className={`p-3 rounded-md border ${
+                            participant.toLowerCase() === account?.toLowerCase()
+                              ? "bg-primary/10 border-primary"
+                              : "bg-muted/30"
+                          }`}
+                        >
+                          <div className="flex justify-between items-center">
+                            <div className="truncate flex-1">
+                              <Link
+                                href={`https://moonbase.moonscan.io/address/${participant}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="hover:underline truncate"
+                              >
+                                {truncateAddress(participant)}
+                              </Link>
+                            </div>
+                            {participant.toLowerCase() === account?.toLowerCase() && (
+                              <Badge variant="outline" className="ml-2 whitespace-nowrap">
+                                我
+                              </Badge>
+                            )}
+                            <Badge variant="secondary" className="ml-2 whitespace-nowrap">
+                              {lottery.ticketCounts[index] || 1} 张
                             </Badge>
-                          )}
-                      </div>
+                            {getWinnerRank(participant) > 0 && (
+                              <Badge className="ml-2 bg-yellow-500 text-white whitespace-nowrap">
+                                <Award className="mr-1 h-3 w-3" />
+                                第{getWinnerRank(participant)}名
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+            {lottery.lotteryMode === LotteryMode.Private && (
+              <TabsContent value="whitelist" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>白名单</CardTitle>
+                    <CardDescription>共 {lottery.whitelist.length} 个地址可参与</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <WhitelistManager
+                      lotteryId={lottery.id}
+                      lotteryAddress={lottery.address}
+                      whitelist={lottery.whitelist}
+                      merkleRoot={lottery.merkleRoot}
+                      canManage={canOperate() && lottery.currentState === 0}
+                      onChanged={fetchLotteryDetails}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+            {isPassSigner() && (
+              <TabsContent value="passes" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>签发入场凭证</CardTitle>
+                    <CardDescription>您是本抽奖的凭证签发人，可为指定地址签发一次性参与凭证</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <PassIssuer lotteryId={lottery.id} lotteryAddress={lottery.address} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+            <TabsContent value="sponsors" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>赞助榜</CardTitle>
+                  <CardDescription>按累计赞助金额排名</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SponsorLeaderboard
+                    lotteryId={lottery.id}
+                    lotteryAddress={lottery.address}
+                    token={lottery.token}
+                    canExport={isOwner()}
+                    refreshKey={sponsorRefresh}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            <TabsContent value="permissions" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>权限</CardTitle>
+                  <CardDescription>
+                    {isOwner() ? "您是发起人" : isManager() ? "您是管理员" : `共 ${lottery.managers.length} 名管理员`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PermissionsPanel
+                    lotteryAddress={lottery.address}
+                    owner={lottery.owner}
+                    managers={lottery.managers}
+                    canEdit={isOwner()}
+                    onChanged={fetchLotteryDetails}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            <TabsContent value="rounds" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>往期结果</CardTitle>
+                  <CardDescription>每轮开奖结果都保存在链上，开启新一轮后仍可核验</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RoundHistory
+                    lotteryAddress={lottery.address}
+                    currentRound={lottery.currentRound}
+                    token={lottery.token}
+                    refreshKey={lottery.currentState}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
       {/* 赞助弹窗 */}
@@ -719,11 +1518,18 @@ export default function LotteryDetail() {
               type="number"
               min="0.001"
               step="0.001"
-              placeholder="输入ETH数量"
+              placeholder={`输入${lottery.token.symbol}数量`}
               value={sponsorAmount}
               onChange={e => setSponsorAmount(e.target.value)}
               disabled={sponsorLoading}
             />
+            <Input
+              placeholder="留言（可选）"
+              value={sponsorMemo}
+              onChange={e => setSponsorMemo(e.target.value)}
+              maxLength={MAX_SPONSOR_MEMO_LENGTH}
+              disabled={sponsorLoading}
+            />
           </div>
           <DialogFooter>
             <Button onClick={handleSponsor} disabled={!sponsorAmount || sponsorLoading}>
@@ -732,6 +1538,75 @@ export default function LotteryDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      {/* 揭示开奖种子弹窗 */}
+      <Dialog open={showReveal} onOpenChange={setShowReveal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>揭示开奖种子</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              本浏览器中没有找到本轮的开奖种子，请从 {seedBackupFilename(lottery.id, lottery.currentRound)} 备份文件中复制 secret 字段粘贴到下方（0x 开头的 32 字节十六进制）。
+            </p>
+            <Input
+              placeholder="0x..."
+              value={revealSecret}
+              onChange={e => setRevealSecret(e.target.value.trim())}
+              disabled={processing}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={() => handleDrawWinner(revealSecret)} disabled={!revealSecret || processing}>
+              {processing ? (<><LoadingSpinner size="sm" className="mr-2" />提交中...</>) : "揭示并开奖"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {/* 取消抽奖确认弹窗 */}
+      <Dialog open={showCancel} onOpenChange={setShowCancel}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>确认取消抽奖</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            取消后抽奖无法恢复，初始奖池、赞助金额和参与费用需要由发起人、赞助人和参与者各自在本页领取退款。
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCancel(false)} disabled={processing}>
+              返回
+            </Button>
+            <Button variant="destructive" onClick={handleCancelLottery} disabled={processing}>
+              {processing ? (<><LoadingSpinner size="sm" className="mr-2" />提交中...</>) : "确认取消"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {/* 开启下一轮弹窗 */}
+      <Dialog open={showNextRound} onOpenChange={setShowNextRound}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>开启第 {lottery.currentRound + 1} 轮</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              本轮的参与者、中奖者和赞助记录将被清空，开奖结果已归档，可在"往期"中查看。
+              {!lottery.usesRandomnessProvider && "新一轮的开奖种子会保存在当前浏览器中，请在开奖前不要清除浏览器数据。"}
+            </p>
+            <Input
+              type="datetime-local"
+              value={nextRoundDrawTime}
+              onChange={e => setNextRoundDrawTime(e.target.value)}
+              disabled={nextRoundLoading}
+              min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleStartNextRound} disabled={!nextRoundDrawTime || nextRoundLoading}>
+              {nextRoundLoading ? (<><LoadingSpinner size="sm" className="mr-2" />提交中...</>) : "开启下一轮"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       {/* 修改开奖时间弹窗 */}
       <Dialog open={showDrawTime} onOpenChange={setShowDrawTime}>
         <DialogContent>
@@ -739,6 +1614,11 @@ export default function LotteryDetail() {
             <DialogTitle>修改开奖时间</DialogTitle>
           </DialogHeader>
           <div className="space-y-3">
+            {lottery.drawTimeHistory.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                开奖时间已被修改过 {lottery.drawTimeHistory.length} 次，所有修改记录对参与者公开。
+              </p>
+            )}
             <Input
               type="datetime-local"
               value={newDrawTime}
@@ -746,9 +1626,16 @@ export default function LotteryDetail() {
               disabled={drawTimeLoading}
               min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
             />
+            <Input
+              placeholder="修改原因（必填）"
+              value={drawTimeReason}
+              onChange={e => setDrawTimeReason(e.target.value)}
+              maxLength={MAX_REASON_LENGTH}
+              disabled={drawTimeLoading}
+            />
           </div>
           <DialogFooter>
-            <Button onClick={handleChangeDrawTime} disabled={!newDrawTime || drawTimeLoading}>
+            <Button onClick={handleChangeDrawTime} disabled={!newDrawTime || !drawTimeReason.trim() || drawTimeLoading}>
               {drawTimeLoading ? (<><LoadingSpinner size="sm" className="mr-2" />提交中...</>) : "确认修改"}
             </Button>
           </DialogFooter>
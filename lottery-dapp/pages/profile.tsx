@@ -7,10 +7,15 @@ import { useRouter } from "next/navigation"
 import { useWeb3 } from "../contexts/Web3Context"
 import {
   getOwnedLotteries,
-  getLotteryInstanceAddress,
-  getLotteryDetails,
-  getLotteryCount,
-  getLatestLotteries,
+  getLotterySummaries,
+  getLotteryWinners,
+  getLatestParticipatedLotteryIdsPage,
+  getParticipationStatus,
+  getRoundParticipation,
+  getClaimDeadline,
+  ParticipationStatus,
+  LOTTERY_PAGE_SIZE,
+  LotterySummary,
 } from "../services/contracts"
 import { formatDateTime, truncateAddress, isValidAddress } from "../utils/format"
 import Layout from "../components/Layout"
@@ -46,6 +51,57 @@ export default function Profile() {
   const [loadingCreated, setLoadingCreated] = useState(true)
   const [loadingParticipated, setLoadingParticipated] = useState(true)
 
+  // 创建的抽奖 ID 由工厂索引一次取回，详情按页加载
+  const [createdIds, setCreatedIds] = useState<string[]>([])
+  const [loadingMoreCreated, setLoadingMoreCreated] = useState(false)
+  // 参与的抽奖由工厂索引，记录可能很多，按页从工厂读取：已加载的页数、参与总数以及是否还有更早的记录
+  const [participatedPages, setParticipatedPages] = useState(0)
+  const [participatedTotal, setParticipatedTotal] = useState(0)
+  const [hasMoreParticipated, setHasMoreParticipated] = useState(false)
+  const [loadingMoreParticipated, setLoadingMoreParticipated] = useState(false)
+
+  // 已开奖的抽奖补充中奖名单，用于展示"我获得第几名"
+  const withWinners = async (summaries: LotterySummary[]) => {
+    if (!provider) return []
+    return Promise.all(
+      summaries.map(async summary => {
+        if (summary.currentState !== 2 && summary.currentState !== 3) return summary
+        try {
+          const [winners, claimDeadline] = await Promise.all([
+            getLotteryWinners(provider, summary.address, summary.token.decimals),
+            getClaimDeadline(provider, summary.address),
+          ])
+          return { ...summary, winners, claimDeadline }
+        } catch (error) {
+          console.error(`获取抽奖 ${summary.id} 中奖名单失败:`, error)
+          return summary
+        }
+      })
+    ) as Promise<any[]>
+  }
+
+  // 批量读取一组抽奖的摘要
+  const loadLotteries = async (ids: string[]) => {
+    if (!provider) return []
+    return withWinners(await getLotterySummaries(provider, ids))
+  }
+
+  // 参与的抽奖再补充用户的分轮参与情况，参与结果只针对当前轮次
+  const loadParticipatedLotteries = async (ids: string[]) => {
+    const lotteries = await loadLotteries(ids)
+    if (!provider || !account) return lotteries
+    return Promise.all(
+      lotteries.map(async lottery => {
+        try {
+          return { ...lottery, ...(await getRoundParticipation(provider, lottery.address, account)) }
+        } catch (error) {
+          console.error(`获取抽奖 ${lottery.id} 分轮参与情况失败:`, error)
+          return lottery
+        }
+      })
+    )
+  }
+
   // 获取用户创建的抽奖
   useEffect(() => {
     async function fetchCreatedLotteries() {
@@ -55,24 +111,10 @@ export default function Profile() {
       }
 
       try {
-        const lotteryIds = await getOwnedLotteries(provider, account)
-        
-        // 获取每个抽奖的详情
-        const lotteryDetailsPromises = lotteryIds.map(async (id: string) => {
-          try {
-            const address = await getLotteryInstanceAddress(provider, id)
-            if (address === '0x0000000000000000000000000000000000000000') return null
-            
-            const details = await getLotteryDetails(provider, address)
-            return { id, address, ...details }
-          } catch (error) {
-            console.error(`获取抽奖 ${id} 详情失败:`, error)
-            return null
-          }
-        })
-        
-        const lotteries = (await Promise.all(lotteryDetailsPromises)).filter(Boolean)
-        setCreatedLotteries(lotteries)
+        // 最新创建的排在前面
+        const lotteryIds = (await getOwnedLotteries(provider, account)).reverse()
+        setCreatedIds(lotteryIds)
+        setCreatedLotteries(await loadLotteries(lotteryIds.slice(0, LOTTERY_PAGE_SIZE)))
       } catch (error) {
         console.error("获取创建的抽奖失败:", error)
       } finally {
@@ -92,38 +134,12 @@ export default function Profile() {
       }
 
       try {
-        // 获取所有抽奖 ID
-        const allLotteryIds = await getLotteryCount(provider)
-        const participatedLotteryDetails = []
-        
-        // 获取最近的抽奖（如果数量太多，只获取最近的20个）
-        const recentLotteryIds = await getLatestLotteries(provider, Math.min(20, allLotteryIds))
-        
-        // 检查用户是否参与了这些抽奖
-        const participatedPromises = recentLotteryIds.map(async (id: string) => {
-          try {
-            const address = await getLotteryInstanceAddress(provider, id)
-            if (address === '0x0000000000000000000000000000000000000000') return null
-            
-            const details = await getLotteryDetails(provider, address)
-            
-            // 检查当前用户是否参与
-            const hasParticipated = details.participants.some(
-              (p: string) => p.toLowerCase() === account.toLowerCase()
-            )
-            
-            if (hasParticipated) {
-              return { id, address, ...details }
-            }
-            return null
-          } catch (error) {
-            console.error(`获取抽奖 ${id} 详情失败:`, error)
-            return null
-          }
-        })
-        
-        const participatedResults = (await Promise.all(participatedPromises)).filter(Boolean)
-        setParticipatedLotteries(participatedResults)
+        // 最近参与的排在前面
+        const { ids, total, hasMore } = await getLatestParticipatedLotteryIdsPage(provider, account, 0)
+        setParticipatedLotteries(await loadParticipatedLotteries(ids))
+        setParticipatedPages(1)
+        setParticipatedTotal(total)
+        setHasMoreParticipated(hasMore)
       } catch (error) {
         console.error("获取参与的抽奖失败:", error)
       } finally {
@@ -134,6 +150,42 @@ export default function Profile() {
     fetchParticipatedLotteries()
   }, [provider, account, isConnected, isCorrectNetwork])
 
+  // 加载下一页创建的抽奖
+  const loadMoreCreated = async () => {
+    setLoadingMoreCreated(true)
+    try {
+      const nextIds = createdIds.slice(createdLotteries.length, createdLotteries.length + LOTTERY_PAGE_SIZE)
+      const lotteries = await loadLotteries(nextIds)
+      setCreatedLotteries(prev => [...prev, ...lotteries])
+    } catch (error) {
+      console.error("加载更多创建的抽奖失败:", error)
+    } finally {
+      setLoadingMoreCreated(false)
+    }
+  }
+
+  // 加载下一页参与的抽奖
+  const loadMoreParticipated = async () => {
+    if (!provider || !account || !hasMoreParticipated) return
+    setLoadingMoreParticipated(true)
+    try {
+      const { ids, total, hasMore } = await getLatestParticipatedLotteryIdsPage(provider, account, participatedPages)
+      const lotteries = await loadParticipatedLotteries(ids)
+      // 加载期间用户参与了新的抽奖会导致分页偏移，按 ID 去重
+      setParticipatedLotteries(prev => {
+        const known = prev.map(lottery => lottery.id)
+        return [...prev, ...lotteries.filter(lottery => known.indexOf(lottery.id) === -1)]
+      })
+      setParticipatedPages(participatedPages + 1)
+      setParticipatedTotal(total)
+      setHasMoreParticipated(hasMore)
+    } catch (error) {
+      console.error("加载更多参与的抽奖失败:", error)
+    } finally {
+      setLoadingMoreParticipated(false)
+    }
+  }
+
   // 渲染抽奖状态
   const renderLotteryState = (state: number) => {
     switch (state) {
@@ -145,13 +197,54 @@ export default function Profile() {
         return <Badge className="text-white bg-blue-500">可领奖</Badge>
       case 3:
         return <Badge className="text-gray-700 bg-gray-300">已结束</Badge>
+      case 4:
+        return <Badge className="text-white bg-red-500">已取消</Badge>
       default:
         return <Badge variant="outline">未知</Badge>
     }
   }
 
-  // 渲染抽奖卡片
-  const renderLotteryCard = (lottery: any) => (
+  // 查找当前用户在某个抽奖中的中奖记录
+  const getMyPrize = (lottery: any) => {
+    if (!account || !lottery.winners) return null
+    return lottery.winners.find(
+      (w: any) => w.address.toLowerCase() === account.toLowerCase()
+    ) || null
+  }
+
+  // 参与结果的展示文案和样式
+  const participationStatusDisplay: Record<ParticipationStatus, { label: string; className: string }> = {
+    "absent": { label: "本轮未参与", className: "bg-gray-100 text-gray-800" },
+    "pending": { label: "待开奖", className: "bg-green-100 text-green-800" },
+    "lost": { label: "未中奖", className: "bg-gray-100 text-gray-800" },
+    "won-unclaimed": { label: "中奖待领取", className: "bg-yellow-100 text-yellow-800" },
+    "won-claimed": { label: "中奖已领取", className: "bg-blue-100 text-blue-800" },
+    "expired": { label: "中奖逾期未领", className: "bg-orange-100 text-orange-800" },
+    "cancelled": { label: "已取消，可退款", className: "bg-red-100 text-red-800" },
+  }
+
+  // 渲染参与结果：状态只反映当前轮次，之前轮次只能查到头奖得主
+  const renderParticipationStatus = (lottery: any) => {
+    if (!account || lottery.round === undefined) return null
+    const status = getParticipationStatus(lottery.currentState, lottery.winners || [], account, lottery.joinedCurrentRound, lottery.claimDeadline)
+    const { label, className } = participationStatusDisplay[status]
+    return (
+      <>
+        <div className="mt-2 flex items-center text-sm">
+          <span className="mr-2 text-muted-foreground">第 {lottery.round} 轮结果:</span>
+          <Badge variant="outline" className={className}>{label}</Badge>
+        </div>
+        {lottery.pastWins.length > 0 && (
+          <div className="mt-1 text-sm text-muted-foreground">
+            往期头奖: 第 {lottery.pastWins.join("、")} 轮
+          </div>
+        )}
+      </>
+    )
+  }
+
+  // 渲染抽奖卡片，showParticipation 为 true 时显示当前用户的参与结果
+  const renderLotteryCard = (lottery: any, showParticipation = false) => (
     <Card key={lottery.id} className="hover:shadow-md transition-shadow">
       <CardHeader className="pb-3">
         <div className="flex justify-between items-start">
@@ -172,7 +265,7 @@ export default function Profile() {
           </div>
           <div className="flex items-center text-sm">
             <Trophy className="mr-2 h-4 w-4 text-muted-foreground" />
-            <span>奖池: {lottery.prizePool} ETH</span>
+            <span>奖池: {lottery.prizePool} {lottery.token.symbol}</span>
           </div>
         </div>
         {lottery.winner && 
@@ -181,7 +274,22 @@ export default function Profile() {
           <div className="mt-2 p-2 rounded-md bg-blue-50 dark:bg-blue-950 text-sm">
             <div className="flex items-center text-blue-800 dark:text-blue-400">
               <Award className="mr-2 h-4 w-4" />
-              <span>中奖者: {truncateAddress(lottery.winner)}</span>
+              <span>
+                头奖: {truncateAddress(lottery.winner)}
+                {lottery.winners?.length > 1 && ` 等 ${lottery.winners.length} 人中奖`}
+              </span>
+            </div>
+          </div>
+        )}
+        {showParticipation && renderParticipationStatus(lottery)}
+        {getMyPrize(lottery) && (
+          <div className="mt-2 p-2 rounded-md bg-yellow-50 dark:bg-yellow-950 text-sm">
+            <div className="flex items-center text-yellow-800 dark:text-yellow-400">
+              <Trophy className="mr-2 h-4 w-4" />
+              <span>
+                我获得第{getMyPrize(lottery).rank}名 · {getMyPrize(lottery).amount} {lottery.token.symbol} ·{" "}
+                {getMyPrize(lottery).claimed ? "已领取" : "待领取"}
+              </span>
             </div>
           </div>
         )}
@@ -293,9 +401,18 @@ export default function Profile() {
               {renderSkeleton()}
             </div>
           ) : createdLotteries.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {createdLotteries.map(lottery => renderLotteryCard(lottery))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {createdLotteries.map(lottery => renderLotteryCard(lottery))}
+              </div>
+              {createdIds.length > createdLotteries.length && (
+                <div className="flex justify-center mt-6">
+                  <Button variant="outline" onClick={loadMoreCreated} disabled={loadingMoreCreated}>
+                    {loadingMoreCreated ? <LoadingSpinner size="sm" /> : `加载更多（已显示 ${createdLotteries.length} / ${createdIds.length}）`}
+                  </Button>
+                </div>
+              )}
+            </>
           ) : (
             <div className="text-center py-12 border rounded-lg">
               <h3 className="text-xl font-medium mb-2">暂无创建的抽奖</h3>
@@ -322,9 +439,18 @@ export default function Profile() {
               {renderSkeleton()}
             </div>
           ) : participatedLotteries.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {participatedLotteries.map(lottery => renderLotteryCard(lottery))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {participatedLotteries.map(lottery => renderLotteryCard(lottery, true))}
+              </div>
+              {hasMoreParticipated && (
+                <div className="flex justify-center mt-6">
+                  <Button variant="outline" onClick={loadMoreParticipated} disabled={loadingMoreParticipated}>
+                    {loadingMoreParticipated ? <LoadingSpinner size="sm" /> : `加载更多（已显示 ${participatedLotteries.length} / ${participatedTotal}）`}
+                  </Button>
+                </div>
+              )}
+            </>
           ) : (
             <div className="text-center py-12 border rounded-lg">
               <h3 className="text-xl font-medium mb-2">暂无参与的抽奖</h3>
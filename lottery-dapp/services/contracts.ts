@@ -1,9 +1,13 @@
 import { ethers } from "ethers"
+import { SignedEntryPass } from "./passes"
+import { signForwardRequest, sendToRelayer } from "./relayer"
 import LotteryFactoryABI from "../abis/LotteryFactory.json"
 import SimpleLotteryABI from "../abis/SimpleLottery.json"
 
 // 从环境变量获取合约地址
 export const LOTTERY_FACTORY_ADDRESS = process.env.NEXT_PUBLIC_LOTTERY_FACTORY_ADDRESS
+// 中继接口地址，配置后免费参与的抽奖可以免 gas 参与 (例如本应用自带的 /api/relay)
+export const RELAYER_URL = process.env.NEXT_PUBLIC_RELAYER_URL
 
 // 支持的网络列表及其合约地址
 export const SUPPORTED_NETWORKS: Record<number, {
@@ -59,6 +63,7 @@ export enum LotteryState {
   Drawing = 1,
   Claimable = 2,
   Closed = 3,
+  Cancelled = 4,
 }
 
 // 获取当前网络信息
@@ -72,6 +77,57 @@ export function getCurrentNetworkSymbol(chainId: number) {
   return network ? network.symbol : "ETH";
 }
 
+// ERC-20 代币的最小 ABI，只包含抽奖用到的方法
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+]
+
+// 抽奖的计价代币，原生币抽奖的 address 为零地址
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+  isNative: boolean;
+}
+
+// 代币的符号和小数位数不会变化，按地址缓存
+const tokenInfoCache: Record<string, TokenInfo> = {}
+
+// 获取 ERC-20 代币的符号和小数位数
+export async function getTokenInfo(runner: ethers.ContractRunner, tokenAddress: string): Promise<TokenInfo> {
+  const key = tokenAddress.toLowerCase()
+  if (!tokenInfoCache[key]) {
+    const erc20 = new ethers.Contract(tokenAddress, ERC20_ABI, runner)
+    const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()])
+    tokenInfoCache[key] = { address: tokenAddress, symbol, decimals: Number(decimals), isNative: false }
+  }
+  return tokenInfoCache[key]
+}
+
+// 获取抽奖的计价代币；原生币抽奖使用当前网络的币种符号
+export async function getLotteryToken(provider: ethers.Provider, lotteryAddress: string): Promise<TokenInfo> {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const tokenAddress: string = await instance.token()
+  if (tokenAddress === ethers.ZeroAddress) {
+    const { chainId } = await provider.getNetwork()
+    return { address: tokenAddress, symbol: getCurrentNetworkSymbol(Number(chainId)), decimals: 18, isNative: true }
+  }
+  return getTokenInfo(provider, tokenAddress)
+}
+
+// 授权额度不足时先发起 approve 交易，授权金额为本次所需金额
+async function ensureAllowance(signer: ethers.Signer, tokenAddress: string, spender: string, amount: bigint) {
+  const erc20 = new ethers.Contract(tokenAddress, ERC20_ABI, signer)
+  const allowance: bigint = await erc20.allowance(await signer.getAddress(), spender)
+  if (allowance < amount) {
+    const tx = await erc20.approve(spender, amount)
+    await tx.wait()
+  }
+}
+
 // 获取当前chainId的工厂合约地址
 export function getFactoryAddress(chainId?: number): string {
   if (!chainId) return LOTTERY_FACTORY_ADDRESS;
@@ -293,31 +349,144 @@ export function handleContractError(error: any): string {
   return '交易失败，请检查网络连接和钱包余额';
 }
 
-// 创建新抽奖
+// 本地保存开奖种子的 localStorage 键，按抽奖实例地址和轮次区分
+function seedStorageKey(lotteryAddress: string, round: number) {
+  return `lottery-seed:${lotteryAddress.toLowerCase()}:${round}`
+}
+
+// 生成开奖种子并计算承诺，链上只提交承诺，种子开奖时用于揭示
+export function commitSeed() {
+  const secret = ethers.hexlify(ethers.randomBytes(32))
+  const commitment = ethers.keccak256(secret)
+  return { secret, commitment }
+}
+
+// 交易确认后再把种子保存在发起人的浏览器里，交易失败时不会覆盖已有抽奖的种子
+export function saveSeedSecret(lotteryAddress: string, round: number, secret: string) {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(seedStorageKey(lotteryAddress, round), secret)
+}
+
+// 开奖种子备份文件名，浏览器数据被清除后可从备份文件中找回种子
+export function seedBackupFilename(lotteryId: string, round: number) {
+  return `${lotteryId}-round-${round}-seed.json`
+}
+
+// 读取本地保存的某一轮的开奖种子
+export function getStoredSeedSecret(lotteryAddress: string, round: number): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(seedStorageKey(lotteryAddress, round))
+}
+
+// 奖项比例以基点表示，合计 10000 (100%)
+export const PRIZE_TIER_TOTAL = 10000
+export const MAX_PRIZE_TIERS = 10
+
+// N 名中奖者平分奖池，整除余数归头奖
+export function equalPrizeTiers(count: number): number[] {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PRIZE_TIERS) {
+    throw new Error(`中奖人数必须在 1 到 ${MAX_PRIZE_TIERS} 之间`)
+  }
+  const share = Math.floor(PRIZE_TIER_TOTAL / count)
+  const tiers = Array(count).fill(share)
+  tiers[0] += PRIZE_TIER_TOTAL - share * count
+  return tiers
+}
+
+// 按名次的百分比 (如 [50, 30, 20]) 转换为基点
+export function percentPrizeTiers(percents: number[]): number[] {
+  if (percents.length < 1 || percents.length > MAX_PRIZE_TIERS) {
+    throw new Error(`奖项数量必须在 1 到 ${MAX_PRIZE_TIERS} 之间`)
+  }
+  const tiers = percents.map(p => Math.round(p * 100))
+  if (tiers.some(t => t <= 0)) throw new Error("每个名次的比例必须大于0")
+  if (tiers.reduce((sum, t) => sum + t, 0) !== PRIZE_TIER_TOTAL) throw new Error("各名次比例合计必须为100%")
+  return tiers
+}
+
+// 抽奖模式，与合约中的 LotteryMode 枚举一致
+export enum LotteryMode {
+  Public = 0,
+  Private = 1,
+}
+
+// 逾期未领奖金的处理策略，与合约中的 UnclaimedPolicy 枚举一致
+export enum UnclaimedPolicy {
+  Rollover = 0,       // 转入下一轮奖池
+  ReturnToOwner = 1,  // 由发起人收回
+  Redraw = 2,         // 从其余参与者中重新抽取
+}
+
+// 单笔交易提交的白名单地址数量上限，避免超出区块 gas 限制
+export const WHITELIST_BATCH_SIZE = 200
+
+// 创建新抽奖，返回新部署的抽奖实例地址
 export async function createLottery(
   signer: ethers.Signer,
   lotteryId: string,
   name: string,
   entryFee: string,
-  drawTimeInSeconds: number
+  drawTimeInSeconds: number,
+  seedCommitment: string,
+  prizeTiers: number[] = [],
+  lotteryMode: LotteryMode = LotteryMode.Public,
+  whitelist: string[] = [],
+  maxTicketsPerAddress = 0,
+  tokenAddress: string = ethers.ZeroAddress,
+  creatorCommissionBps = 0,
+  claimWindow = 0,
+  unclaimedPolicy: UnclaimedPolicy = UnclaimedPolicy.Rollover,
+  maxParticipants = 0,
+  minParticipants = 0,
+  merkleRoot: string = ethers.ZeroHash,
+  passSigner: string = ethers.ZeroAddress
 ) {
   try {
     const factory = getLotteryFactoryContract(signer)
+    const isNative = tokenAddress === ethers.ZeroAddress
     
-    // 将ETH转换为Wei
-    const entryFeeWei = ethers.parseEther(entryFee)
+    // 按计价代币的小数位数转换参与费用
+    const decimals = isNative ? 18 : (await getTokenInfo(signer, tokenAddress)).decimals
+    const entryFeeWei = ethers.parseUnits(entryFee, decimals)
     
     // 计算开奖时间（当前时间 + 指定的秒数）
     const drawTime = Math.floor(Date.now() / 1000) + drawTimeInSeconds
     
+    // 抽奖参数，字段与合约中的 LotteryConfig 结构体一致
+    const config = {
+      entryFee: entryFeeWei,
+      drawTime,
+      seedCommitment,
+      prizeTiers,
+      lotteryMode,
+      whitelist,
+      maxTicketsPerAddress,
+      token: tokenAddress,
+      creatorCommissionBps,
+      claimWindow,
+      unclaimedPolicy,
+      maxParticipants,
+      minParticipants,
+      merkleRoot,
+      passSigner,
+    }
+    
     // 调用创建彩票的合约方法
-    const tx = await factory.createLottery(lotteryId, name, entryFeeWei, drawTime, {
-      value: ethers.parseEther("0.01") // 假设部署合约需要支付一定数量的ETH
+    // 代币抽奖不接受原生币，初始奖池需在创建后通过赞助注入
+    const tx = await factory.createLottery(lotteryId, name, config, {
+      value: isNative ? ethers.parseEther("0.01") : 0 // 假设部署合约需要支付一定数量的ETH
     })
     
-    await tx.wait()
+    const receipt = await tx.wait()
     
-    return tx
+    // 新实例地址直接取自回执中的 LotteryInstanceCreated 事件，无需再查询工厂
+    const factoryAddress = (await factory.getAddress()).toLowerCase()
+    for (const log of receipt?.logs ?? []) {
+      if (log.address.toLowerCase() !== factoryAddress) continue
+      const parsed = factory.interface.parseLog(log)
+      if (parsed?.name === 'LotteryInstanceCreated') return parsed.args.instanceAddress as string
+    }
+    throw new Error("交易回执中未找到 LotteryInstanceCreated 事件")
   } catch (error) {
     throw new Error(handleContractError(error));
   }
@@ -457,11 +626,13 @@ export async function safeContractCall<T>(
   }
 }
 
+// 分页读取抽奖列表时每页的数量
+export const LOTTERY_PAGE_SIZE = 12
+
 // 获取抽奖总数
 export async function getLotteryCount(provider: ethers.Provider) {
   const factory = getLotteryFactoryContract(provider)
-  const allLotteryIds = await safeContractCall<string[]>(factory, 'getAllLotteryIds')
-  return allLotteryIds?.length || 0
+  return Number(await factory.getLotteryCount())
 }
 
 // 获取抽奖合约地址
@@ -470,49 +641,177 @@ export async function getLotteryInstanceAddress(provider: ethers.Provider, lotte
   return await factory.getLotteryInstanceAddress(lotteryId)
 }
 
+// 按创建顺序分页获取抽奖 ID
+export async function getLotteryIds(provider: ethers.Provider, offset: number, limit: number): Promise<string[]> {
+  const factory = getLotteryFactoryContract(provider)
+  return Array.from(await factory.getLotteryIds(offset, limit) as string[])
+}
+
+// 从列表末尾开始倒序分页读取 ID，page 从 0 开始，read 按 (offset, limit) 读取一段
+async function readLatestPage(
+  total: number,
+  page: number,
+  pageSize: number,
+  read: (offset: number, limit: number) => Promise<string[]>
+) {
+  const end = Math.max(total - page * pageSize, 0)
+  const start = Math.max(end - pageSize, 0)
+  const ids = end > start ? await read(start, end - start) : []
+  return {
+    ids: ids.reverse(), // 最新的排在前面
+    total,
+    hasMore: start > 0,
+  }
+}
+
+// 从最新创建的抽奖开始倒序分页，page 从 0 开始
+export async function getLatestLotteryIdsPage(provider: ethers.Provider, page: number, pageSize = LOTTERY_PAGE_SIZE) {
+  const total = await getLotteryCount(provider)
+  return readLatestPage(total, page, pageSize, (offset, limit) => getLotteryIds(provider, offset, limit))
+}
+
 // 获取最新的抽奖列表
 export async function getLatestLotteries(provider: ethers.Provider, count: number) {
-  const factory = getLotteryFactoryContract(provider)
-  // 使用 getAllLotteryIds 获取所有彩票ID
-  const allLotteryIds = await safeContractCall<string[]>(factory, 'getAllLotteryIds') || []
-  
-  // 获取最新的n个彩票ID（最新的在数组末尾）
-  const latestIds = allLotteryIds
-    .slice(Math.max(0, allLotteryIds.length - count))
-    .reverse() // 反转顺序，最新的排在前面
-  
-  return latestIds
+  const { ids } = await getLatestLotteryIdsPage(provider, 0, count)
+  return ids
 }
 
-// 获取用户创建的抽奖列表
-export async function getOwnedLotteries(provider: ethers.Provider, ownerAddress: string) {
-  // 由于合约中没有 getOwnedLotteries 方法，我们需要通过其他方式实现
-  // 这里是一个简单的实现，实际应用中可能需要监听事件等方式
-  const factory = getLotteryFactoryContract(provider)
-  const allLotteryIds = await factory.getAllLotteryIds()
-  
-  // 这里需要遍历所有彩票，检查每个彩票的所有者
-  // 注意：这种方法在彩票数量多时效率较低
-  const ownedLotteries = []
-  
-  for (const id of allLotteryIds) {
-    try {
-      const address = await factory.getLotteryInstanceAddress(id)
-      const instance = getLotteryInstanceContract(address, provider)
-      const details = await instance.getLotteryDetails()
-      
-      // 获取owner地址，适配不同的参数名
-      const ownerFromDetails = details.ownerAddress || details.owner;
-      
-      if (ownerFromDetails && ownerFromDetails.toLowerCase() === ownerAddress.toLowerCase()) {
-        ownedLotteries.push(id)
-      }
-    } catch (error) {
-      console.error(`检查彩票 ${id} 所有者时出错:`, error)
+// 列表页使用的抽奖摘要，金额已按计价代币的小数位数格式化
+export interface LotterySummary {
+  id: string
+  address: string
+  lotteryName: string
+  owner: string
+  entryFee: string
+  drawTime: number
+  prizePool: string
+  currentState: LotteryState
+  winner: string
+  participantsCount: number
+  token: TokenInfo
+  maxParticipants: number   // 参与人数上限，0 表示不限
+  minParticipants: number   // 开奖所需的最少参与人数，0 表示不限
+}
+
+// 通过工厂的 getLotterySummaries 一次调用批量读取抽奖摘要，不存在的 ID 会被跳过
+export async function getLotterySummaries(provider: ethers.Provider, ids: string[]): Promise<LotterySummary[]> {
+  if (ids.length === 0) return []
+
+  try {
+    const factory = getLotteryFactoryContract(provider)
+    const [summaries, network] = await Promise.all([factory.getLotterySummaries(ids), provider.getNetwork()])
+    const nativeToken: TokenInfo = {
+      address: ethers.ZeroAddress,
+      symbol: getCurrentNetworkSymbol(Number(network.chainId)),
+      decimals: 18,
+      isNative: true,
+    }
+
+    const results: LotterySummary[] = []
+    for (const summary of summaries) {
+      if (summary.instance === ethers.ZeroAddress) continue
+
+      const token = summary.token === ethers.ZeroAddress ? nativeToken : await getTokenInfo(provider, summary.token)
+      results.push({
+        id: summary.id,
+        address: summary.instance,
+        lotteryName: summary.name || summary.id,
+        owner: summary.owner,
+        entryFee: ethers.formatUnits(summary.entryFee, token.decimals),
+        drawTime: Number(summary.drawTime),
+        prizePool: ethers.formatUnits(summary.balance, token.decimals),
+        currentState: Number(summary.state) as LotteryState,
+        winner: summary.winner,
+        participantsCount: Number(summary.participantCount),
+        token,
+        maxParticipants: Number(summary.maxParticipants),
+        minParticipants: Number(summary.minParticipants),
+      })
     }
+    return results
+  } catch (error) {
+    throw new Error(handleContractError(error))
   }
-  
-  return ownedLotteries
+}
+
+// 无人参与的抽奖在开奖时间后多久任何人都可以取消 (秒)，与合约中的 CANCEL_GRACE_PERIOD 一致
+export const CANCEL_GRACE_PERIOD = 24 * 60 * 60
+
+// 获取按名次排列的中奖者、奖金和领取情况
+export async function getLotteryWinners(provider: ethers.Provider, lotteryAddress: string, decimals = 18) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const [winnerList, amountList, claimedList] = await instance.getWinners()
+  return Array.from(winnerList as string[]).map((address, index) => ({
+    rank: index + 1,
+    address,
+    amount: ethers.formatUnits(amountList[index], decimals),
+    claimed: Boolean(claimedList[index]),
+  }))
+}
+
+// 获取本轮的领奖截止时间 (秒)，未开奖或不限期时为 0
+export async function getClaimDeadline(provider: ethers.Provider, lotteryAddress: string) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  return Number(await instance.claimDeadline())
+}
+
+// 获取用户的分轮参与情况：当前轮次、是否参与了当前轮，以及之前各轮中由该用户获得头奖的轮次
+// 合约只归档每轮的头奖得主，之前轮次的其余名次无法在这里查到
+export async function getRoundParticipation(provider: ethers.Provider, lotteryAddress: string, account: string) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const [round, joinedCurrentRound] = await Promise.all([
+    instance.currentRound().then(Number),
+    instance.hasParticipated(account).then(Boolean),
+  ])
+  const pastRounds = Array.from({ length: round - 1 }, (_, index) => index + 1)
+  const results = await Promise.all(pastRounds.map(past => instance.getRoundResult(past)))
+  const pastWins = pastRounds.filter((_, index) => results[index].winner.toLowerCase() === account.toLowerCase())
+  return { round, joinedCurrentRound, pastWins }
+}
+
+// 获取用户创建的抽奖列表，由工厂按发起人索引，只需一次调用
+export async function getOwnedLotteries(provider: ethers.Provider, ownerAddress: string): Promise<string[]> {
+  const factory = getLotteryFactoryContract(provider)
+  return Array.from(await factory.getUserCreatedLotteries(ownerAddress) as string[])
+}
+
+// 从最近参与的抽奖开始倒序分页获取用户参与过的抽奖 ID，page 从 0 开始
+// 实例在用户首次参与时通知工厂记录，参与记录只增不减
+export async function getLatestParticipatedLotteryIdsPage(
+  provider: ethers.Provider,
+  account: string,
+  page: number,
+  pageSize = LOTTERY_PAGE_SIZE
+) {
+  const factory = getLotteryFactoryContract(provider)
+  const total = Number(await factory.getUserParticipatedCount(account))
+  return readLatestPage(total, page, pageSize, async (offset, limit) =>
+    Array.from(await factory.getUserParticipatedLotteryIds(account, offset, limit) as string[])
+  )
+}
+
+// 用户在某个抽奖中的结果：待开奖、未中奖、中奖待领取、中奖已领取、中奖逾期未领、已取消
+export type ParticipationStatus = "absent" | "pending" | "lost" | "won-unclaimed" | "won-claimed" | "expired" | "cancelled"
+
+// 根据当前轮的抽奖状态、中奖名单和领奖截止时间 (秒，0 表示不限期) 判断用户在当前轮的参与结果
+// 合约开启下一轮时会清除参与记录，joinedCurrentRound 为 false 表示用户只参与过之前的轮次
+export function getParticipationStatus(
+  state: LotteryState,
+  winners: { address: string; claimed: boolean }[],
+  account: string,
+  joinedCurrentRound: boolean,
+  claimDeadline = 0
+): ParticipationStatus {
+  if (!joinedCurrentRound) return "absent"
+  if (state === LotteryState.Cancelled) return "cancelled"
+  if (state === LotteryState.Open || state === LotteryState.Drawing) return "pending"
+
+  const prize = winners.find(w => w.address.toLowerCase() === account.toLowerCase())
+  if (!prize) return "lost"
+  if (prize.claimed) return "won-claimed"
+  // 已结束仍未领取说明逾期奖金已被处理
+  const expired = state === LotteryState.Closed || (claimDeadline > 0 && Date.now() / 1000 >= claimDeadline)
+  return expired ? "expired" : "won-unclaimed"
 }
 
 // 获取抽奖详情
@@ -549,11 +848,14 @@ export async function getLotteryDetails(provider: ethers.Provider, lotteryAddres
       是否为空: !details.lotteryName && !details[0]
     });
     
+    // 计价代币：金额按代币的小数位数格式化
+    const token = await getLotteryToken(provider, lotteryAddress);
+
     // 安全处理可能的null值，并支持不同的参数名格式
     const safeFormatEther = (value: any) => {
       if (value === null || value === undefined) return "0";
       try {
-        return ethers.formatEther(value);
+        return ethers.formatUnits(value, token.decimals);
       } catch (error) {
         console.error("格式化ETH数值失败:", error, "原始值:", value);
         return "0";
@@ -605,6 +907,54 @@ export async function getLotteryDetails(provider: ethers.Provider, lotteryAddres
     const prizePool = safeFormatEther(details[4] || details.pool || details.prizePool);
     const currentState = safeNumber(details[5] || details.state || details.currentState);
     const winner = details[6] || details.winnerAddress || details.winner || ethers.ZeroAddress;
+
+    // 揭示截止时间，超时后任何人都可以取消抽奖
+    const revealTimeout = safeNumber(await instance.REVEAL_TIMEOUT());
+    // 无人参与时，超过该时间任何人都可以取消抽奖
+    const cancelGracePeriod = safeNumber(await instance.CANCEL_GRACE_PERIOD());
+    // 配置了随机数服务时走请求-回调开奖，不需要发起人揭示种子
+    const randomnessProvider = await instance.randomnessProvider();
+
+    // 各名次中奖者、奖金和领取情况
+    const [winnerList, amountList, claimedList] = await instance.getWinners();
+    const winners = Array.from(winnerList as string[]).map((address, index) => ({
+      rank: index + 1,
+      address,
+      amount: safeFormatEther(amountList[index]),
+      claimed: Boolean(claimedList[index]),
+    }));
+    const prizeTiers = Array.from(await instance.getPrizeTiers() as bigint[]).map(Number);
+    const lotteryMode = safeNumber(await instance.getLotteryMode()) as LotteryMode;
+    const managers = Array.from(await instance.getManagers() as string[]);
+    // 彩票数：与 participants 顺序一致
+    const ticketCounts = Array.from(await instance.getTicketCounts() as bigint[]).map(Number);
+    const totalTickets = safeNumber(await instance.totalTickets());
+    const maxTicketsPerAddress = safeNumber(await instance.maxTicketsPerAddress());
+    // 领奖时扣除的平台费和发起人佣金 (基点)，以及发起人尚未提取的佣金
+    const platformFeeBps = safeNumber(await instance.platformFeeBps());
+    const creatorCommissionBps = safeNumber(await instance.creatorCommissionBps());
+    const creatorCommissionBalance = safeFormatEther(await instance.creatorCommissionBalance());
+    // 多轮抽奖的当前轮次
+    const currentRound = safeNumber(await instance.currentRound());
+    // 领奖期限 (秒) 和逾期处理策略，claimDeadline 为本轮的领奖截止时间，0 表示不限期
+    const claimWindow = safeNumber(await instance.claimWindow());
+    const unclaimedPolicy = safeNumber(await instance.unclaimedPolicy()) as UnclaimedPolicy;
+    const claimDeadline = safeNumber(await instance.claimDeadline());
+    // 参与人数上限和开奖所需的最少人数，0 表示不限
+    const maxParticipants = safeNumber(await instance.maxParticipants());
+    const minParticipants = safeNumber(await instance.minParticipants());
+    // 私有抽奖的 Merkle 白名单根，ZeroHash 表示只使用链上白名单
+    const merkleRoot: string = await instance.merkleRoot();
+    // 私有抽奖的入场凭证签发人，零地址表示不使用凭证
+    const passSigner: string = await instance.passSigner();
+    // 开奖时间修改记录
+    const drawTimeHistory = Array.from(await instance.getDrawTimeHistory() as any[]).map((change: any) => ({
+      oldTime: safeNumber(change.oldTime),
+      newTime: safeNumber(change.newTime),
+      changedAt: safeNumber(change.changedAt),
+      changedBy: change.changedBy as string,
+      reason: change.reason as string,
+    }));
     
     return {
       lotteryName,
@@ -615,6 +965,29 @@ export async function getLotteryDetails(provider: ethers.Provider, lotteryAddres
       currentState,
       winner,
       participants: participants || [],
+      revealDeadline: drawTime + revealTimeout,
+      publicCancelTime: drawTime + cancelGracePeriod,
+      usesRandomnessProvider: randomnessProvider !== ethers.ZeroAddress,
+      winners,
+      prizeTiers,
+      lotteryMode,
+      managers,
+      drawTimeHistory,
+      ticketCounts,
+      totalTickets,
+      maxTicketsPerAddress,
+      token,
+      platformFeeBps,
+      creatorCommissionBps,
+      creatorCommissionBalance,
+      currentRound,
+      claimWindow,
+      unclaimedPolicy,
+      claimDeadline,
+      maxParticipants,
+      minParticipants,
+      merkleRoot,
+      passSigner,
     };
   } catch (error) {
     console.error("获取抽奖详情失败:", error);
@@ -628,21 +1001,69 @@ export async function getLotteryDetails(provider: ethers.Provider, lotteryAddres
       currentState: 0,
       winner: ethers.ZeroAddress,
       participants: [],
+      revealDeadline: 0,
+      publicCancelTime: 0,
+      usesRandomnessProvider: false,
+      winners: [],
+      prizeTiers: [],
+      lotteryMode: LotteryMode.Public,
+      managers: [],
+      drawTimeHistory: [],
+      ticketCounts: [],
+      totalTickets: 0,
+      maxTicketsPerAddress: 0,
+      token: { address: ethers.ZeroAddress, symbol: "ETH", decimals: 18, isNative: true } as TokenInfo,
+      platformFeeBps: 0,
+      creatorCommissionBps: 0,
+      creatorCommissionBalance: "0",
+      currentRound: 1,
+      claimWindow: 0,
+      unclaimedPolicy: UnclaimedPolicy.Rollover,
+      claimDeadline: 0,
+      maxParticipants: 0,
+      minParticipants: 0,
+      merkleRoot: ethers.ZeroHash,
+      passSigner: ethers.ZeroAddress,
     };
   }
 }
 
 // 参与抽奖
-export async function enterLottery(signer: ethers.Signer, lotteryAddress: string, entryFee: string) {
+// 代币抽奖会先检查授权额度，不足时发起 approve，再调用 enter
+// 使用 Merkle 白名单的私有抽奖需传入当前地址的证明，凭入场凭证参与时传入签发人签发的凭证
+export async function enterLottery(
+  signer: ethers.Signer,
+  lotteryAddress: string,
+  quantity = 1,
+  merkleProof?: string[],
+  entryPass?: SignedEntryPass,
+  gasless = false
+) {
   const instance = getLotteryInstanceContract(lotteryAddress, signer)
   
-  // 将ETH转换为Wei
-  const entryFeeWei = ethers.parseEther(entryFee)
-  
   // 修复：将enterLottery改为enter，与合约函数名匹配
   try {
-    console.log("调用参与抽奖函数，地址:", lotteryAddress, "费用:", entryFeeWei.toString());
-    const tx = await instance.enter({ value: entryFeeWei })
+    // 按链上的参与费用和购买的彩票数计算总费用
+    const entryFeeWei: bigint = (await instance.entryFee()) * BigInt(quantity)
+    const tokenAddress: string = await instance.token()
+    console.log("调用参与抽奖函数，地址:", lotteryAddress, "数量:", quantity, "费用:", entryFeeWei.toString());
+    const isNative = tokenAddress === ethers.ZeroAddress
+    if (!isNative) {
+      await ensureAllowance(signer, tokenAddress, lotteryAddress, entryFeeWei)
+    }
+    const [method, args] = entryPass
+      ? ["enterWithPass", [quantity, entryPass.pass, entryPass.signature]]
+      : merkleProof
+        ? ["enterWithProof", [quantity, merkleProof]]
+        : ["enter", [quantity]]
+
+    if (gasless) {
+      if (quantity !== 1) throw new Error("免 gas 参与每次只能购买 1 张")
+      return await enterLotteryGasless(signer, instance, method, args, entryFeeWei)
+    }
+
+    const overrides = { value: isNative ? entryFeeWei : BigInt(0) }
+    const tx = await instance[method](...args, overrides)
     console.log("交易发送成功，等待确认...");
     await tx.wait()
     console.log("交易已确认");
@@ -662,7 +1083,48 @@ export async function enterLottery(signer: ethers.Signer, lotteryAddress: string
   }
 }
 
-// 开奖
+// 免 gas 参与：用户只签名 ForwardRequest，由中继代付 gas 提交，只支持免费参与的抽奖
+async function enterLotteryGasless(
+  signer: ethers.Signer,
+  instance: ethers.Contract,
+  method: string,
+  args: any[],
+  entryFeeWei: bigint
+) {
+  if (!RELAYER_URL) throw new Error("未配置中继，无法免 gas 参与")
+  if (entryFeeWei > BigInt(0)) throw new Error("只有免费参与的抽奖支持免 gas 参与")
+
+  const forwarderAddress: string = await instance.trustedForwarder()
+  if (forwarderAddress === ethers.ZeroAddress) throw new Error("该抽奖不支持免 gas 参与")
+
+  // 以用户身份估算 gas，经转发器调用时略有额外开销，预留 20%
+  const gas: bigint = await instance[method].estimateGas(...args)
+  const data = instance.interface.encodeFunctionData(method, args)
+  const lotteryAddress = await instance.getAddress()
+  const request = await signForwardRequest(signer, forwarderAddress, lotteryAddress, data, gas * BigInt(12) / BigInt(10))
+
+  console.log("已签名元交易，提交给中继...");
+  const hash = await sendToRelayer(RELAYER_URL, request)
+  const receipt = await signer.provider!.waitForTransaction(hash)
+  if (!receipt || receipt.status !== 1) throw new Error("中继提交的交易执行失败")
+  console.log("交易已确认");
+  return receipt
+}
+
+// 发起人揭示种子并开奖
+export async function revealAndDraw(signer: ethers.Signer, lotteryAddress: string, secret: string) {
+  if (!ethers.isHexString(secret, 32)) throw new Error("开奖种子格式不正确")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.revealAndDraw(secret)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 公开开奖：使用随机数服务时发起随机数请求，否则为发起人揭示超时后取消抽奖
 export async function drawWinner(signer: ethers.Signer, lotteryAddress: string) {
   const instance = getLotteryInstanceContract(lotteryAddress, signer)
   
@@ -747,12 +1209,67 @@ export function listenToLotteryEvents(
   }
 }
 
-// 赞助抽奖，向合约转账
-export async function sponsorLottery(signer: ethers.Signer, lotteryAddress: string, amountEth: string) {
+// 赞助留言的最大字节数，与合约中的 MAX_SPONSOR_MEMO_LENGTH 一致
+export const MAX_SPONSOR_MEMO_LENGTH = 140
+
+// 赞助抽奖，向合约转账，可附带留言
+// amount 为按计价代币单位填写的金额，代币抽奖会先完成授权
+export async function sponsorLottery(signer: ethers.Signer, lotteryAddress: string, amount: string, memo = "") {
   if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  if (ethers.toUtf8Bytes(memo).length > MAX_SPONSOR_MEMO_LENGTH) throw new Error("赞助留言过长")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tokenAddress: string = await instance.token()
+    let tx
+    if (tokenAddress === ethers.ZeroAddress) {
+      const value = ethers.parseEther(amount)
+      tx = memo
+        ? await instance.sponsorWithMemo(memo, { value })
+        : await instance.sponsor({ value })
+    } else {
+      const value = ethers.parseUnits(amount, (await getTokenInfo(signer, tokenAddress)).decimals)
+      await ensureAllowance(signer, tokenAddress, lotteryAddress, value)
+      tx = await instance.sponsorToken(value, memo)
+    }
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 获取每一笔赞助明细，时间为秒级时间戳，金额按计价代币单位格式化
+export async function getSponsorships(provider: ethers.Provider, lotteryAddress: string) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const { decimals } = await getLotteryToken(provider, lotteryAddress)
+  const records = await instance.getSponsorships()
+  return Array.from(records as any[]).map((record: any) => ({
+    sponsor: record.sponsor as string,
+    amount: ethers.formatUnits(record.amount, decimals),
+    timestamp: Number(record.timestamp),
+    memo: record.memo as string,
+  }))
+}
+
+// 获取指定轮次归档的开奖结果，未开奖的轮次头奖地址为零地址
+export async function getRoundResult(provider: ethers.Provider, lotteryAddress: string, round: number, decimals = 18) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const result = await instance.getRoundResult(round)
+  return {
+    round,
+    winner: result.winner as string,
+    pool: ethers.formatUnits(result.pool, decimals),
+    participantCount: Number(result.participantCount),
+    drawTime: Number(result.drawTime),
+  }
+}
+
+// 开启下一轮，仅发起人可用，需要上一轮的奖金全部领取完毕
+// commit-reveal 抽奖需要为新一轮提交新的种子承诺，使用随机数服务的抽奖传 ZeroHash
+export async function startNextRound(signer: ethers.Signer, lotteryAddress: string, drawTimeInSeconds: number, seedCommitment: string) {
   try {
     const instance = getLotteryInstanceContract(lotteryAddress, signer)
-    const tx = await instance.sponsor({ value: ethers.parseEther(amountEth) })
+    const tx = await instance.startNextRound(drawTimeInSeconds, seedCommitment)
     await tx.wait()
     return tx
   } catch (error) {
@@ -760,12 +1277,153 @@ export async function sponsorLottery(signer: ethers.Signer, lotteryAddress: stri
   }
 }
 
-// 修改开奖时间，仅 owner 可用
-export async function setDrawTime(signer: ethers.Signer, lotteryAddress: string, newTime: number) {
+// 领奖期限过后处理未领取的奖金，ReturnToOwner 策略仅发起人可调用，其余策略任何人可调用
+export async function settleUnclaimed(signer: ethers.Signer, lotteryAddress: string) {
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.settleUnclaimed()
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 修改原因的最大字节数，与合约中的 MAX_REASON_LENGTH 一致
+export const MAX_REASON_LENGTH = 140
+
+// 修改开奖时间，owner 或管理员可用，修改原因会记入链上历史
+export async function setDrawTime(signer: ethers.Signer, lotteryAddress: string, newTime: number, reason: string) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  if (ethers.toUtf8Bytes(reason).length > MAX_REASON_LENGTH) throw new Error("修改原因过长")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.setDrawTime(newTime, reason)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 获取私有抽奖的白名单
+export async function getWhitelist(provider: ethers.Provider, lotteryAddress: string): Promise<string[]> {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  return Array.from(await instance.getWhitelistAddresses() as string[])
+}
+
+// 查询地址是否在白名单中
+export async function isInWhitelist(provider: ethers.Provider, lotteryAddress: string, account: string): Promise<boolean> {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  return await instance.isInWhitelist(account)
+}
+
+// 分批提交白名单变更，每批一笔交易
+async function updateWhitelist(
+  signer: ethers.Signer,
+  lotteryAddress: string,
+  addresses: string[],
+  method: "addToWhitelist" | "removeFromWhitelist"
+) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    for (let i = 0; i < addresses.length; i += WHITELIST_BATCH_SIZE) {
+      const tx = await instance[method](addresses.slice(i, i + WHITELIST_BATCH_SIZE))
+      await tx.wait()
+    }
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 添加白名单地址，owner 或管理员可用
+// 更换入场凭证签发人，仅发起人可用，零地址表示停用凭证
+export async function setPassSigner(signer: ethers.Signer, lotteryAddress: string, passSigner: string) {
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.setPassSigner(passSigner)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 设置 Merkle 白名单根，仅发起人或管理员可用
+export async function setMerkleRoot(signer: ethers.Signer, lotteryAddress: string, root: string) {
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.setMerkleRoot(root)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+export async function addToWhitelist(signer: ethers.Signer, lotteryAddress: string, addresses: string[]) {
+  return updateWhitelist(signer, lotteryAddress, addresses, "addToWhitelist")
+}
+
+// 移除白名单地址，owner 或管理员可用
+export async function removeFromWhitelist(signer: ethers.Signer, lotteryAddress: string, addresses: string[]) {
+  return updateWhitelist(signer, lotteryAddress, addresses, "removeFromWhitelist")
+}
+
+// 取消抽奖：owner 可在无人参与时取消，开奖时间过后宽限期内仍无人参与时任何人都可以取消
+export async function cancelLottery(signer: ethers.Signer, lotteryAddress: string) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.cancelLottery()
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 抽奖取消后领取退款
+export async function withdrawRefund(signer: ethers.Signer, lotteryAddress: string) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.withdrawRefund()
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 查询地址可领取的退款金额，按计价代币单位格式化
+export async function getRefundAmount(provider: ethers.Provider, lotteryAddress: string, account: string) {
+  const instance = getLotteryInstanceContract(lotteryAddress, provider)
+  const { decimals } = await getLotteryToken(provider, lotteryAddress)
+  return ethers.formatUnits(await instance.getRefundAmount(account), decimals)
+}
+
+// 添加管理员，仅 owner 可用
+export async function addManager(signer: ethers.Signer, lotteryAddress: string, account: string) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  if (!ethers.isAddress(account)) throw new Error("管理员地址格式不正确")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.addManager(account)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 移除管理员，仅 owner 可用
+export async function removeManager(signer: ethers.Signer, lotteryAddress: string, account: string) {
   if (!lotteryAddress) throw new Error("抽奖合约地址无效")
   try {
     const instance = getLotteryInstanceContract(lotteryAddress, signer)
-    const tx = await instance.setDrawTime(newTime)
+    const tx = await instance.removeManager(account)
     await tx.wait()
     return tx
   } catch (error) {
@@ -859,4 +1517,96 @@ if (typeof window !== 'undefined') {
       return results;
     },
   };
-}
\ No newline at end of file
+}
+
+// 发起人佣金比例上限 (基点)，与合约中的 MAX_CREATOR_COMMISSION_BPS 一致
+export const MAX_CREATOR_COMMISSION_BPS = 2000
+
+// 按合约的计算方式拆分一笔奖金：平台费和佣金向下取整，其余归中奖者
+export function splitPrize(amount: string, decimals: number, platformFeeBps: number, creatorCommissionBps: number) {
+  const total = ethers.parseUnits(amount, decimals)
+  const platform = total * BigInt(platformFeeBps) / BigInt(PRIZE_TIER_TOTAL)
+  const creator = total * BigInt(creatorCommissionBps) / BigInt(PRIZE_TIER_TOTAL)
+  return {
+    winner: ethers.formatUnits(total - platform - creator, decimals),
+    creator: ethers.formatUnits(creator, decimals),
+    platform: ethers.formatUnits(platform, decimals),
+  }
+}
+
+// 发起人提取累计的佣金
+export async function withdrawCommission(signer: ethers.Signer, lotteryAddress: string) {
+  if (!lotteryAddress) throw new Error("抽奖合约地址无效")
+  try {
+    const instance = getLotteryInstanceContract(lotteryAddress, signer)
+    const tx = await instance.withdrawCommission()
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 查询工厂是否为新建的抽奖配置了随机数服务，逾期重新抽取的策略需要随机数服务
+export async function factoryUsesRandomnessProvider(provider: ethers.Provider) {
+  const factory = getLotteryFactoryContract(provider)
+  return (await factory.randomnessProvider()) !== ethers.ZeroAddress
+}
+
+// 获取平台费率、费率上限和工厂中累计的原生币平台收入
+export async function getPlatformFeeInfo(provider: ethers.Provider) {
+  const factory = getLotteryFactoryContract(provider)
+  const [feeBps, maxFeeBps, nativeRevenue] = await Promise.all([
+    factory.platformFeeBps(),
+    factory.MAX_PLATFORM_FEE_BPS(),
+    factory.getAddress().then(address => provider.getBalance(address)),
+  ])
+  return {
+    feeBps: Number(feeBps),
+    maxFeeBps: Number(maxFeeBps),
+    nativeRevenue: ethers.formatEther(nativeRevenue),
+  }
+}
+
+// 设置平台费率，仅工厂 owner 可用，只影响之后创建的抽奖
+export async function setPlatformFee(signer: ethers.Signer, feeBps: number) {
+  try {
+    const factory = getLotteryFactoryContract(signer)
+    const tx = await factory.setPlatformFee(feeBps)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 提取平台收入，tokenAddress 为零地址时提取原生币
+export async function withdrawPlatformRevenue(signer: ethers.Signer, tokenAddress: string, to: string) {
+  try {
+    const factory = getLotteryFactoryContract(signer)
+    const tx = await factory.withdrawPlatformRevenue(tokenAddress, to)
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
+
+// 查询平台是否已暂停
+export async function isPlatformPaused(provider: ethers.Provider): Promise<boolean> {
+  const factory = getLotteryFactoryContract(provider)
+  return Boolean(await factory.paused())
+}
+
+// 暂停或恢复平台，仅工厂 owner 可用
+// 暂停期间不能创建抽奖，所有抽奖不能参与和赞助；开奖、领奖和退款不受影响
+export async function setPlatformPaused(signer: ethers.Signer, paused: boolean) {
+  try {
+    const factory = getLotteryFactoryContract(signer)
+    const tx = paused ? await factory.pause() : await factory.unpause()
+    await tx.wait()
+    return tx
+  } catch (error) {
+    throw new Error(handleContractError(error))
+  }
+}
@@ -0,0 +1,96 @@
+import { ethers } from "ethers"
+import { parseAddressList } from "../utils/format"
+
+// Merkle 白名单：根写入抽奖合约，证明以 JSON 文件形式发布，参与者附带自己地址的证明调用 enterWithProof
+// 叶子和节点的哈希方式与合约及 OpenZeppelin MerkleProof 一致：
+// 叶子 = keccak256(keccak256(abi.encode(address)))，节点 = keccak256(两个子节点按大小排序后拼接)
+
+// 前端按此路径读取已发布的白名单文件，文件放在 lottery-dapp/public/allowlists/<抽奖ID>.json
+export const ALLOWLIST_BASE_PATH = "/allowlists"
+
+// 发布的白名单文件格式：根和每个地址 (校验和格式) 对应的证明
+export interface MerkleAllowlist {
+  root: string
+  proofs: Record<string, string[]>
+}
+
+// 计算地址对应的叶子
+export function merkleLeaf(account: string): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account])
+  return ethers.keccak256(ethers.keccak256(encoded))
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]))
+}
+
+/**
+ * 由地址列表构建 Merkle 白名单，重复地址只保留一个
+ * 每层节点数为奇数时最后一个节点直接进入上一层，对应的证明在这一层没有兄弟节点
+ * @param addresses 地址列表
+ * @returns 根和每个地址的证明
+ */
+export function buildMerkleAllowlist(addresses: string[]): MerkleAllowlist {
+  const accounts = Array.from(new Set(addresses.map(address => ethers.getAddress(address))))
+  if (accounts.length === 0) throw new Error("白名单不能为空")
+
+  // 叶子排序后建树，相同的地址列表总是得到相同的根
+  const leaves = accounts.map(account => ({ account, leaf: merkleLeaf(account) }))
+  leaves.sort((a, b) => (a.leaf.toLowerCase() < b.leaf.toLowerCase() ? -1 : 1))
+
+  const layers: string[][] = [leaves.map(item => item.leaf)]
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i])
+    }
+    layers.push(next)
+  }
+
+  const proofs: Record<string, string[]> = {}
+  leaves.forEach(({ account }, leafIndex) => {
+    const proof: string[] = []
+    let index = leafIndex
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1
+      if (sibling < layer.length) proof.push(layer[sibling])
+      index = Math.floor(index / 2)
+    }
+    proofs[account] = proof
+  })
+
+  return { root: layers[layers.length - 1][0], proofs }
+}
+
+/**
+ * 由 CSV 或每行一个地址的文本构建 Merkle 白名单，存在无效地址时报错
+ * @param input 地址文本，以逗号、分号、空白或换行分隔
+ */
+export function buildMerkleAllowlistFromText(input: string): MerkleAllowlist {
+  const { valid, invalid } = parseAddressList(input)
+  if (invalid.length > 0) {
+    throw new Error(`以下地址无效：${invalid.slice(0, 5).join("、")}${invalid.length > 5 ? " 等" : ""}`)
+  }
+  return buildMerkleAllowlist(valid)
+}
+
+// 本地校验证明，与合约中的 MerkleProof.verify 等价
+export function verifyMerkleProof(root: string, account: string, proof: string[]): boolean {
+  return proof.reduce((node, sibling) => hashPair(node, sibling), merkleLeaf(account)) === root
+}
+
+// 从已发布的白名单文件中读取某个地址的证明，文件不存在、根不匹配或地址不在名单中时返回 null
+export async function fetchMerkleProof(lotteryId: string, account: string, expectedRoot: string): Promise<string[] | null> {
+  const response = await fetch(`${ALLOWLIST_BASE_PATH}/${encodeURIComponent(lotteryId)}.json`)
+  if (!response.ok) return null
+
+  const allowlist: MerkleAllowlist = await response.json()
+  if (allowlist.root !== expectedRoot) {
+    console.warn(`白名单文件的根 ${allowlist.root} 与链上的 ${expectedRoot} 不一致`)
+    return null
+  }
+  return allowlist.proofs[ethers.getAddress(account)] || null
+}
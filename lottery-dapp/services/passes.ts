@@ -0,0 +1,76 @@
+import { ethers } from "ethers"
+
+// 入场凭证 (EIP-712)：私有抽奖的签发人在链下为指定地址签发一次性参与资格，参与者凭凭证调用 enterWithPass
+// 类型和域与 SimpleLottery 中的 EntryPass、hashEntryPass 一致
+
+export interface EntryPass {
+  lottery: string
+  entrant: string
+  expiry: number   // 过期时间 (秒)
+  nonce: string    // 随机 nonce，十进制字符串，每个凭证只能使用一次
+}
+
+// 导出的 JSON 文件中每一项为一个凭证及其签名
+export interface SignedEntryPass {
+  pass: EntryPass
+  signature: string
+}
+
+export const ENTRY_PASS_TYPES = {
+  EntryPass: [
+    { name: "lottery", type: "address" },
+    { name: "entrant", type: "address" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+}
+
+// 凭证的 EIP-712 域，verifyingContract 为抽奖实例地址
+export function entryPassDomain(chainId: bigint | number, lotteryAddress: string): ethers.TypedDataDomain {
+  return {
+    name: "SimpleLottery",
+    version: "1",
+    chainId,
+    verifyingContract: lotteryAddress,
+  }
+}
+
+/**
+ * 为一组地址签发入场凭证，签名者必须是抽奖设置的签发人
+ * @param signer 签发人
+ * @param lotteryAddress 抽奖实例地址
+ * @param entrants 参与者地址，重复地址各签发一张
+ * @param expiry 过期时间 (秒)
+ */
+export async function issueEntryPasses(
+  signer: ethers.Signer,
+  lotteryAddress: string,
+  entrants: string[],
+  expiry: number
+): Promise<SignedEntryPass[]> {
+  const { chainId } = await signer.provider!.getNetwork()
+  const domain = entryPassDomain(chainId, lotteryAddress)
+
+  const passes: SignedEntryPass[] = []
+  for (const entrant of entrants) {
+    const pass: EntryPass = {
+      lottery: ethers.getAddress(lotteryAddress),
+      entrant: ethers.getAddress(entrant),
+      expiry,
+      nonce: ethers.toBigInt(ethers.randomBytes(32)).toString(),
+    }
+    const signature = await signer.signTypedData(domain, ENTRY_PASS_TYPES, pass)
+    passes.push({ pass, signature })
+  }
+  return passes
+}
+
+// 从粘贴的 JSON 中找出属于某个地址的凭证：支持单个凭证或签发时导出的凭证数组
+export function findEntryPass(json: string, lotteryAddress: string, account: string): SignedEntryPass | null {
+  const parsed = JSON.parse(json)
+  const candidates: SignedEntryPass[] = Array.isArray(parsed) ? parsed : [parsed]
+  return candidates.find(item =>
+    item?.pass?.entrant?.toLowerCase() === account.toLowerCase() &&
+    item.pass.lottery?.toLowerCase() === lotteryAddress.toLowerCase()
+  ) || null
+}
@@ -0,0 +1,160 @@
+import { ethers } from "ethers"
+
+// 免 gas 参与 (ERC-2771 元交易)：用户签名 ForwardRequest，中继调用可信转发器 LotteryForwarder.execute 代付 gas
+// 转发器校验签名后把用户地址附加在调用数据末尾，抽奖合约据此识别真正的调用者
+// 类型和域与 OpenZeppelin ERC2771Forwarder 一致，域名为 "LotteryForwarder"、版本 "1"
+
+export const FORWARDER_ABI = [
+  "function nonces(address owner) view returns (uint256)",
+  "function verify((address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) view returns (bool)",
+  "function execute((address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) payable",
+]
+
+// 中继只代付这些参与函数，且不转发原生币
+const RELAYABLE_LOTTERY_ABI = [
+  "function enter(uint256 quantity)",
+  "function enterWithProof(uint256 quantity, bytes32[] proof)",
+  "function enterWithPass(uint256 quantity, (address lottery, address entrant, uint256 expiry, uint256 nonce) pass, bytes signature)",
+  "function factory() view returns (address)",
+  "function lotteryId() view returns (string)",
+  "function hasParticipated(address account) view returns (bool)",
+]
+
+const FACTORY_ABI = [
+  "function trustedForwarder() view returns (address)",
+  "function lotteryInstances(string lotteryId) view returns (address)",
+]
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+}
+
+// 正在提交的请求 (抽奖地址:用户地址)，同一地址的请求上链前不接受第二个，避免并发绕过首次参与的检查
+const pendingEntries = new Set<string>()
+
+// 签名后的请求有效期 (秒)
+export const FORWARD_REQUEST_TTL = 10 * 60
+
+// 提交给中继的请求，即 ERC2771Forwarder.execute 的参数；数值用十进制字符串以便 JSON 传输
+export interface ForwardRequestData {
+  from: string
+  to: string
+  value: string
+  gas: string
+  deadline: number
+  data: string
+  signature: string
+}
+
+// 转发器的 EIP-712 域，verifyingContract 为转发器地址
+export function forwarderDomain(chainId: bigint | number, forwarderAddress: string): ethers.TypedDataDomain {
+  return {
+    name: "LotteryForwarder",
+    version: "1",
+    chainId,
+    verifyingContract: forwarderAddress,
+  }
+}
+
+/**
+ * 用户为一次合约调用签名 ForwardRequest，不发送交易
+ * @param signer 用户
+ * @param forwarderAddress 可信转发器地址
+ * @param to 目标合约
+ * @param data 调用数据
+ * @param gas 目标调用所需的 gas，由中继随请求转发
+ */
+export async function signForwardRequest(
+  signer: ethers.Signer,
+  forwarderAddress: string,
+  to: string,
+  data: string,
+  gas: bigint
+): Promise<ForwardRequestData> {
+  const provider = signer.provider!
+  const forwarder = new ethers.Contract(forwarderAddress, FORWARDER_ABI, provider)
+  const from = await signer.getAddress()
+  const [{ chainId }, nonce, latestBlock] = await Promise.all([
+    provider.getNetwork(),
+    forwarder.nonces(from),
+    provider.getBlock("latest"),
+  ])
+
+  // 以链上时间计算截止时间，本地节点调整过时间时也能正常使用
+  const deadline = latestBlock!.timestamp + FORWARD_REQUEST_TTL
+  const message = { from, to, value: 0, gas, nonce, deadline, data }
+  const signature = await signer.signTypedData(forwarderDomain(chainId, forwarderAddress), FORWARD_REQUEST_TYPES, message)
+
+  return { from, to, value: "0", gas: gas.toString(), deadline, data, signature }
+}
+
+// 把签名后的请求交给中继，返回中继提交的交易哈希
+export async function sendToRelayer(relayerUrl: string, request: ForwardRequestData): Promise<string> {
+  const response = await fetch(relayerUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `中继请求失败 (${response.status})`)
+  }
+  return body.hash
+}
+
+/**
+ * 中继端：校验请求后由中继账户调用转发器提交，交易确认后返回交易哈希
+ * 只转发到本工厂创建的抽奖实例的参与函数，且不附带原生币，避免中继账户被用于任意调用
+ * 每个地址在每个抽奖的每一轮只代付首次参与且只买 1 张，加购彩票需要用户自己付 gas，避免中继账户被反复调用耗尽
+ * 提交前以用户身份模拟目标调用，失败时抛出合约的 revert 原因
+ * @param relayer 中继账户，支付 gas
+ * @param factoryAddress 工厂地址，转发器地址从工厂读取
+ * @param request 用户签名的请求
+ */
+export async function submitForwardRequest(
+  relayer: ethers.Signer,
+  factoryAddress: string,
+  request: ForwardRequestData
+): Promise<string> {
+  const provider = relayer.provider!
+  if (request.value !== "0") throw new Error("中继不转发原生币")
+
+  const lottery = new ethers.Contract(request.to, RELAYABLE_LOTTERY_ABI, provider)
+  const fragment = lottery.interface.getFunction(ethers.dataSlice(request.data, 0, 4))
+  if (!fragment || !fragment.name.startsWith("enter")) throw new Error("中继只代付参与抽奖的交易")
+
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider)
+  const lotteryFactory: string = await lottery.factory().catch(() => ethers.ZeroAddress)
+  if (lotteryFactory.toLowerCase() !== factoryAddress.toLowerCase() ||
+      (await factory.lotteryInstances(await lottery.lotteryId())).toLowerCase() !== request.to.toLowerCase()) {
+    throw new Error("目标合约不是本平台的抽奖")
+  }
+
+  const forwarder = new ethers.Contract(await factory.trustedForwarder(), FORWARDER_ABI, relayer)
+  if (!(await forwarder.verify(request))) throw new Error("签名无效或请求已过期")
+
+  // 三个参与函数的第一个参数都是购买数量，中继只代付 1 张彩票
+  const [quantity] = lottery.interface.decodeFunctionData(fragment, request.data)
+  if (quantity !== BigInt(1)) throw new Error("中继只代付购买 1 张彩票的参与")
+
+  const key = `${request.to}:${request.from}`.toLowerCase()
+  if (pendingEntries.has(key)) throw new Error("该地址的免 gas 参与正在处理中")
+  pendingEntries.add(key)
+  try {
+    if (await lottery.hasParticipated(request.from)) throw new Error("中继只代付每个地址在本轮的首次参与")
+    await provider.call({ from: request.from, to: request.to, data: request.data })
+    const tx = await forwarder.execute(request)
+    await tx.wait()
+    return tx.hash
+  } finally {
+    pendingEntries.delete(key)
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * 将二维数据转换为 CSV 文本，字段中的逗号、引号和换行会被转义
+ * 赞助留言等内容由用户填写，以 = + - @ 等开头的文本字段会被表格软件当作公式执行，这里加上 ' 前缀
+ * @param headers 表头
+ * @param rows 数据行
+ */
+export function toCsv(headers: string[], rows: (string | number)[][]): string {
+  const escape = (value: string | number) => {
+    const raw = String(value)
+    const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  return [headers, ...rows].map(row => row.map(escape).join(",")).join("\r\n")
+}
+
+/**
+ * 在浏览器中下载 CSV 文件，带 BOM 以便 Excel 正确识别中文
+ * @param filename 文件名
+ * @param csv CSV 文本
+ */
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -1,3 +1,5 @@
+import { ethers } from "ethers"
+
 /**
  * 格式化地址，显示前几位和后几位
  * @param address 完整地址
@@ -21,6 +23,30 @@ export function isValidAddress(address: string): boolean {
   return address !== '0x0000000000000000000000000000000000000000'
 }
 
+/**
+ * 解析批量输入的地址列表（逗号、空格或换行分隔），去重并区分无效地址
+ * @param input 原始文本，例如粘贴的内容或 CSV 文件
+ * @returns 校验和格式的有效地址和无效条目
+ */
+export function parseAddressList(input: string): { valid: string[]; invalid: string[] } {
+  const seen = new Set<string>()
+  const valid: string[] = []
+  const invalid: string[] = []
+
+  for (const entry of input.split(/[\s,;]+/).map(item => item.trim()).filter(Boolean)) {
+    if (!ethers.isAddress(entry) || !isValidAddress(entry)) {
+      invalid.push(entry)
+      continue
+    }
+    const address = ethers.getAddress(entry)
+    if (seen.has(address)) continue
+    seen.add(address)
+    valid.push(address)
+  }
+
+  return { valid, invalid }
+}
+
 /**
  * 格式化日期和时间
  * @param timestamp 时间戳（毫秒或秒）
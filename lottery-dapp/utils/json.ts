@@ -0,0 +1,14 @@
+/**
+ * 在浏览器中下载 JSON 文件
+ * @param filename 文件名
+ * @param data 要导出的数据，按两空格缩进格式化
+ */
+export function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,113 @@
+import { ethers, network } from "hardhat";
+import { JsonRpcProvider, Network } from "ethers";
+
+// 对比列表页读取抽奖摘要的两种方式：逐个读取实例 (旧实现) 与工厂的 getLotterySummaries 批量读取
+// 用法：先运行 npx hardhat node，再执行 npx hardhat run scripts/benchmark_summaries.ts --network localhost
+// 脚本会在该节点上部署工厂并创建测试抽奖，统计两种方式的 RPC 请求数和耗时
+// 环境变量：
+//   BENCH_LOTTERIES  创建并读取的抽奖数量，默认 12 (首页一页的数量)
+//   BENCH_RUNS       每种方式重复读取的次数，默认 10，取中位数
+
+interface Measurement {
+  requests: number;
+  elapsedMs: number;
+}
+
+// 新建一个不合并请求、不探测网络的 provider，并通过 debug 事件统计实际发出的 RPC 请求
+function countingProvider(url: string, chainId: bigint) {
+  const chain = Network.from(chainId);
+  const provider = new JsonRpcProvider(url, chain, { batchMaxCount: 1, staticNetwork: chain });
+  const counter = { requests: 0 };
+  provider.on("debug", (info: { action: string }) => {
+    if (info.action === "sendRpcPayload") counter.requests++;
+  });
+  return { provider, counter };
+}
+
+async function measure(
+  url: string,
+  chainId: bigint,
+  read: (provider: JsonRpcProvider) => Promise<unknown>
+): Promise<Measurement> {
+  const { provider, counter } = countingProvider(url, chainId);
+  const startedAt = performance.now();
+  await read(provider);
+  const elapsedMs = performance.now() - startedAt;
+  provider.destroy();
+  return { requests: counter.requests, elapsedMs };
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+async function main() {
+  if (!("url" in network.config)) {
+    throw new Error("请在 --network localhost 等 HTTP 网络上运行，进程内的 hardhat 网络没有 RPC 往返");
+  }
+  const url = network.config.url;
+  const count = Number(process.env.BENCH_LOTTERIES || 12);
+  const runs = Number(process.env.BENCH_RUNS || 10);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const forwarder = await (await ethers.getContractFactory("LotteryForwarder")).deploy();
+  const factory = await (await ethers.getContractFactory("LotteryFactory")).deploy(await forwarder.getAddress());
+  const drawTime = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+  for (let i = 0; i < count; i++) {
+    const config = {
+      entryFee: ethers.parseEther("0.01"),
+      drawTime,
+      seedCommitment: ethers.keccak256(ethers.id(`bench-${i}`)),
+      prizeTiers: [],
+      lotteryMode: 0,
+      whitelist: [],
+      maxTicketsPerAddress: 0,
+      token: ethers.ZeroAddress,
+      creatorCommissionBps: 0,
+      claimWindow: 0,
+      unclaimedPolicy: 0,
+      maxParticipants: 0,
+      minParticipants: 0,
+      merkleRoot: ethers.ZeroHash,
+      passSigner: ethers.ZeroAddress,
+    };
+    await (await factory.createLottery(`bench-${i}`, `Bench ${i}`, config, { value: ethers.parseEther("0.01") })).wait();
+  }
+  const factoryAddress = await factory.getAddress();
+  const ids: string[] = [...(await factory.getLotteryIds(0, count))];
+
+  // 旧实现：每个抽奖依次读取实例地址、详情和计价代币
+  const perInstance = async (provider: JsonRpcProvider) => {
+    const reader = factory.connect(provider);
+    for (const id of ids) {
+      const instance = (await ethers.getContractAt("SimpleLottery", await reader.getLotteryInstanceAddress(id))).connect(provider);
+      await instance.getLotteryDetails();
+      await instance.token();
+    }
+  };
+  // 新实现：一次调用取回整页摘要
+  const batched = async (provider: JsonRpcProvider) => {
+    await factory.connect(provider).getLotterySummaries(ids);
+  };
+
+  const results: Record<string, Measurement[]> = { perInstance: [], batched: [] };
+  for (let run = 0; run < runs; run++) {
+    results.perInstance.push(await measure(url, chainId, perInstance));
+    results.batched.push(await measure(url, chainId, batched));
+  }
+
+  console.log(`节点 ${url}，${count} 个抽奖，每种方式读取 ${runs} 次取中位数`);
+  for (const [name, measurements] of Object.entries(results)) {
+    const requests = median(measurements.map(m => m.requests));
+    const elapsedMs = median(measurements.map(m => m.elapsedMs));
+    console.log(`${name}: ${requests} 次 RPC 请求，耗时 ${elapsedMs.toFixed(1)}ms`);
+  }
+  console.log(`工厂地址 ${factoryAddress}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,34 @@
+import * as fs from "fs";
+import * as path from "path";
+import { buildMerkleAllowlistFromText } from "../lottery-dapp/services/merkle";
+
+// 由地址列表文件 (CSV 或每行一个地址) 生成 Merkle 白名单
+// 用法：npx ts-node scripts/build_allowlist.ts <地址文件> <抽奖ID>
+// 输出 lottery-dapp/public/allowlists/<抽奖ID>.json，前端参与时从该文件读取证明；
+// 打印的根在创建抽奖时填入，或由发起人/管理员调用 setMerkleRoot 设置
+function main() {
+  const [inputPath, lotteryId] = process.argv.slice(2);
+  if (!inputPath || !lotteryId) {
+    throw new Error("用法：npx ts-node scripts/build_allowlist.ts <地址文件> <抽奖ID>");
+  }
+
+  const allowlist = buildMerkleAllowlistFromText(fs.readFileSync(inputPath, "utf8"));
+
+  const outputDir = path.join(__dirname, "../lottery-dapp/public/allowlists");
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+  const outputPath = path.join(outputDir, `${lotteryId}.json`);
+  fs.writeFileSync(outputPath, JSON.stringify(allowlist, null, 2));
+
+  console.log("白名单地址数:", Object.keys(allowlist.proofs).length);
+  console.log("Merkle 根:", allowlist.root);
+  console.log("✅ 证明文件已写入:", outputPath);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
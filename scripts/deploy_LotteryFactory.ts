@@ -1,6 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { saveDeployment, DEPLOYMENTS_PATH } from "./deployments";
 
 // 复制ABI文件到前端目录的函数
 async function copyABIToFrontend() {
@@ -51,13 +52,20 @@ async function main() {
   const accountBalance = await deployer.provider.getBalance(deployer.address);
   console.log("账户余额:", ethers.formatEther(accountBalance), "ETH"); // 这里的 ETH 记得换成你链的代币符号
 
+  // 先部署可信转发器 (ERC-2771)，工厂和所有抽奖实例都信任它转发的元交易
+  const LotteryForwarder = await ethers.getContractFactory("LotteryForwarder");
+  const forwarder = await LotteryForwarder.deploy();
+  await forwarder.waitForDeployment();
+  const forwarderAddress = await forwarder.getAddress();
+  console.log("LotteryForwarder 合约部署完成, 地址是:", forwarderAddress);
+
   // 拿到 LotteryFactory 合约工厂，准备创建合约实例
   const LotteryFactory = await ethers.getContractFactory("LotteryFactory");
 
   // 开始部署 LotteryFactory 合约
   console.log("正在把 LotteryFactory 合约发到链上...");
-  // 部署 LotteryFactory 不需要构造函数参数
-  const lotteryFactory = await LotteryFactory.deploy();
+  // 构造函数参数为可信转发器地址
+  const lotteryFactory = await LotteryFactory.deploy(forwarderAddress);
 
   // 等待合约部署完成，拿到最终地址
   await lotteryFactory.waitForDeployment();
@@ -65,23 +73,76 @@ async function main() {
   const contractAddress = await lotteryFactory.getAddress();
   console.log("LotteryFactory 合约部署完成, 地址是:", contractAddress);
 
+  // 本地链没有真实的 VRF 服务，部署模拟协调器作为随机数服务
+  let randomnessProvider = ethers.ZeroAddress;
+  if (network.name === "hardhat" || network.name === "localhost") {
+    const MockVRFCoordinator = await ethers.getContractFactory("MockVRFCoordinator");
+    const coordinator = await MockVRFCoordinator.deploy();
+    await coordinator.waitForDeployment();
+
+    const coordinatorAddress = await coordinator.getAddress();
+    randomnessProvider = coordinatorAddress;
+    await (await lotteryFactory.setRandomnessProvider(coordinatorAddress)).wait();
+    console.log("MockVRFCoordinator 部署完成并设为随机数服务, 地址是:", coordinatorAddress);
+    console.log("本地开奖后调用 fulfillRandomnessWithBlockData(requestId) 完成随机数回调");
+  }
+
+  // 记录部署信息，Hardhat 任务 (lottery:*) 和开奖守护脚本按网络名读取
+  // 进程内的 hardhat 网络在脚本结束后即消失，不记录
+  if (network.name !== "hardhat") {
+    saveDeployment(network.name, {
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      factory: contractAddress,
+      forwarder: forwarderAddress,
+      randomnessProvider,
+      deployer: deployer.address,
+      deployedAt: new Date().toISOString(),
+    });
+    console.log("✅ 部署信息已写入:", DEPLOYMENTS_PATH);
+  }
+
   // 部署完成后，复制ABI文件到前端目录
   await copyABIToFrontend();
   
   // 创建或更新.env文件，保存合约地址
-  updateEnvFile(contractAddress);
+  // 本地链同时启用应用自带的中继接口，中继账户私钥需另行填写 RELAYER_PRIVATE_KEY
+  const isLocal = network.name === "hardhat" || network.name === "localhost";
+  updateEnvFile(contractAddress, isLocal ? {
+    NEXT_PUBLIC_RELAYER_URL: "/api/relay",
+    RELAYER_RPC_URL: "http://127.0.0.1:8545",
+  } : {});
 
   // 部署完成后，你可以通过这个 Factory 合约地址来创建新的抽奖实例
   console.log("现在你可以使用这个地址来创建新的抽奖场次了。");
 }
 
 // 更新前端.env文件的函数
-function updateEnvFile(contractAddress: string) {
+// 只替换脚本管理的变量，文件中的其他变量 (如手工填写的 RELAYER_PRIVATE_KEY) 和注释原样保留
+function updateEnvFile(contractAddress: string, extra: Record<string, string>) {
   try {
     const envPath = path.join(__dirname, "../lottery-dapp/.env.local");
-    const envContent = `NEXT_PUBLIC_LOTTERY_FACTORY_ADDRESS=${contractAddress}\n`;
+    const managed: Record<string, string> = { NEXT_PUBLIC_LOTTERY_FACTORY_ADDRESS: contractAddress, ...extra };
+    const lines = fs.existsSync(envPath) ? fs.readFileSync(envPath, "utf8").split("\n") : [];
+    if (lines.length > 0 && lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+
+    const written = new Set<string>();
+    const merged = lines.map((line) => {
+      const key = line.split("=")[0].trim();
+      if (!Object.keys(managed).includes(key)) {
+        return line;
+      }
+      written.add(key);
+      return `${key}=${managed[key]}`;
+    });
+    for (const [key, value] of Object.entries(managed)) {
+      if (!written.has(key)) {
+        merged.push(`${key}=${value}`);
+      }
+    }
     
-    fs.writeFileSync(envPath, envContent);
+    fs.writeFileSync(envPath, merged.map((line) => `${line}\n`).join(""));
     console.log("✅ 合约地址已写入前端环境变量文件:", envPath);
   } catch (error) {
     console.error("❌ 更新环境变量文件失败:", error);
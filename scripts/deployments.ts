@@ -0,0 +1,31 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// 部署脚本把各网络的合约地址写入 deployed-contracts.json (不纳入版本控制)，按网络名索引
+// Hardhat 任务和开奖守护脚本从这里读取工厂地址
+export const DEPLOYMENTS_PATH = path.join(__dirname, "../deployed-contracts.json");
+
+export interface Deployment {
+  chainId: number;
+  factory: string;
+  forwarder: string;
+  randomnessProvider: string;   // 本地链部署的模拟随机数服务，未设置时为零地址
+  deployer: string;
+  deployedAt: string;
+}
+
+export function readDeployments(): Record<string, Deployment> {
+  if (!fs.existsSync(DEPLOYMENTS_PATH)) return {};
+  return JSON.parse(fs.readFileSync(DEPLOYMENTS_PATH, "utf8"));
+}
+
+export function readDeployment(network: string): Deployment | undefined {
+  return readDeployments()[network];
+}
+
+// 写入某个网络的部署信息，保留其他网络的记录
+export function saveDeployment(network: string, deployment: Deployment) {
+  const deployments = readDeployments();
+  deployments[network] = deployment;
+  fs.writeFileSync(DEPLOYMENTS_PATH, JSON.stringify(deployments, null, 2) + "\n");
+}
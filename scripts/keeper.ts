@@ -0,0 +1,222 @@
+import { ethers, network } from "hardhat";
+import type { ContractTransactionResponse, Signer } from "ethers";
+import type { LotteryFactory } from "../typechain-types";
+import { readDeployment } from "./deployments";
+
+// 开奖守护进程：遍历工厂创建的全部抽奖，对 canDraw() 为真的抽奖调用 drawWinner()
+// 包括请求随机数 (或超时后重新请求)、发起人揭示超时或人数不足时取消抽奖
+// 用法：npx hardhat run scripts/keeper.ts --network moonbase
+// 环境变量：
+//   KEEPER_FACTORY_ADDRESS  工厂地址，未设置时使用部署脚本为当前网络记录的工厂
+//   KEEPER_DRY_RUN=1        只模拟开奖并输出结果，不发送交易
+//   KEEPER_INTERVAL         两轮检查之间的间隔 (秒)，未设置或为 0 时只执行一轮
+//   KEEPER_MAX_RETRIES      发送交易失败时的重试次数，默认 3
+// 日志为每行一个 JSON 对象，包含 time、level、event 和相关字段
+
+export interface KeeperLogEntry {
+  time: string;
+  level: "info" | "warn" | "error";
+  event: string;
+  [field: string]: unknown;
+}
+
+export interface KeeperOptions {
+  dryRun: boolean;
+  maxRetries: number;
+  retryDelayMs: number;    // 首次重试前的等待时间，之后按次数线性增加
+  pageSize: number;        // 分页读取抽奖 ID 的每页数量
+  logger: (entry: KeeperLogEntry) => void;
+}
+
+export interface KeeperResult {
+  checked: number;
+  drawn: string[];         // 已开奖 (模拟模式下为可以开奖) 的抽奖 ID
+  failed: string[];
+}
+
+// 默认输出到标准输出，错误输出到标准错误；bigint 转为十进制字符串
+export function printLogEntry(entry: KeeperLogEntry) {
+  const line = JSON.stringify(entry, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+  if (entry.level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const DEFAULT_KEEPER_OPTIONS: KeeperOptions = {
+  dryRun: false,
+  maxRetries: 3,
+  retryDelayMs: 5000,
+  pageSize: 100,
+  logger: printLogEntry,
+};
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function errorMessage(error: any): string {
+  return error?.reason || error?.shortMessage || error?.message || String(error);
+}
+
+// 合约 revert、余额不足等错误重试也不会成功，其余 (网络、nonce 冲突等) 可以重试
+function isRetryable(error: any): boolean {
+  return !["CALL_EXCEPTION", "INSUFFICIENT_FUNDS", "ACTION_REJECTED"].includes(error?.code);
+}
+
+function isNonceError(error: any): boolean {
+  return error?.code === "NONCE_EXPIRED" || /nonce/i.test(error?.message ?? "");
+}
+
+// 按创建顺序分页读取全部抽奖 ID，抽奖较多时避免 getAllLotteryIds 超出 RPC 的返回限制
+async function listLotteryIds(factory: LotteryFactory, pageSize: number): Promise<string[]> {
+  const count = Number(await factory.getLotteryCount());
+  const ids: string[] = [];
+  for (let offset = 0; offset < count; offset += pageSize) {
+    ids.push(...(await factory.getLotteryIds(offset, pageSize)));
+  }
+  return ids;
+}
+
+/**
+ * 执行一轮检查：对所有可以开奖的抽奖发送 drawWinner()，全部发送后再等待确认
+ * nonce 在本地递增，发送失败时从节点重新读取待确认的 nonce
+ * @param factory 工厂合约
+ * @param signer 守护进程账户，支付开奖的 gas
+ * @param options 运行参数
+ */
+export async function runKeeperPass(
+  factory: LotteryFactory,
+  signer: Signer,
+  options: KeeperOptions = DEFAULT_KEEPER_OPTIONS
+): Promise<KeeperResult> {
+  const log = (level: KeeperLogEntry["level"], event: string, fields: Record<string, unknown> = {}) =>
+    options.logger({ time: new Date().toISOString(), level, event, ...fields });
+
+  const provider = signer.provider!;
+  const keeper = await signer.getAddress();
+  let nonce = await provider.getTransactionCount(keeper, "pending");
+
+  const ids = await listLotteryIds(factory, options.pageSize);
+  const result: KeeperResult = { checked: ids.length, drawn: [], failed: [] };
+  const submitted: { lotteryId: string; tx: ContractTransactionResponse }[] = [];
+
+  for (const lotteryId of ids) {
+    const instance = await factory.getLotteryInstanceAddress(lotteryId);
+    const lottery = await ethers.getContractAt("SimpleLottery", instance, signer);
+
+    let due: boolean;
+    try {
+      due = await lottery.canDraw();
+    } catch (error) {
+      log("warn", "can_draw_failed", { lotteryId, instance, error: errorMessage(error) });
+      continue;
+    }
+    if (!due) continue;
+
+    if (options.dryRun) {
+      try {
+        await lottery.drawWinner.staticCall();
+        log("info", "draw_simulated", { lotteryId, instance });
+        result.drawn.push(lotteryId);
+      } catch (error) {
+        log("warn", "draw_simulation_failed", { lotteryId, instance, error: errorMessage(error) });
+        result.failed.push(lotteryId);
+      }
+      continue;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const tx = await lottery.drawWinner({ nonce });
+        nonce++;
+        log("info", "draw_submitted", { lotteryId, instance, txHash: tx.hash, nonce: tx.nonce, attempt });
+        submitted.push({ lotteryId, tx });
+        break;
+      } catch (error) {
+        if (isNonceError(error)) {
+          nonce = await provider.getTransactionCount(keeper, "pending");
+        }
+        if (!isRetryable(error) || attempt > options.maxRetries) {
+          log("error", "draw_failed", { lotteryId, instance, attempt, error: errorMessage(error) });
+          result.failed.push(lotteryId);
+          break;
+        }
+        log("warn", "draw_retry", { lotteryId, instance, attempt, error: errorMessage(error) });
+        await sleep(options.retryDelayMs * attempt);
+      }
+    }
+  }
+
+  for (const { lotteryId, tx } of submitted) {
+    try {
+      const receipt = await tx.wait();
+      log("info", "draw_confirmed", {
+        lotteryId,
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+      });
+      result.drawn.push(lotteryId);
+    } catch (error) {
+      log("error", "draw_reverted", { lotteryId, txHash: tx.hash, error: errorMessage(error) });
+      result.failed.push(lotteryId);
+    }
+  }
+
+  log("info", "pass_completed", {
+    checked: result.checked,
+    drawn: result.drawn.length,
+    failed: result.failed.length,
+    dryRun: options.dryRun,
+  });
+  return result;
+}
+
+async function main() {
+  const factoryAddress = process.env.KEEPER_FACTORY_ADDRESS || readDeployment(network.name)?.factory;
+  if (!factoryAddress) {
+    throw new Error(`未找到 ${network.name} 网络的部署信息，请先运行部署脚本或设置 KEEPER_FACTORY_ADDRESS`);
+  }
+  const options: KeeperOptions = {
+    ...DEFAULT_KEEPER_OPTIONS,
+    dryRun: process.env.KEEPER_DRY_RUN === "1" || process.env.KEEPER_DRY_RUN === "true",
+    maxRetries: Number(process.env.KEEPER_MAX_RETRIES ?? DEFAULT_KEEPER_OPTIONS.maxRetries),
+  };
+  const interval = Number(process.env.KEEPER_INTERVAL || 0);
+
+  const [signer] = await ethers.getSigners();
+  const factory = await ethers.getContractAt("LotteryFactory", factoryAddress, signer);
+  printLogEntry({
+    time: new Date().toISOString(),
+    level: "info",
+    event: "keeper_started",
+    network: network.name,
+    keeper: signer.address,
+    factory: factoryAddress,
+    dryRun: options.dryRun,
+    interval,
+  });
+
+  // 持续运行时单轮失败 (例如 RPC 暂时不可用) 只记录日志，下一轮继续
+  do {
+    try {
+      await runKeeperPass(factory, signer, options);
+    } catch (error) {
+      if (interval <= 0) throw error;
+      printLogEntry({ time: new Date().toISOString(), level: "error", event: "pass_failed", error: errorMessage(error) });
+    }
+    if (interval > 0) await sleep(interval * 1000);
+  } while (interval > 0);
+}
+
+// 作为 Hardhat 脚本运行时执行；测试中只导入 runKeeperPass
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,352 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionResponse } from "ethers";
+import { readDeployment } from "../scripts/deployments";
+
+// 抽奖运维任务：npx hardhat lottery:<命令> --network <网络> [参数]
+// 工厂地址默认读取部署脚本为当前网络记录的 deployed-contracts.json，也可以用 --factory 指定
+// 每个任务都支持 --json，以 JSON 输出结果 (金额为最小单位的十进制字符串)，便于脚本和 CI 使用
+
+const STATE_NAMES = ["Open", "Drawing", "Claimable", "Closed", "Cancelled"];
+const STATE_LABELS = ["开放参与", "开奖中", "可领奖", "已结束", "已取消"];
+const UNCLAIMED_POLICIES: Record<string, number> = { rollover: 0, return: 1, redraw: 2 };
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+interface TaskArgs {
+  factory?: string;
+  from: number;
+  json: boolean;
+}
+
+interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// 每个任务共用的参数：--factory、--from 和 --json
+function lotteryTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("factory", "工厂地址，默认读取部署脚本记录的地址")
+    .addOptionalParam("from", "发送交易或查询所用的账户序号", 0, types.int)
+    .addFlag("json", "以 JSON 输出结果");
+}
+
+async function getFactory(hre: HardhatRuntimeEnvironment, args: TaskArgs) {
+  const address = args.factory || readDeployment(hre.network.name)?.factory;
+  if (!address) {
+    throw new Error(`未找到 ${hre.network.name} 网络的部署信息，请先运行部署脚本或用 --factory 指定工厂地址`);
+  }
+  return hre.ethers.getContractAt("LotteryFactory", address, await getSigner(hre, args));
+}
+
+async function getSigner(hre: HardhatRuntimeEnvironment, args: TaskArgs) {
+  const signer = (await hre.ethers.getSigners())[args.from];
+  if (!signer) throw new Error(`账户序号 ${args.from} 不存在`);
+  return signer;
+}
+
+async function getLottery(hre: HardhatRuntimeEnvironment, args: TaskArgs & { id: string }) {
+  const factory = await getFactory(hre, args);
+  const address = await factory.getLotteryInstanceAddress(args.id);
+  if (address === hre.ethers.ZeroAddress) throw new Error(`抽奖 ${args.id} 不存在`);
+  return hre.ethers.getContractAt("SimpleLottery", address, await getSigner(hre, args));
+}
+
+async function getTokenInfo(hre: HardhatRuntimeEnvironment, token: string): Promise<TokenInfo> {
+  if (token === hre.ethers.ZeroAddress) {
+    return { address: token, symbol: "原生币", decimals: 18 };
+  }
+  const erc20 = new hre.ethers.Contract(token, ERC20_ABI, hre.ethers.provider);
+  const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()]);
+  return { address: token, symbol, decimals: Number(decimals) };
+}
+
+// 代币抽奖在付款前授权足够的额度
+async function ensureAllowance(hre: HardhatRuntimeEnvironment, args: TaskArgs, token: string, spender: string, amount: bigint) {
+  const signer = await getSigner(hre, args);
+  const erc20 = new hre.ethers.Contract(token, ERC20_ABI, signer);
+  if ((await erc20.allowance(signer.address, spender)) < amount) {
+    await (await erc20.approve(spender, amount)).wait();
+  }
+}
+
+function formatAmount(hre: HardhatRuntimeEnvironment, amount: bigint, token: TokenInfo) {
+  return `${hre.ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
+
+function formatTime(timestamp: bigint | number) {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// 时间参数支持 Unix 秒数或 ISO 8601 字符串
+function parseTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`无法解析的时间: ${value}`);
+  return Math.floor(ms / 1000);
+}
+
+function parseList(value?: string): string[] {
+  return value ? value.split(",").map(item => item.trim()).filter(Boolean) : [];
+}
+
+async function confirm(tx: ContractTransactionResponse) {
+  const receipt = await tx.wait();
+  return { txHash: tx.hash, blockNumber: receipt?.blockNumber };
+}
+
+// 按 --json 输出 JSON 或逐行输出可读文本，并把结果作为任务返回值
+function report<T extends Record<string, unknown>>(args: TaskArgs, result: T, lines: string[]): T {
+  if (args.json) {
+    console.log(JSON.stringify(result, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+  } else {
+    lines.forEach(line => console.log(line));
+  }
+  return result;
+}
+
+lotteryTask("lottery:create", "创建抽奖")
+  .addParam("id", "抽奖 ID")
+  .addParam("name", "抽奖名称")
+  .addParam("drawTime", "开奖时间，Unix 秒数或 ISO 8601")
+  .addOptionalParam("fee", "每张彩票的参与费用 (按计价币种的单位)", "0")
+  .addOptionalParam("token", "计价 ERC-20 代币地址，默认使用原生币")
+  .addOptionalParam("deposit", "初始奖池 (仅原生币抽奖)", "0")
+  .addOptionalParam("tiers", "各名次奖金比例 (基点，逗号分隔，合计 10000)")
+  .addOptionalParam("whitelist", "私有抽奖的白名单地址 (逗号分隔)，设置后为私有抽奖")
+  .addOptionalParam("maxTickets", "每个地址最多购买的彩票数，0 表示不限", 0, types.int)
+  .addOptionalParam("commissionBps", "发起人佣金比例 (基点)", 0, types.int)
+  .addOptionalParam("claimWindow", "领奖期限 (秒)，0 表示不限期", 0, types.int)
+  .addOptionalParam("unclaimedPolicy", "逾期未领奖金的处理：rollover、return 或 redraw", "rollover")
+  .addOptionalParam("maxParticipants", "参与人数上限，0 表示不限", 0, types.int)
+  .addOptionalParam("minParticipants", "开奖所需的最少参与人数，0 表示不限", 0, types.int)
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args);
+    const token = await getTokenInfo(hre, args.token || hre.ethers.ZeroAddress);
+    const deposit = hre.ethers.parseEther(args.deposit);
+    if (token.address !== hre.ethers.ZeroAddress && deposit > 0n) {
+      throw new Error("代币抽奖不接受原生币初始奖池，请在创建后用 lottery:sponsor 注入");
+    }
+    const unclaimedPolicy = UNCLAIMED_POLICIES[args.unclaimedPolicy];
+    if (unclaimedPolicy === undefined) throw new Error(`未知的逾期处理策略: ${args.unclaimedPolicy}`);
+
+    // 没有配置随机数服务时使用 commit-reveal 开奖，种子只在这里输出一次，开奖时用 --secret 揭示
+    const usesProvider = (await factory.randomnessProvider()) !== hre.ethers.ZeroAddress;
+    const secret = usesProvider ? null : hre.ethers.hexlify(hre.ethers.randomBytes(32));
+    const whitelist = parseList(args.whitelist);
+    const drawTime = parseTimestamp(args.drawTime);
+
+    const tx = await factory.createLottery(args.id, args.name, {
+      entryFee: hre.ethers.parseUnits(args.fee, token.decimals),
+      drawTime,
+      seedCommitment: secret ? hre.ethers.keccak256(secret) : hre.ethers.ZeroHash,
+      prizeTiers: parseList(args.tiers).map(Number),
+      lotteryMode: whitelist.length > 0 ? 1 : 0,
+      whitelist,
+      maxTicketsPerAddress: args.maxTickets,
+      token: token.address,
+      creatorCommissionBps: args.commissionBps,
+      claimWindow: args.claimWindow,
+      unclaimedPolicy,
+      maxParticipants: args.maxParticipants,
+      minParticipants: args.minParticipants,
+      merkleRoot: hre.ethers.ZeroHash,
+      passSigner: hre.ethers.ZeroAddress,
+    }, { value: deposit });
+    const confirmed = await confirm(tx);
+    const address = await factory.getLotteryInstanceAddress(args.id);
+
+    return report(args, { id: args.id, address, drawTime, seedSecret: secret, ...confirmed }, [
+      `✅ 抽奖 ${args.id} 已创建: ${address}`,
+      `开奖时间: ${formatTime(drawTime)}`,
+      secret
+        ? `开奖种子: ${secret}（请妥善保存，开奖时使用 lottery:draw --secret 揭示）`
+        : "开奖方式: 随机数服务",
+      `交易: ${confirmed.txHash}`,
+    ]);
+  });
+
+lotteryTask("lottery:list", "按创建顺序列出抽奖")
+  .addOptionalParam("offset", "起始位置", 0, types.int)
+  .addOptionalParam("limit", "数量", 20, types.int)
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args);
+    const total = await factory.getLotteryCount();
+    const ids = await factory.getLotteryIds(args.offset, args.limit);
+    const summaries = ids.length > 0 ? await factory.getLotterySummaries([...ids]) : [];
+
+    const tokens: Record<string, TokenInfo> = {};
+    const lotteries = [];
+    for (const summary of summaries) {
+      tokens[summary.token] ??= await getTokenInfo(hre, summary.token);
+      lotteries.push({
+        id: summary.id,
+        address: summary.instance,
+        name: summary.name,
+        state: STATE_NAMES[Number(summary.state)],
+        token: summary.token,
+        entryFee: summary.entryFee,
+        prizePool: summary.balance,
+        drawTime: Number(summary.drawTime),
+        participantCount: Number(summary.participantCount),
+        owner: summary.owner,
+      });
+    }
+
+    return report(args, { total: Number(total), offset: args.offset, lotteries }, [
+      `共 ${total} 个抽奖，显示 ${args.offset + 1} - ${args.offset + lotteries.length}`,
+      ...lotteries.map((lottery, i) => [
+        lottery.id,
+        lottery.name,
+        STATE_LABELS[Number(summaries[i].state)],
+        `参与 ${lottery.participantCount} 人`,
+        `奖池 ${formatAmount(hre, lottery.prizePool, tokens[lottery.token])}`,
+        `开奖 ${formatTime(lottery.drawTime)}`,
+      ].join("  ")),
+    ]);
+  });
+
+lotteryTask("lottery:show", "查看抽奖详情")
+  .addParam("id", "抽奖 ID")
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const token = await getTokenInfo(hre, await lottery.token());
+    const state = Number(await lottery.currentLotteryState());
+    const [winners, amounts, claimed] = await lottery.getWinners();
+    const result = {
+      id: args.id,
+      address: await lottery.getAddress(),
+      name: await lottery.lotteryName(),
+      owner: await lottery.owner(),
+      state: STATE_NAMES[state],
+      mode: Number(await lottery.lotteryMode()) === 1 ? "Private" : "Public",
+      token: token.address,
+      entryFee: await lottery.entryFee(),
+      prizePool: await lottery.getPrizePool(),
+      drawTime: Number(await lottery.drawTime()),
+      round: Number(await lottery.currentRound()),
+      participantCount: Number(await lottery.getParticipantCount()),
+      totalTickets: Number(await lottery.totalTickets()),
+      canDraw: await lottery.canDraw(),
+      claimDeadline: Number(await lottery.claimDeadline()),
+      winners: winners.map((winner, i) => ({ rank: i + 1, winner, amount: amounts[i], claimed: claimed[i] })),
+    };
+
+    return report(args, result, [
+      `${result.name} (${result.id})`,
+      `地址: ${result.address}`,
+      `发起人: ${result.owner}`,
+      `状态: ${STATE_LABELS[state]}${result.canDraw ? "（可以开奖）" : ""}，第 ${result.round} 轮，${result.mode === "Private" ? "私有" : "公开"}抽奖`,
+      `参与费用: ${formatAmount(hre, result.entryFee, token)}`,
+      `奖池: ${formatAmount(hre, result.prizePool, token)}`,
+      `开奖时间: ${formatTime(result.drawTime)}`,
+      `参与: ${result.participantCount} 人 / ${result.totalTickets} 张彩票`,
+      ...(result.claimDeadline > 0 ? [`领奖截止: ${formatTime(result.claimDeadline)}`] : []),
+      ...result.winners.map(item =>
+        `第 ${item.rank} 名: ${item.winner}  ${formatAmount(hre, item.amount, token)}  ${item.claimed ? "已领取" : "未领取"}`
+      ),
+    ]);
+  });
+
+lotteryTask("lottery:enter", "购买彩票参与抽奖")
+  .addParam("id", "抽奖 ID")
+  .addOptionalParam("quantity", "购买的彩票数", 1, types.int)
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const signer = await getSigner(hre, args);
+    const token = await lottery.token();
+    const cost = (await lottery.entryFee()) * BigInt(args.quantity);
+    const isNative = token === hre.ethers.ZeroAddress;
+    if (!isNative) {
+      await ensureAllowance(hre, args, token, await lottery.getAddress(), cost);
+    }
+    const confirmed = await confirm(await lottery.enter(args.quantity, { value: isNative ? cost : 0n }));
+    const tickets = await lottery.ticketsOf(signer.address);
+
+    return report(args, { id: args.id, account: signer.address, quantity: args.quantity, tickets, cost, ...confirmed }, [
+      `✅ ${signer.address} 购买了 ${args.quantity} 张彩票，共持有 ${tickets} 张`,
+      `交易: ${confirmed.txHash}`,
+    ]);
+  });
+
+lotteryTask("lottery:sponsor", "赞助奖池")
+  .addParam("id", "抽奖 ID")
+  .addParam("amount", "赞助金额 (按计价币种的单位)")
+  .addOptionalParam("memo", "赞助留言", "")
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const token = await getTokenInfo(hre, await lottery.token());
+    const amount = hre.ethers.parseUnits(args.amount, token.decimals);
+    let tx: ContractTransactionResponse;
+    if (token.address === hre.ethers.ZeroAddress) {
+      tx = await lottery.sponsorWithMemo(args.memo, { value: amount });
+    } else {
+      await ensureAllowance(hre, args, token.address, await lottery.getAddress(), amount);
+      tx = await lottery.sponsorToken(amount, args.memo);
+    }
+    const confirmed = await confirm(tx);
+    const prizePool = await lottery.getPrizePool();
+
+    return report(args, { id: args.id, amount, prizePool, ...confirmed }, [
+      `✅ 已赞助 ${formatAmount(hre, amount, token)}，奖池现为 ${formatAmount(hre, prizePool, token)}`,
+      `交易: ${confirmed.txHash}`,
+    ]);
+  });
+
+lotteryTask("lottery:draw", "开奖：提供 --secret 时由发起人揭示种子，否则调用 drawWinner")
+  .addParam("id", "抽奖 ID")
+  .addOptionalParam("secret", "创建时输出的开奖种子")
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const confirmed = await confirm(args.secret ? await lottery.revealAndDraw(args.secret) : await lottery.drawWinner());
+    const state = Number(await lottery.currentLotteryState());
+    const [winners] = await lottery.getWinners();
+
+    return report(args, { id: args.id, state: STATE_NAMES[state], winners, ...confirmed }, [
+      `抽奖 ${args.id} 当前状态: ${STATE_LABELS[state]}`,
+      ...(state === 1 ? ["已发起随机数请求，等待随机数服务回调"] : []),
+      ...winners.map((winner, i) => `第 ${i + 1} 名: ${winner}`),
+      `交易: ${confirmed.txHash}`,
+    ]);
+  });
+
+lotteryTask("lottery:claim", "中奖者领取奖金")
+  .addParam("id", "抽奖 ID")
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const token = await getTokenInfo(hre, await lottery.token());
+    const tx = await lottery.claimPrize();
+    const receipt = await tx.wait();
+    const claimedEvent = receipt?.logs
+      .map(log => lottery.interface.parseLog(log))
+      .find(parsed => parsed?.name === "PrizeClaimed");
+    const amount: bigint = claimedEvent?.args.prizeAmount ?? 0n;
+
+    return report(args, { id: args.id, amount, txHash: tx.hash, blockNumber: receipt?.blockNumber }, [
+      `✅ 已领取奖金 ${formatAmount(hre, amount, token)}`,
+      `交易: ${tx.hash}`,
+    ]);
+  });
+
+lotteryTask("lottery:set-draw-time", "修改开奖时间 (发起人或管理员)")
+  .addParam("id", "抽奖 ID")
+  .addParam("time", "新的开奖时间，Unix 秒数或 ISO 8601")
+  .addOptionalParam("reason", "修改原因", "")
+  .setAction(async (args, hre) => {
+    const lottery = await getLottery(hre, args);
+    const oldTime = Number(await lottery.drawTime());
+    const newTime = parseTimestamp(args.time);
+    const confirmed = await confirm(await lottery.setDrawTime(newTime, args.reason));
+
+    return report(args, { id: args.id, oldTime, newTime, ...confirmed }, [
+      `✅ 开奖时间已从 ${formatTime(oldTime)} 改为 ${formatTime(newTime)}`,
+      `交易: ${confirmed.txHash}`,
+    ]);
+  });
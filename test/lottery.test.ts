@@ -0,0 +1,2185 @@
+import {
+  time,
+  loadFixture,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LotteryFactory } from "../typechain-types";
+import { buildMerkleAllowlist, verifyMerkleProof } from "../lottery-dapp/services/merkle";
+import { issueEntryPasses, entryPassDomain, ENTRY_PASS_TYPES } from "../lottery-dapp/services/passes";
+import { signForwardRequest, submitForwardRequest } from "../lottery-dapp/services/relayer";
+import { toCsv } from "../lottery-dapp/utils/csv";
+import { runKeeperPass, DEFAULT_KEEPER_OPTIONS, KeeperLogEntry } from "../scripts/keeper";
+
+describe("SimpleLottery", function () {
+  const ONE_DAY_IN_SECS = 24 * 60 * 60;
+  const ENTRY_FEE = hre.ethers.parseEther("0.01");
+  const SEED_SECRET = hre.ethers.id("lottery-seed-secret");
+  const SEED_COMMITMENT = hre.ethers.keccak256(SEED_SECRET);
+  const PUBLIC = 0;
+  const PRIVATE = 1;
+
+  interface LotteryParams {
+    name: string;
+    entryFee: bigint;
+    drawTime: number;
+    seedCommitment: string;
+    prizeTiers: number[];
+    lotteryMode: number;
+    whitelist: string[];
+    maxTicketsPerAddress: number;
+    token: string;
+    creatorCommissionBps: number;
+    claimWindow: number;
+    unclaimedPolicy: number;
+    maxParticipants: number;
+    minParticipants: number;
+    merkleRoot: string;
+    passSigner: string;
+    deposit: bigint;
+  }
+
+  // 用默认参数调用 createLottery，overrides 覆盖个别参数
+  async function createLotteryTx(
+    factory: LotteryFactory,
+    lotteryId: string,
+    overrides: Partial<LotteryParams> = {}
+  ) {
+    const params: LotteryParams = {
+      name: "Test Lottery",
+      entryFee: ENTRY_FEE,
+      drawTime: (await time.latest()) + ONE_DAY_IN_SECS,
+      seedCommitment: SEED_COMMITMENT,
+      prizeTiers: [],
+      lotteryMode: PUBLIC,
+      whitelist: [],
+      maxTicketsPerAddress: 0,
+      token: hre.ethers.ZeroAddress,
+      creatorCommissionBps: 0,
+      claimWindow: 0,
+      unclaimedPolicy: 0,
+      maxParticipants: 0,
+      minParticipants: 0,
+      merkleRoot: hre.ethers.ZeroHash,
+      passSigner: hre.ethers.ZeroAddress,
+      deposit: 0n,
+      ...overrides,
+    };
+    const { name, deposit, ...config } = params;
+    return factory.createLottery(lotteryId, name, config, { value: deposit });
+  }
+
+  // 创建抽奖并返回实例合约和开奖时间
+  async function createLottery(
+    factory: LotteryFactory,
+    lotteryId: string,
+    overrides: Partial<LotteryParams> = {}
+  ) {
+    const drawTime = overrides.drawTime ?? (await time.latest()) + ONE_DAY_IN_SECS;
+    await createLotteryTx(factory, lotteryId, { ...overrides, drawTime });
+    const lottery = await hre.ethers.getContractAt(
+      "SimpleLottery",
+      await factory.getLotteryInstanceAddress(lotteryId)
+    );
+    return { lottery, drawTime };
+  }
+
+  // 部署工厂并创建一个抽奖实例
+  async function deployLotteryFixture() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+    const forwarder = await (await hre.ethers.getContractFactory("LotteryForwarder")).deploy();
+    const LotteryFactory = await hre.ethers.getContractFactory("LotteryFactory");
+    const factory = await LotteryFactory.deploy(await forwarder.getAddress());
+
+    const { lottery, drawTime } = await createLottery(factory, "lottery-1");
+
+    return { factory, forwarder, lottery, drawTime, owner, alice, bob, carol };
+  }
+
+  async function enteredLotteryFixture() {
+    const fixture = await deployLotteryFixture();
+    const { lottery, alice, bob, carol } = fixture;
+    for (const player of [alice, bob, carol]) {
+      await lottery.connect(player).enter(1, { value: ENTRY_FEE });
+    }
+    return fixture;
+  }
+
+  describe("Commit-reveal draw", function () {
+    it("Should store the seed commitment from creation", async function () {
+      const { lottery } = await loadFixture(deployLotteryFixture);
+
+      expect(await lottery.seedCommitment()).to.equal(SEED_COMMITMENT);
+    });
+
+    it("Should reject a lottery without a seed commitment", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        createLotteryTx(factory, "lottery-2", { seedCommitment: hre.ethers.ZeroHash })
+      ).to.be.revertedWith("必须提交随机种子承诺");
+    });
+
+    it("Should not reveal before the draw time", async function () {
+      const { lottery } = await loadFixture(enteredLotteryFixture);
+
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.be.revertedWith("未到开奖时间，无法开奖");
+    });
+
+    it("Should reject a secret that does not match the commitment", async function () {
+      const { lottery, drawTime } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      await expect(lottery.revealAndDraw(hre.ethers.id("wrong"))).to.be.revertedWith("种子与承诺不匹配");
+    });
+
+    it("Should only let the owner reveal", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      await expect(lottery.connect(alice).revealAndDraw(SEED_SECRET)).to.be.revertedWithCustomError(
+        lottery,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should draw a participant when the owner reveals", async function () {
+      const { lottery, drawTime, alice, bob, carol } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      await expect(lottery.revealAndDraw(SEED_SECRET))
+        .to.emit(lottery, "SeedRevealed")
+        .withArgs("lottery-1", SEED_SECRET);
+
+      expect([alice.address, bob.address, carol.address]).to.include(await lottery.winner());
+      expect(await lottery.getLotteryState()).to.equal(2);
+    });
+
+    it("Should cancel instead of drawing after the reveal timeout", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      expect(await lottery.canDraw()).to.equal(false);
+      await expect(lottery.connect(alice).drawWinner()).to.be.revertedWith("等待发起人揭示种子，暂不能取消抽奖");
+
+      await time.increaseTo(drawTime + Number(await lottery.REVEAL_TIMEOUT()));
+
+      // 超时后发起人也不能再揭示，避免其先观察结果再决定是否开奖
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.be.revertedWith("已超过揭示期限");
+      expect(await lottery.canDraw()).to.equal(true);
+      await expect(lottery.connect(alice).drawWinner())
+        .to.emit(lottery, "LotteryCancelled")
+        .and.not.to.emit(lottery, "WinnerDrawn");
+      expect(await lottery.getLotteryState()).to.equal(4);
+      await expect(lottery.connect(alice).withdrawRefund()).to.changeEtherBalance(alice, ENTRY_FEE);
+    });
+
+    it("Should not let a contract caller grind the outcome after the reveal timeout", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+      const grinder = await (await hre.ethers.getContractFactory("MockDrawGrinder")).deploy();
+      await grinder.enter(await lottery.getAddress(), 1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime + Number(await lottery.REVEAL_TIMEOUT()));
+
+      // 每个区块重试都不会产生中奖者，抽奖只会被取消
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(grinder.drawUnlessLosing(await lottery.getAddress())).to.be.revertedWith("未中奖");
+      }
+      expect(await lottery.getLotteryState()).to.equal(0);
+
+      await lottery.connect(alice).drawWinner();
+      expect(await lottery.getWinner()).to.equal(hre.ethers.ZeroAddress);
+      await expect(grinder.withdrawRefund(await lottery.getAddress())).to.changeEtherBalance(grinder, ENTRY_FEE);
+    });
+  });
+
+  describe("Randomness provider", function () {
+    // 工厂配置模拟 VRF 协调器后创建的抽奖走请求-回调开奖
+    async function vrfLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { factory, alice, bob, carol } = fixture;
+
+      const MockVRFCoordinator = await hre.ethers.getContractFactory("MockVRFCoordinator");
+      const coordinator = await MockVRFCoordinator.deploy();
+      await factory.setRandomnessProvider(await coordinator.getAddress());
+
+      const { lottery, drawTime } = await createLottery(factory, "vrf-lottery", {
+        seedCommitment: hre.ethers.ZeroHash,
+      });
+      for (const player of [alice, bob, carol]) {
+        await lottery.connect(player).enter(1, { value: ENTRY_FEE });
+      }
+
+      return { ...fixture, coordinator, lottery, drawTime };
+    }
+
+    it("Should only let the factory owner change the provider", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(factory.connect(alice).setRandomnessProvider(alice.address)).to.be.revertedWithCustomError(
+        factory,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should wait in Drawing until the provider calls back", async function () {
+      const { lottery, coordinator, drawTime, bob } = await loadFixture(vrfLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      expect(await lottery.canDraw()).to.equal(true);
+      await expect(lottery.drawWinner()).to.emit(lottery, "RandomnessRequested").withArgs("vrf-lottery", 1);
+      expect(await lottery.getLotteryState()).to.equal(1);
+      expect(await lottery.winner()).to.equal(hre.ethers.ZeroAddress);
+      await expect(lottery.drawWinner()).to.be.revertedWith("正在等待随机数回调");
+
+      // 随机数 1 对应第二个参与者
+      await expect(coordinator.fulfillRandomness(1, 1)).to.emit(lottery, "WinnerDrawn");
+      expect(await lottery.winner()).to.equal(bob.address);
+      expect(await lottery.getLotteryState()).to.equal(2);
+    });
+
+    it("Should reject callbacks that do not come from the provider", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(vrfLotteryFixture);
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+
+      await expect(lottery.connect(alice).rawFulfillRandomness(1, 1)).to.be.revertedWith("只有随机数服务可以回调");
+    });
+
+    it("Should allow a new request after the callback times out", async function () {
+      const { lottery, coordinator, drawTime } = await loadFixture(vrfLotteryFixture);
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+
+      await time.increase(Number(await lottery.RANDOMNESS_TIMEOUT()));
+      expect(await lottery.canDraw()).to.equal(true);
+      await expect(lottery.drawWinner()).to.emit(lottery, "RandomnessRequested").withArgs("vrf-lottery", 2);
+
+      // 旧请求的回调不再有效
+      await expect(coordinator.fulfillRandomness(1, 1)).to.be.revertedWith("随机数请求 ID 不匹配");
+      await expect(coordinator.fulfillRandomnessWithBlockData(2)).to.emit(lottery, "WinnerDrawn");
+    });
+
+    it("Should disable the commit-reveal path", async function () {
+      const { lottery, drawTime } = await loadFixture(vrfLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.be.revertedWith("该抽奖使用随机数服务开奖");
+    });
+  });
+
+  describe("Prize tiers", function () {
+    // 50% / 30% / 20% 三个名次，用模拟 VRF 控制随机数
+    async function tieredLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { factory, alice, bob, carol } = fixture;
+
+      const MockVRFCoordinator = await hre.ethers.getContractFactory("MockVRFCoordinator");
+      const coordinator = await MockVRFCoordinator.deploy();
+      await factory.setRandomnessProvider(await coordinator.getAddress());
+
+      const { lottery, drawTime } = await createLottery(factory, "tiered", {
+        seedCommitment: hre.ethers.ZeroHash,
+        prizeTiers: [5000, 3000, 2000],
+      });
+      for (const player of [alice, bob, carol]) {
+        await lottery.connect(player).enter(1, { value: ENTRY_FEE });
+      }
+
+      return { ...fixture, coordinator, lottery, drawTime };
+    }
+
+    it("Should default to a single winner taking the whole pool", async function () {
+      const { lottery } = await loadFixture(deployLotteryFixture);
+
+      expect(await lottery.getPrizeTiers()).to.deep.equal([10000n]);
+    });
+
+    it("Should reject tiers that do not add up to 100%", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        createLotteryTx(factory, "bad-tiers", { prizeTiers: [5000, 3000] })
+      ).to.be.revertedWith("奖项比例合计必须为100%");
+      await expect(
+        createLotteryTx(factory, "zero-tier", { prizeTiers: [10000, 0] })
+      ).to.be.revertedWith("奖项比例必须大于0");
+    });
+
+    it("Should draw distinct winners and let each claim their own share", async function () {
+      const { lottery, coordinator, drawTime, alice, bob, carol } = await loadFixture(tieredLotteryFixture);
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+      await coordinator.fulfillRandomness(1, 12345);
+
+      const [winnerList, amountList] = await lottery.getWinners();
+      expect(new Set(winnerList).size).to.equal(3);
+      expect(winnerList[0]).to.equal(await lottery.winner());
+
+      const pool = ENTRY_FEE * 3n;
+      expect(amountList).to.deep.equal([pool / 2n, (pool * 3n) / 10n, pool / 5n]);
+
+      const signers = [alice, bob, carol];
+      const byAddress = (address: string) => signers.find((s) => s.address === address)!;
+
+      await expect(lottery.connect(byAddress(winnerList[1])).claimPrize()).to.changeEtherBalance(
+        byAddress(winnerList[1]),
+        amountList[1]
+      );
+      await expect(lottery.connect(byAddress(winnerList[1])).claimPrize()).to.be.revertedWith("奖金已领取");
+      expect(await lottery.getLotteryState()).to.equal(2);
+
+      await lottery.connect(byAddress(winnerList[0])).claimPrize();
+      await lottery.connect(byAddress(winnerList[2])).claimPrize();
+      expect(await lottery.getLotteryState()).to.equal(3);
+      expect(await hre.ethers.provider.getBalance(await lottery.getAddress())).to.equal(0);
+    });
+
+    it("Should split the pool over the drawn tiers when there are fewer participants", async function () {
+      const { factory, coordinator, alice } = await loadFixture(tieredLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "tiered-small", {
+        seedCommitment: hre.ethers.ZeroHash,
+        prizeTiers: [5000, 3000, 2000],
+      });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+      await coordinator.fulfillRandomness(await lottery.randomnessRequestId(), 7);
+
+      const [winnerList, amountList] = await lottery.getWinners();
+      expect(winnerList).to.deep.equal([alice.address]);
+      expect(amountList).to.deep.equal([ENTRY_FEE]);
+    });
+  });
+
+  describe("Whitelist", function () {
+    async function privateLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { lottery } = await createLottery(fixture.factory, "private", {
+        lotteryMode: PRIVATE,
+        whitelist: [fixture.alice.address],
+      });
+      return { ...fixture, lottery };
+    }
+
+    it("Should let anyone enter a public lottery", async function () {
+      const { lottery, bob } = await loadFixture(deployLotteryFixture);
+
+      expect(await lottery.getLotteryMode()).to.equal(PUBLIC);
+      await expect(lottery.connect(bob).enter(1, { value: ENTRY_FEE })).to.emit(lottery, "EnteredLottery");
+      await expect(lottery.addToWhitelist([bob.address])).to.be.revertedWith("公开抽奖不需要白名单");
+    });
+
+    it("Should reject a whitelist on a public lottery", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        createLotteryTx(factory, "public-with-list", { whitelist: [alice.address] })
+      ).to.be.revertedWith("公开抽奖不需要白名单");
+    });
+
+    it("Should only let whitelisted addresses enter a private lottery", async function () {
+      const { lottery, alice, bob } = await loadFixture(privateLotteryFixture);
+
+      expect(await lottery.isInWhitelist(alice.address)).to.equal(true);
+      await expect(lottery.connect(bob).enter(1, { value: ENTRY_FEE })).to.be.revertedWith("您不在白名单中，无法参与");
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.emit(lottery, "EnteredLottery");
+    });
+
+    it("Should add and remove addresses, skipping duplicates", async function () {
+      const { lottery, alice, bob, carol } = await loadFixture(privateLotteryFixture);
+
+      await expect(lottery.addToWhitelist([alice.address, bob.address, bob.address]))
+        .to.emit(lottery, "WhitelistUpdated")
+        .withArgs(bob.address, true);
+      expect(await lottery.getWhitelistAddresses()).to.deep.equal([alice.address, bob.address]);
+
+      await expect(lottery.removeFromWhitelist([alice.address, carol.address]))
+        .to.emit(lottery, "WhitelistUpdated")
+        .withArgs(alice.address, false);
+      expect(await lottery.getWhitelistAddresses()).to.deep.equal([bob.address]);
+    });
+
+    it("Should only let the owner or a manager manage the whitelist", async function () {
+      const { lottery, alice } = await loadFixture(privateLotteryFixture);
+
+      await expect(lottery.connect(alice).addToWhitelist([alice.address])).to.be.revertedWith(
+        "只有发起人或管理员可以操作"
+      );
+      await expect(lottery.addToWhitelist([hre.ethers.ZeroAddress])).to.be.revertedWith("白名单地址无效");
+    });
+  });
+
+  describe("Managers", function () {
+    it("Should let the owner add and remove managers", async function () {
+      const { lottery, alice, bob } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.addManager(alice.address)).to.emit(lottery, "ManagerAdded").withArgs(alice.address);
+      await lottery.addManager(bob.address);
+      expect(await lottery.getManagers()).to.deep.equal([alice.address, bob.address]);
+      await expect(lottery.addManager(alice.address)).to.be.revertedWith("该地址已是管理员");
+
+      await expect(lottery.removeManager(alice.address)).to.emit(lottery, "ManagerRemoved").withArgs(alice.address);
+      expect(await lottery.isManager(alice.address)).to.equal(false);
+      await expect(lottery.removeManager(alice.address)).to.be.revertedWith("该地址不是管理员");
+    });
+
+    it("Should not let managers edit the manager list", async function () {
+      const { lottery, alice, bob } = await loadFixture(deployLotteryFixture);
+
+      await lottery.addManager(alice.address);
+      await expect(lottery.connect(alice).addManager(bob.address)).to.be.revertedWithCustomError(
+        lottery,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should let a manager change the draw time", async function () {
+      const { lottery, drawTime, alice, bob } = await loadFixture(deployLotteryFixture);
+      const newTime = drawTime + ONE_DAY_IN_SECS;
+
+      await expect(lottery.connect(bob).setDrawTime(newTime, "")).to.be.revertedWith("只有发起人或管理员可以操作");
+
+      await lottery.addManager(alice.address);
+      await expect(lottery.connect(alice).setDrawTime(newTime, "场地调整"))
+        .to.emit(lottery, "DrawTimeChanged")
+        .withArgs(drawTime, newTime);
+    });
+  });
+
+  describe("Sponsors", function () {
+    it("Should record each sponsorship and accumulate per sponsor", async function () {
+      const { lottery, alice, bob } = await loadFixture(deployLotteryFixture);
+      const amount = hre.ethers.parseEther("0.5");
+
+      await expect(lottery.connect(alice).sponsorWithMemo("加油", { value: amount }))
+        .to.emit(lottery, "SponsorReceived")
+        .withArgs(alice.address, amount);
+      await lottery.connect(bob).sponsor({ value: amount });
+      await lottery.connect(alice).sponsor({ value: amount });
+
+      const [sponsors, amounts] = await lottery.getSponsors();
+      expect(sponsors).to.deep.equal([alice.address, bob.address]);
+      expect(amounts).to.deep.equal([amount * 2n, amount]);
+      expect(await lottery.getSponsorAmount(alice.address)).to.equal(amount * 2n);
+
+      const records = await lottery.getSponsorships();
+      expect(records.length).to.equal(3);
+      expect(records[0].memo).to.equal("加油");
+      expect(records[0].timestamp).to.be.greaterThan(0);
+    });
+
+    it("Should reject an overlong memo", async function () {
+      const { lottery, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(
+        lottery.connect(alice).sponsorWithMemo("x".repeat(141), { value: ENTRY_FEE })
+      ).to.be.revertedWith("赞助留言过长");
+    });
+  });
+
+  describe("CSV export", function () {
+    it("Should neutralize cells that spreadsheets would run as formulas", function () {
+      const csv = toCsv(["赞助者", "留言"], [
+        ["0xabc", "=HYPERLINK(\"http://evil\",\"x\")"],
+        ["0xdef", "+1"],
+        ["0x123", "-1+1"],
+        ["0x456", "@SUM(A1)"],
+        ["0x789", "\tcmd"],
+        ["0x000", "加油"],
+        [1, -2],
+      ]);
+
+      expect(csv.split("\r\n")).to.deep.equal([
+        "赞助者,留言",
+        "0xabc,\"'=HYPERLINK(\"\"http://evil\"\",\"\"x\"\")\"",
+        "0xdef,'+1",
+        "0x123,'-1+1",
+        "0x456,'@SUM(A1)",
+        "0x789,'\tcmd",
+        "0x000,加油",
+        "1,-2",
+      ]);
+    });
+  });
+
+  describe("Draw time history", function () {
+    it("Should record every draw time change with its reason", async function () {
+      const { lottery, drawTime, owner } = await loadFixture(deployLotteryFixture);
+
+      await lottery.setDrawTime(drawTime + ONE_DAY_IN_SECS, "等待更多参与者");
+      await lottery.setDrawTime(drawTime + 2 * ONE_DAY_IN_SECS, "");
+
+      const history = await lottery.getDrawTimeHistory();
+      expect(history.length).to.equal(2);
+      expect(history[0].oldTime).to.equal(drawTime);
+      expect(history[0].newTime).to.equal(drawTime + ONE_DAY_IN_SECS);
+      expect(history[0].changedBy).to.equal(owner.address);
+      expect(history[0].reason).to.equal("等待更多参与者");
+      expect(history[1].oldTime).to.equal(drawTime + ONE_DAY_IN_SECS);
+      expect(history[1].changedAt).to.equal(await time.latest());
+    });
+
+    it("Should reject an overlong reason", async function () {
+      const { lottery, drawTime } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.setDrawTime(drawTime + ONE_DAY_IN_SECS, "x".repeat(141))).to.be.revertedWith(
+        "修改原因过长"
+      );
+    });
+  });
+
+  describe("Cancellation", function () {
+    const DEPOSIT = hre.ethers.parseEther("1");
+
+    async function fundedLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { lottery, drawTime } = await createLottery(fixture.factory, "funded", { deposit: DEPOSIT });
+      return { ...fixture, lottery, drawTime };
+    }
+
+    it("Should let the owner cancel before anyone enters and withdraw the deposit", async function () {
+      const { lottery, owner, alice } = await loadFixture(fundedLotteryFixture);
+      const sponsorship = hre.ethers.parseEther("0.2");
+      await lottery.connect(alice).sponsor({ value: sponsorship });
+
+      await expect(lottery.cancelLottery())
+        .to.emit(lottery, "LotteryCancelled")
+        .withArgs("funded", owner.address);
+      expect(await lottery.getLotteryState()).to.equal(4);
+
+      await expect(lottery.withdrawRefund()).to.changeEtherBalances([owner, lottery], [DEPOSIT, -DEPOSIT]);
+      await expect(lottery.connect(alice).withdrawRefund())
+        .to.emit(lottery, "RefundWithdrawn")
+        .withArgs(alice.address, sponsorship);
+      await expect(lottery.connect(alice).withdrawRefund()).to.be.revertedWith("没有可退款的金额");
+      expect(await hre.ethers.provider.getBalance(lottery)).to.equal(0);
+    });
+
+    it("Should not cancel once someone has entered", async function () {
+      const { lottery, alice } = await loadFixture(fundedLotteryFixture);
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+
+      await expect(lottery.cancelLottery()).to.be.revertedWith("已有人参与，无法取消");
+    });
+
+    it("Should let anyone cancel an empty lottery after the grace period", async function () {
+      const { lottery, drawTime, bob } = await loadFixture(fundedLotteryFixture);
+
+      await expect(lottery.connect(bob).cancelLottery()).to.be.revertedWith("只有发起人可以取消抽奖");
+
+      await time.increaseTo(drawTime + ONE_DAY_IN_SECS);
+      await expect(lottery.connect(bob).cancelLottery()).to.emit(lottery, "LotteryCancelled");
+      await expect(lottery.connect(bob).withdrawRefund()).to.be.revertedWith("没有可退款的金额");
+    });
+
+    it("Should only refund a cancelled lottery", async function () {
+      const { lottery } = await loadFixture(fundedLotteryFixture);
+
+      await expect(lottery.withdrawRefund()).to.be.revertedWith("抽奖未取消，无法退款");
+    });
+  });
+
+  describe("Minimal proxy clones", function () {
+    it("Should deploy instances as EIP-1167 clones of the implementation", async function () {
+      const { factory, lottery, owner } = await loadFixture(deployLotteryFixture);
+      const implementation = await factory.lotteryImplementation();
+      const code = await hre.ethers.provider.getCode(await lottery.getAddress());
+
+      // 最小代理的运行时代码固定为 45 字节，其中内嵌实现合约地址
+      expect(hre.ethers.dataLength(code)).to.equal(45);
+      expect(code.toLowerCase()).to.contain(implementation.slice(2).toLowerCase());
+      expect(await lottery.owner()).to.equal(owner.address);
+    });
+
+    it("Should not allow initializing the implementation or an instance twice", async function () {
+      const { factory, lottery, drawTime } = await loadFixture(deployLotteryFixture);
+      const implementation = await hre.ethers.getContractAt("SimpleLottery", await factory.lotteryImplementation());
+      const config = {
+        entryFee: ENTRY_FEE,
+        drawTime,
+        seedCommitment: SEED_COMMITMENT,
+        prizeTiers: [],
+        lotteryMode: PUBLIC,
+        whitelist: [],
+        maxTicketsPerAddress: 0,
+        token: hre.ethers.ZeroAddress,
+        creatorCommissionBps: 0,
+        claimWindow: 0,
+        unclaimedPolicy: 0,
+        maxParticipants: 0,
+        minParticipants: 0,
+        merkleRoot: hre.ethers.ZeroHash,
+        passSigner: hre.ethers.ZeroAddress,
+      };
+
+      for (const target of [implementation, lottery]) {
+        await expect(
+          target.initialize("again", "Again", config, hre.ethers.ZeroAddress, 0, hre.ethers.ZeroAddress)
+        ).to.be.revertedWithCustomError(target, "InvalidInitialization");
+      }
+    });
+
+    it("Should cost far less gas per create than deploying the full bytecode", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      const cloneReceipt = await (await createLotteryTx(factory, "clone-gas")).wait();
+      const SimpleLottery = await hre.ethers.getContractFactory("SimpleLottery");
+      const fullDeployReceipt = await (await SimpleLottery.deploy(hre.ethers.ZeroAddress, hre.ethers.ZeroAddress)).deploymentTransaction()!.wait();
+
+      const cloneGas = cloneReceipt!.gasUsed;
+      const fullDeployGas = fullDeployReceipt!.gasUsed;
+      // 完整部署还不包含初始化写入存储的开销，克隆方案的实际节省更多
+      console.log(`      createLottery (clone + initialize): ${cloneGas} gas`);
+      console.log(`      full SimpleLottery deployment only: ${fullDeployGas} gas`);
+      console.log(`      saved per create: at least ${fullDeployGas - cloneGas} gas`);
+      expect(cloneGas * 5n).to.be.lessThan(fullDeployGas);
+    });
+  });
+
+  describe("Tickets", function () {
+    it("Should let an address buy several tickets across purchases", async function () {
+      const { lottery, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.connect(alice).enter(3, { value: ENTRY_FEE * 3n }))
+        .to.emit(lottery, "TicketsPurchased")
+        .withArgs(alice.address, 3);
+      await lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n });
+
+      expect(await lottery.ticketsOf(alice.address)).to.equal(5);
+      expect(await lottery.totalTickets()).to.equal(5);
+      expect(await lottery.getParticipants()).to.deep.equal([alice.address]);
+      expect(await lottery.getTicketCounts()).to.deep.equal([5n]);
+    });
+
+    it("Should require the exact fee for the quantity", async function () {
+      const { lottery, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.connect(alice).enter(2, { value: ENTRY_FEE })).to.be.revertedWith("支付的入场费不正确");
+      await expect(lottery.connect(alice).enter(0, { value: 0 })).to.be.revertedWith("购买数量必须大于0");
+    });
+
+    it("Should enforce the per-address ticket cap", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const { lottery } = await createLottery(factory, "capped", { maxTicketsPerAddress: 3 });
+
+      await lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n });
+      await expect(lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n })).to.be.revertedWith(
+        "超过每个地址的购买上限"
+      );
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+    });
+
+    it("Should limit free lotteries without a cap to one ticket per purchase", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery } = await createLottery(factory, "free", { entryFee: 0n });
+
+      await expect(lottery.connect(alice).enter(hre.ethers.MaxUint256)).to.be.revertedWith("免费抽奖每次只能购买1张");
+      await expect(lottery.connect(alice).enter(2)).to.be.revertedWith("免费抽奖每次只能购买1张");
+
+      // 后续参与者不受影响
+      await lottery.connect(alice).enter(1);
+      await lottery.connect(bob).enter(1);
+      expect(await lottery.totalTickets()).to.equal(2);
+
+      // 设置了购买上限的免费抽奖仍可一次买多张
+      const { lottery: capped } = await createLottery(factory, "free-capped", { entryFee: 0n, maxTicketsPerAddress: 3 });
+      await capped.connect(alice).enter(3);
+      expect(await capped.ticketsOf(alice.address)).to.equal(3);
+    });
+
+    it("Should weight the draw by ticket count", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const coordinator = await (await hre.ethers.getContractFactory("MockVRFCoordinator")).deploy();
+      await factory.setRandomnessProvider(await coordinator.getAddress());
+      const { lottery, drawTime } = await createLottery(factory, "weighted", { seedCommitment: hre.ethers.ZeroHash });
+
+      // alice 持有 0 号彩票，bob 持有 1-3 号彩票，中奖彩票号 = 随机数 % 4
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await lottery.connect(bob).enter(3, { value: ENTRY_FEE * 3n });
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+
+      // 2 号彩票属于 bob；若按人数等概率抽取则会选中 alice
+      await coordinator.fulfillRandomness(await lottery.randomnessRequestId(), 2);
+      expect(await lottery.winner()).to.equal(bob.address);
+    });
+  });
+
+  describe("ERC-20 lotteries", function () {
+    const TOKEN_FEE = hre.ethers.parseUnits("10", 6);
+
+    // 部署 6 位小数的模拟代币，给参与者铸币并创建以该代币计价的抽奖
+    async function tokenLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { factory, alice, bob } = fixture;
+      const usdc = await (await hre.ethers.getContractFactory("MockERC20")).deploy("Mock USD", "mUSD", 6);
+      const { lottery, drawTime } = await createLottery(factory, "token-lottery", {
+        entryFee: TOKEN_FEE,
+        token: await usdc.getAddress(),
+      });
+      for (const player of [alice, bob]) {
+        await usdc.mint(player.address, TOKEN_FEE * 10n);
+        await usdc.connect(player).approve(await lottery.getAddress(), hre.ethers.MaxUint256);
+      }
+      return { ...fixture, usdc, tokenLottery: lottery, tokenDrawTime: drawTime };
+    }
+
+    it("Should collect entry fees and sponsorships in the token", async function () {
+      const { usdc, tokenLottery, alice, bob } = await loadFixture(tokenLotteryFixture);
+
+      expect(await tokenLottery.token()).to.equal(await usdc.getAddress());
+      await tokenLottery.connect(alice).enter(2);
+      await tokenLottery.connect(bob).sponsorToken(TOKEN_FEE, "赞助");
+
+      expect(await usdc.balanceOf(await tokenLottery.getAddress())).to.equal(TOKEN_FEE * 3n);
+      expect(await tokenLottery.getPrizePool()).to.equal(TOKEN_FEE * 3n);
+      expect(await tokenLottery.getSponsorAmount(bob.address)).to.equal(TOKEN_FEE);
+    });
+
+    it("Should reject native coin for token lotteries", async function () {
+      const { factory, usdc, tokenLottery, alice } = await loadFixture(tokenLotteryFixture);
+
+      await expect(tokenLottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith(
+        "代币抽奖不接受原生币"
+      );
+      await expect(tokenLottery.connect(alice).sponsor({ value: ENTRY_FEE })).to.be.revertedWith(
+        "代币抽奖不接受原生币"
+      );
+      await expect(
+        createLotteryTx(factory, "token-with-deposit", { token: await usdc.getAddress(), deposit: ENTRY_FEE })
+      ).to.be.revertedWith("代币抽奖不接受原生币");
+    });
+
+    it("Should revert when the allowance is insufficient", async function () {
+      const { usdc, tokenLottery, carol } = await loadFixture(tokenLotteryFixture);
+
+      await usdc.mint(carol.address, TOKEN_FEE);
+      await expect(tokenLottery.connect(carol).enter(1)).to.be.revertedWithCustomError(
+        usdc,
+        "ERC20InsufficientAllowance"
+      );
+    });
+
+    it("Should pay the prize in the token", async function () {
+      const { usdc, tokenLottery, tokenDrawTime, alice } = await loadFixture(tokenLotteryFixture);
+
+      await tokenLottery.connect(alice).enter(1);
+      await time.increaseTo(tokenDrawTime);
+      await tokenLottery.revealAndDraw(SEED_SECRET);
+
+      await expect(tokenLottery.connect(alice).claimPrize()).to.changeTokenBalances(
+        usdc,
+        [alice, tokenLottery],
+        [TOKEN_FEE, -TOKEN_FEE]
+      );
+    });
+
+    it("Should refund token payments after cancellation", async function () {
+      const { usdc, tokenLottery, bob } = await loadFixture(tokenLotteryFixture);
+
+      await tokenLottery.connect(bob).sponsorToken(TOKEN_FEE, "");
+      await tokenLottery.cancelLottery();
+
+      await expect(tokenLottery.connect(bob).withdrawRefund()).to.changeTokenBalance(usdc, bob, TOKEN_FEE);
+    });
+
+    it("Should reject token sponsorship on native lotteries", async function () {
+      const { lottery, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.connect(alice).sponsorToken(ENTRY_FEE, "")).to.be.revertedWith("该抽奖不使用代币");
+    });
+  });
+
+  describe("Fees", function () {
+    it("Should cap the platform fee and restrict it to the factory owner", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(factory.setPlatformFee(1001)).to.be.revertedWith("平台费率超过上限");
+      await expect(factory.connect(alice).setPlatformFee(100)).to.be.revertedWithCustomError(
+        factory,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(factory.setPlatformFee(500)).to.emit(factory, "PlatformFeeChanged").withArgs(0, 500);
+    });
+
+    it("Should cap the creator commission", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      await expect(createLotteryTx(factory, "greedy", { creatorCommissionBps: 2001 })).to.be.revertedWith(
+        "发起人佣金超过上限"
+      );
+    });
+
+    it("Should split platform fee and creator commission out of the prize at claim time", async function () {
+      const { factory, owner, alice, bob } = await loadFixture(deployLotteryFixture);
+      await factory.setPlatformFee(500);
+      const { lottery, drawTime } = await createLottery(factory, "with-fees", { creatorCommissionBps: 1000 });
+      // 费率在创建时锁定，之后修改不影响已创建的抽奖
+      await factory.setPlatformFee(0);
+
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+
+      const platformFee = (ENTRY_FEE * 500n) / 10000n;
+      const commission = (ENTRY_FEE * 1000n) / 10000n;
+      await expect(lottery.connect(alice).claimPrize()).to.changeEtherBalances(
+        [alice, factory, lottery],
+        // 佣金留在抽奖合约中等待发起人提取
+        [ENTRY_FEE - platformFee - commission, platformFee, -(ENTRY_FEE - commission)]
+      );
+      expect(await lottery.creatorCommissionBalance()).to.equal(commission);
+
+      await expect(lottery.connect(bob).withdrawCommission()).to.be.revertedWithCustomError(
+        lottery,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lottery.withdrawCommission()).to.changeEtherBalance(owner, commission);
+      await expect(lottery.withdrawCommission()).to.be.revertedWith("没有可提取的佣金");
+
+      await expect(factory.withdrawPlatformRevenue(hre.ethers.ZeroAddress, bob.address))
+        .to.emit(factory, "PlatformRevenueWithdrawn")
+        .withArgs(hre.ethers.ZeroAddress, bob.address, platformFee);
+      await expect(factory.withdrawPlatformRevenue(hre.ethers.ZeroAddress, bob.address)).to.be.revertedWith(
+        "没有可提取的平台收入"
+      );
+    });
+
+    it("Should pay token fees to the factory", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const usdc = await (await hre.ethers.getContractFactory("MockERC20")).deploy("Mock USD", "mUSD", 6);
+      const fee = hre.ethers.parseUnits("100", 6);
+      await factory.setPlatformFee(1000);
+      const { lottery, drawTime } = await createLottery(factory, "token-fees", {
+        entryFee: fee,
+        token: await usdc.getAddress(),
+      });
+
+      await usdc.mint(alice.address, fee);
+      await usdc.connect(alice).approve(await lottery.getAddress(), fee);
+      await lottery.connect(alice).enter(1);
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+
+      await expect(lottery.connect(alice).claimPrize()).to.changeTokenBalances(
+        usdc,
+        [alice, factory],
+        [fee - fee / 10n, fee / 10n]
+      );
+    });
+  });
+
+  describe("Pause", function () {
+    it("Should only let the factory owner pause and unpause", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(factory.connect(alice).pause()).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(factory.pause()).to.emit(factory, "Paused");
+      await expect(factory.connect(alice).unpause()).to.be.revertedWithCustomError(
+        factory,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(factory.unpause()).to.emit(factory, "Unpaused");
+    });
+
+    it("Should block creating, entering and sponsoring while paused", async function () {
+      const { factory, lottery, alice } = await loadFixture(deployLotteryFixture);
+      await factory.pause();
+
+      await expect(createLotteryTx(factory, "paused")).to.be.revertedWithCustomError(factory, "EnforcedPause");
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith("平台已暂停");
+      await expect(lottery.connect(alice).sponsor({ value: ENTRY_FEE })).to.be.revertedWith("平台已暂停");
+
+      await factory.unpause();
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+    });
+
+    it("Should reject direct transfers while paused", async function () {
+      const { factory, lottery, alice } = await loadFixture(deployLotteryFixture);
+      await factory.pause();
+
+      await expect(
+        alice.sendTransaction({ to: await lottery.getAddress(), value: ENTRY_FEE })
+      ).to.be.revertedWith("平台已暂停");
+
+      await factory.unpause();
+      await expect(
+        alice.sendTransaction({ to: await lottery.getAddress(), value: ENTRY_FEE })
+      ).to.changeEtherBalance(lottery, ENTRY_FEE);
+    });
+
+    it("Should keep draws, claims and refunds working while paused", async function () {
+      const { factory, lottery, drawTime, owner } = await loadFixture(enteredLotteryFixture);
+      const { lottery: funded } = await createLottery(factory, "funded-paused", { deposit: ENTRY_FEE });
+      await factory.pause();
+
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      const winner = await lottery.winner();
+      const signer = await hre.ethers.getSigner(winner);
+      await expect(lottery.connect(signer).claimPrize()).to.changeEtherBalance(signer, ENTRY_FEE * 3n);
+
+      await funded.cancelLottery();
+      await expect(funded.withdrawRefund()).to.changeEtherBalance(owner, ENTRY_FEE);
+    });
+  });
+
+  describe("Factory queries", function () {
+    it("Should index lotteries by creator", async function () {
+      const { factory, owner, alice } = await loadFixture(deployLotteryFixture);
+      await createLottery(factory.connect(alice), "alice-1");
+      await createLottery(factory, "owner-2");
+      await createLottery(factory.connect(alice), "alice-2");
+
+      expect(await factory.getUserCreatedLotteries(alice.address)).to.deep.equal(["alice-1", "alice-2"]);
+      expect(await factory.getUserCreatedLotteries(owner.address)).to.deep.equal(["lottery-1", "owner-2"]);
+    });
+
+    it("Should page through lottery ids", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+      for (const id of ["lottery-2", "lottery-3", "lottery-4"]) {
+        await createLottery(factory, id);
+      }
+
+      expect(await factory.getLotteryCount()).to.equal(4);
+      expect(await factory.getLotteryIds(0, 2)).to.deep.equal(["lottery-1", "lottery-2"]);
+      expect(await factory.getLotteryIds(2, 10)).to.deep.equal(["lottery-3", "lottery-4"]);
+      expect(await factory.getLotteryIds(4, 10)).to.deep.equal([]);
+    });
+
+
+    it("Should return summaries for a batch of ids", async function () {
+      const { factory, lottery, drawTime, owner } = await loadFixture(enteredLotteryFixture);
+      await createLottery(factory, "lottery-2", { deposit: ENTRY_FEE });
+
+      const [first, second, missing] = await factory.getLotterySummaries(["lottery-1", "lottery-2", "missing"]);
+      expect(first.id).to.equal("lottery-1");
+      expect(first.instance).to.equal(await lottery.getAddress());
+      expect(first.entryFee).to.equal(ENTRY_FEE);
+      expect(first.drawTime).to.equal(drawTime);
+      expect(first.balance).to.equal(ENTRY_FEE * 3n);
+      expect(first.state).to.equal(0);
+      expect(first.participantCount).to.equal(3);
+      expect(first.owner).to.equal(owner.address);
+      expect(first.token).to.equal(hre.ethers.ZeroAddress);
+
+      expect(second.balance).to.equal(ENTRY_FEE);
+      expect(second.participantCount).to.equal(0);
+
+      expect(missing.id).to.equal("missing");
+      expect(missing.instance).to.equal(hre.ethers.ZeroAddress);
+    });
+  });
+
+  describe("Participation index", function () {
+    it("Should record each lottery once per participant", async function () {
+      const { factory, lottery, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery: second } = await createLottery(factory, "lottery-2");
+
+      await lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await second.connect(alice).enter(1, { value: ENTRY_FEE });
+      await second.connect(bob).enter(1, { value: ENTRY_FEE });
+
+      expect(await factory.getUserParticipatedLotteries(alice.address)).to.deep.equal(["lottery-1", "lottery-2"]);
+      expect(await factory.getUserParticipatedLotteries(bob.address)).to.deep.equal(["lottery-2"]);
+    });
+
+    it("Should page through a participant's lotteries", async function () {
+      const { factory, lottery, alice } = await loadFixture(deployLotteryFixture);
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      for (const id of ["lottery-2", "lottery-3"]) {
+        const { lottery: next } = await createLottery(factory, id);
+        await next.connect(alice).enter(1, { value: ENTRY_FEE });
+      }
+
+      expect(await factory.getUserParticipatedCount(alice.address)).to.equal(3);
+      expect(await factory.getUserParticipatedLotteryIds(alice.address, 0, 2)).to.deep.equal(["lottery-1", "lottery-2"]);
+      expect(await factory.getUserParticipatedLotteryIds(alice.address, 2, 10)).to.deep.equal(["lottery-3"]);
+      expect(await factory.getUserParticipatedLotteryIds(alice.address, 3, 10)).to.deep.equal([]);
+    });
+
+    it("Should only accept participation records from its own lotteries", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      await expect(factory.connect(alice).recordParticipation(alice.address)).to.be.revertedWith(
+        "只有本工厂创建的抽奖可以记录参与"
+      );
+    });
+  });
+
+
+  describe("Rounds", function () {
+    const NEXT_SECRET = hre.ethers.id("next-round-secret");
+    const NEXT_COMMITMENT = hre.ethers.keccak256(NEXT_SECRET);
+
+    // 开奖并由中奖者领奖，使抽奖进入 Closed 状态
+    async function closedLotteryFixture() {
+      const fixture = await enteredLotteryFixture();
+      const { lottery, drawTime } = fixture;
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      const firstWinner = await lottery.winner();
+      await lottery.connect(await hre.ethers.getSigner(firstWinner)).claimPrize();
+      return { ...fixture, firstWinner };
+    }
+
+    it("Should archive each round's result and keep it after starting the next round", async function () {
+      const { factory, lottery, drawTime, firstWinner, alice, bob } = await loadFixture(closedLotteryFixture);
+      const nextDrawTime = (await time.latest()) + ONE_DAY_IN_SECS;
+
+      await expect(lottery.startNextRound(nextDrawTime, NEXT_COMMITMENT))
+        .to.emit(lottery, "RoundStarted")
+        .withArgs(2, nextDrawTime);
+      expect(await lottery.currentRound()).to.equal(2);
+      expect(await lottery.currentLotteryState()).to.equal(0);
+      expect(await lottery.getParticipants()).to.deep.equal([]);
+
+      const first = await lottery.getRoundResult(1);
+      expect(first.winner).to.equal(firstWinner);
+      expect(first.pool).to.equal(ENTRY_FEE * 3n);
+      expect(first.participantCount).to.equal(3);
+      expect(first.drawTime).to.equal(drawTime);
+
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await lottery.connect(bob).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(nextDrawTime);
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.be.revertedWith("种子与承诺不匹配");
+      await lottery.revealAndDraw(NEXT_SECRET);
+
+      const second = await lottery.getRoundResult(2);
+      expect(second.winner).to.equal(await lottery.winner());
+      expect(second.pool).to.equal(ENTRY_FEE * 2n);
+      expect(second.participantCount).to.equal(2);
+      expect((await lottery.getRoundResult(1)).winner).to.equal(firstWinner);
+
+      // 跨轮次重复参与只在工厂记录一次
+      expect(await factory.getUserParticipatedLotteries(alice.address)).to.deep.equal(["lottery-1"]);
+    });
+
+    it("Should only let the owner start the next round after the current one is closed", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+      const nextDrawTime = drawTime + ONE_DAY_IN_SECS;
+
+      await expect(lottery.startNextRound(nextDrawTime, NEXT_COMMITMENT)).to.be.revertedWith("抽奖未结束，无法重置");
+
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      await lottery.connect(await hre.ethers.getSigner(await lottery.winner())).claimPrize();
+
+      await expect(
+        lottery.connect(alice).startNextRound(nextDrawTime, NEXT_COMMITMENT)
+      ).to.be.revertedWithCustomError(lottery, "OwnableUnauthorizedAccount");
+      await expect(lottery.startNextRound(nextDrawTime, hre.ethers.ZeroHash)).to.be.revertedWith("必须提交随机种子承诺");
+      await expect(lottery.startNextRound(await time.latest(), NEXT_COMMITMENT)).to.be.revertedWith("开奖时间必须在未来");
+    });
+  });
+
+  describe("Claim deadline", function () {
+    const ROLLOVER = 0;
+    const RETURN_TO_OWNER = 1;
+    const REDRAW = 2;
+
+    // 创建一天领奖期限的抽奖，三人参与后开奖
+    // 重新抽取必须使用随机数服务，Redraw 策略的抽奖由模拟 VRF 协调器开奖，随机数 0 对应第一个参与者
+    async function drawnLotteryWithDeadline(unclaimedPolicy: number) {
+      const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+      const factory = await (await hre.ethers.getContractFactory("LotteryFactory")).deploy(hre.ethers.ZeroAddress);
+      const coordinator = await (await hre.ethers.getContractFactory("MockVRFCoordinator")).deploy();
+      const redraw = unclaimedPolicy === REDRAW;
+      if (redraw) {
+        await factory.setRandomnessProvider(await coordinator.getAddress());
+      }
+      const { lottery, drawTime } = await createLottery(factory, "lottery-1", {
+        claimWindow: ONE_DAY_IN_SECS,
+        unclaimedPolicy,
+        seedCommitment: redraw ? hre.ethers.ZeroHash : SEED_COMMITMENT,
+      });
+      for (const player of [alice, bob, carol]) {
+        await lottery.connect(player).enter(1, { value: ENTRY_FEE });
+      }
+      await time.increaseTo(drawTime);
+      if (redraw) {
+        await lottery.drawWinner();
+        await coordinator.fulfillRandomness(1, 0);
+      } else {
+        await lottery.revealAndDraw(SEED_SECRET);
+      }
+      const firstWinner = await hre.ethers.getSigner(await lottery.winner());
+      return { factory, coordinator, lottery, owner, alice, bob, carol, firstWinner };
+    }
+
+    it("Should reject claims after the deadline and settling before it", async function () {
+      const { lottery, firstWinner } = await drawnLotteryWithDeadline(ROLLOVER);
+      expect(await lottery.claimDeadline()).to.equal((await time.latest()) + ONE_DAY_IN_SECS);
+
+      await expect(lottery.settleUnclaimed()).to.be.revertedWith("未到领奖期限");
+      await time.increase(ONE_DAY_IN_SECS);
+      await expect(lottery.connect(firstWinner).claimPrize()).to.be.revertedWith("已超过领奖期限");
+    });
+
+    it("Should roll an unclaimed prize over into the next round", async function () {
+      const { lottery, alice } = await drawnLotteryWithDeadline(ROLLOVER);
+      await time.increase(ONE_DAY_IN_SECS);
+
+      await expect(lottery.connect(alice).settleUnclaimed())
+        .to.emit(lottery, "UnclaimedPrizesSettled")
+        .withArgs(ROLLOVER, ENTRY_FEE * 3n);
+      expect(await lottery.currentLotteryState()).to.equal(3);
+
+      const nextDrawTime = (await time.latest()) + ONE_DAY_IN_SECS;
+      const nextSecret = hre.ethers.id("next-round-secret");
+      await lottery.startNextRound(nextDrawTime, hre.ethers.keccak256(nextSecret));
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(nextDrawTime);
+      await lottery.revealAndDraw(nextSecret);
+
+      expect(await lottery.winner()).to.equal(alice.address);
+      expect(await lottery.prizeAmounts(0)).to.equal(ENTRY_FEE * 4n);
+    });
+
+    it("Should refund a rolled-over prize to the owner when the next round is cancelled", async function () {
+      const { lottery, owner, alice, bob } = await drawnLotteryWithDeadline(ROLLOVER);
+      await time.increase(ONE_DAY_IN_SECS);
+      await lottery.connect(alice).settleUnclaimed();
+
+      const sponsorship = hre.ethers.parseEther("0.2");
+      await lottery.startNextRound((await time.latest()) + ONE_DAY_IN_SECS, hre.ethers.keccak256(hre.ethers.id("next")));
+      expect(await lottery.creatorDeposit()).to.equal(ENTRY_FEE * 3n);
+      await lottery.connect(bob).sponsor({ value: sponsorship });
+      expect(await lottery.prizePool()).to.equal(ENTRY_FEE * 3n + sponsorship);
+      expect(await lottery.getPrizePool()).to.equal(ENTRY_FEE * 3n + sponsorship);
+
+      await lottery.cancelLottery();
+      expect(await lottery.getPrizePool()).to.equal(0);
+      expect(await lottery.getRefundAmount(alice.address)).to.equal(0);
+      await expect(lottery.withdrawRefund()).to.changeEtherBalance(owner, ENTRY_FEE * 3n);
+      await expect(lottery.connect(bob).withdrawRefund()).to.changeEtherBalance(bob, sponsorship);
+      expect(await hre.ethers.provider.getBalance(await lottery.getAddress())).to.equal(0);
+    });
+
+    it("Should only let the owner take back an unclaimed prize", async function () {
+      const { lottery, owner, alice } = await drawnLotteryWithDeadline(RETURN_TO_OWNER);
+      await time.increase(ONE_DAY_IN_SECS);
+
+      await expect(lottery.connect(alice).settleUnclaimed()).to.be.revertedWithCustomError(
+        lottery,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lottery.settleUnclaimed()).to.changeEtherBalances(
+        [lottery, owner],
+        [-ENTRY_FEE * 3n, ENTRY_FEE * 3n]
+      );
+      expect(await lottery.currentLotteryState()).to.equal(3);
+    });
+
+    it("Should require a randomness provider for the redraw policy", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      await expect(createLotteryTx(factory, "redraw", { unclaimedPolicy: REDRAW })).to.be.revertedWith(
+        "重新抽取需要使用随机数服务"
+      );
+    });
+
+    it("Should redraw an unclaimed prize among the other participants", async function () {
+      const { lottery, coordinator, bob, firstWinner } = await drawnLotteryWithDeadline(REDRAW);
+      await time.increase(ONE_DAY_IN_SECS);
+
+      // 重新抽取等待随机数服务回调，调用时不会选出新的中奖者
+      await expect(lottery.connect(bob).settleUnclaimed())
+        .to.emit(lottery, "RandomnessRequested")
+        .withArgs("lottery-1", 2)
+        .and.to.not.emit(lottery, "WinnerDrawn");
+      expect(await lottery.currentLotteryState()).to.equal(1);
+      expect(await lottery.redrawPending()).to.equal(true);
+      expect(await lottery.winner()).to.equal(firstWinner.address);
+      await expect(lottery.settleUnclaimed()).to.be.revertedWith("奖金当前不可领取");
+      await expect(lottery.connect(firstWinner).claimPrize()).to.be.revertedWith("奖金当前不可领取");
+
+      await expect(coordinator.fulfillRandomness(2, 0))
+        .to.emit(lottery, "UnclaimedPrizesSettled")
+        .withArgs(REDRAW, ENTRY_FEE * 3n);
+      expect(await lottery.redrawPending()).to.equal(false);
+      const newWinner = await hre.ethers.getSigner(await lottery.winner());
+      expect(newWinner.address).to.not.equal(firstWinner.address);
+      expect(await lottery.currentLotteryState()).to.equal(2);
+      expect(await lottery.claimDeadline()).to.equal((await time.latest()) + ONE_DAY_IN_SECS);
+      expect((await lottery.getRoundResult(1)).winner).to.equal(newWinner.address);
+
+      await expect(lottery.connect(firstWinner).claimPrize()).to.be.revertedWith("只有中奖者才能领取奖金");
+      await expect(lottery.connect(newWinner).claimPrize()).to.changeEtherBalance(newWinner, ENTRY_FEE * 3n);
+      expect(await lottery.currentLotteryState()).to.equal(3);
+    });
+
+    it("Should not redraw a winner who already forfeited the prize this round", async function () {
+      const { lottery, coordinator, alice, bob, carol } = await drawnLotteryWithDeadline(REDRAW);
+      expect(await lottery.winner()).to.equal(alice.address);
+
+      // alice 逾期未领，从 bob 和 carol 中重新抽取
+      await time.increase(ONE_DAY_IN_SECS);
+      await lottery.settleUnclaimed();
+      await coordinator.fulfillRandomness(2, 0);
+      const second = await lottery.winner();
+      const third = second === bob.address ? carol.address : bob.address;
+      expect([bob.address, carol.address]).to.include(second);
+
+      // 第二位中奖者也逾期未领；选一个在 alice 仍可抽取时会抽中她的随机数
+      let word = 0n;
+      while (BigInt(hre.ethers.solidityPackedKeccak256(["uint256", "uint256"], [word, 0])) % 2n !== 0n) word++;
+      await time.increase(ONE_DAY_IN_SECS);
+      await lottery.settleUnclaimed();
+      await coordinator.fulfillRandomness(3, word);
+      expect(await lottery.winner()).to.equal(third);
+
+      // 放弃过的参与者都不能再被抽中，没有可抽取的参与者时本轮结束
+      await time.increase(ONE_DAY_IN_SECS);
+      await lottery.settleUnclaimed();
+      await expect(coordinator.fulfillRandomness(4, 0)).to.not.emit(lottery, "WinnerDrawn");
+      expect(await lottery.winner()).to.equal(third);
+      expect(await lottery.currentLotteryState()).to.equal(3);
+    });
+
+    it("Should not let a contract caller grind the redraw", async function () {
+      const [, alice, bob] = await hre.ethers.getSigners();
+      const factory = await (await hre.ethers.getContractFactory("LotteryFactory")).deploy(hre.ethers.ZeroAddress);
+      const coordinator = await (await hre.ethers.getContractFactory("MockVRFCoordinator")).deploy();
+      await factory.setRandomnessProvider(await coordinator.getAddress());
+      const { lottery, drawTime } = await createLottery(factory, "grind", {
+        claimWindow: ONE_DAY_IN_SECS,
+        unclaimedPolicy: REDRAW,
+        seedCommitment: hre.ethers.ZeroHash,
+      });
+      const grinder = await (await hre.ethers.getContractFactory("MockDrawGrinder")).deploy();
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await lottery.connect(bob).enter(1, { value: ENTRY_FEE });
+      await grinder.enter(await lottery.getAddress(), 1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.drawWinner();
+      await coordinator.fulfillRandomness(1, 0);
+      expect(await lottery.winner()).to.equal(alice.address);
+      await time.increase(ONE_DAY_IN_SECS);
+
+      // 调用时还没有新的中奖者，合约无法根据结果决定是否 revert 重试
+      await expect(grinder.settleUnlessLosing(await lottery.getAddress())).to.be.revertedWith("未中奖");
+      await lottery.connect(bob).settleUnclaimed();
+      expect(await lottery.winner()).to.equal(alice.address);
+      expect(await lottery.currentLotteryState()).to.equal(1);
+    });
+  });
+
+  describe("Participant limits", function () {
+    it("Should reject new participants once the lottery is full", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery } = await createLottery(factory, "capped", { maxParticipants: 1 });
+
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await expect(lottery.connect(bob).enter(1, { value: ENTRY_FEE })).to.be.revertedWith("参与人数已满");
+      // 已参与的地址仍可继续购买彩票
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      expect(await lottery.ticketsOf(alice.address)).to.equal(2);
+    });
+
+    it("Should reject a minimum above the cap", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+      await expect(
+        createLotteryTx(factory, "invalid", { maxParticipants: 2, minParticipants: 3 })
+      ).to.be.revertedWith("最少参与人数不能超过人数上限");
+    });
+
+    it("Should cancel instead of drawing when the minimum is not met", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "threshold", { minParticipants: 3 });
+      await lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n });
+      await lottery.connect(bob).enter(1, { value: ENTRY_FEE });
+
+      expect(await lottery.canDraw()).to.equal(false);
+      await time.increaseTo(drawTime);
+      expect(await lottery.canDraw()).to.equal(true);
+
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.emit(lottery, "LotteryCancelled");
+      expect(await lottery.getLotteryState()).to.equal(4);
+      expect(await lottery.isDrawn()).to.equal(false);
+      await expect(lottery.connect(alice).withdrawRefund()).to.changeEtherBalance(alice, ENTRY_FEE * 2n);
+      await expect(lottery.connect(bob).withdrawRefund()).to.changeEtherBalance(bob, ENTRY_FEE);
+    });
+
+    it("Should let anyone cancel once the draw time passes below the minimum", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "threshold", { minParticipants: 2 });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+
+      await expect(lottery.connect(bob).drawWinner()).to.be.revertedWith("未到开奖时间，无法开奖");
+      await expect(lottery.connect(bob).cancelLottery()).to.be.revertedWith("已有人参与，无法取消");
+
+      await time.increaseTo(drawTime);
+      await expect(lottery.connect(bob).drawWinner())
+        .to.emit(lottery, "LotteryCancelled")
+        .withArgs("threshold", bob.address);
+      expect(await lottery.getLotteryState()).to.equal(4);
+    });
+
+    it("Should draw normally once the minimum is reached", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "threshold", { minParticipants: 2 });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await lottery.connect(bob).enter(1, { value: ENTRY_FEE });
+
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      expect(await lottery.getLotteryState()).to.equal(2);
+    });
+  });
+
+  describe("Merkle allowlist", function () {
+    // 奇数个地址，覆盖某一层节点没有兄弟节点的情况
+    async function merkleLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const signers = await hre.ethers.getSigners();
+      const members = signers.slice(1, 6);
+      const allowlist = buildMerkleAllowlist(members.map(member => member.address));
+      const { lottery } = await createLottery(fixture.factory, "merkle", {
+        lotteryMode: PRIVATE,
+        merkleRoot: allowlist.root,
+      });
+      return { ...fixture, lottery, members, outsider: signers[6], allowlist };
+    }
+
+    it("Should build the same root regardless of order and duplicates", async function () {
+      const { members, allowlist } = await loadFixture(merkleLotteryFixture);
+      const addresses = members.map(member => member.address);
+      const shuffled = buildMerkleAllowlist([...addresses].reverse().concat(addresses[0].toLowerCase()));
+
+      expect(shuffled.root).to.equal(allowlist.root);
+      for (const address of addresses) {
+        expect(verifyMerkleProof(allowlist.root, address, allowlist.proofs[address])).to.equal(true);
+      }
+    });
+
+    it("Should let every allowlisted address enter with its proof", async function () {
+      const { lottery, members, allowlist } = await loadFixture(merkleLotteryFixture);
+      expect(await lottery.merkleRoot()).to.equal(allowlist.root);
+
+      for (const member of members) {
+        await lottery.connect(member).enterWithProof(1, allowlist.proofs[member.address], { value: ENTRY_FEE });
+      }
+      expect(await lottery.getParticipantCount()).to.equal(members.length);
+    });
+
+    it("Should reject outsiders, borrowed proofs and plain entry", async function () {
+      const { lottery, members, outsider, allowlist } = await loadFixture(merkleLotteryFixture);
+      const proof = allowlist.proofs[members[0].address];
+
+      await expect(
+        lottery.connect(outsider).enterWithProof(1, proof, { value: ENTRY_FEE })
+      ).to.be.revertedWith("您不在白名单中，无法参与");
+      await expect(
+        lottery.connect(members[1]).enterWithProof(1, proof, { value: ENTRY_FEE })
+      ).to.be.revertedWith("您不在白名单中，无法参与");
+      await expect(lottery.connect(members[0]).enter(1, { value: ENTRY_FEE })).to.be.revertedWith(
+        "您不在白名单中，无法参与"
+      );
+    });
+
+    it("Should let the owner or a manager replace the root", async function () {
+      const { lottery, members, outsider } = await loadFixture(merkleLotteryFixture);
+      const updated = buildMerkleAllowlist([outsider.address]);
+
+      await expect(lottery.connect(members[0]).setMerkleRoot(updated.root)).to.be.revertedWith(
+        "只有发起人或管理员可以操作"
+      );
+      await expect(lottery.setMerkleRoot(updated.root)).to.emit(lottery, "MerkleRootUpdated").withArgs(updated.root);
+      await lottery.connect(outsider).enterWithProof(1, updated.proofs[outsider.address], { value: ENTRY_FEE });
+      expect(await lottery.hasParticipated(outsider.address)).to.equal(true);
+    });
+
+    it("Should reject a Merkle root on a public lottery", async function () {
+      const { factory, allowlist } = await loadFixture(merkleLotteryFixture);
+      await expect(
+        createLotteryTx(factory, "public-merkle", { merkleRoot: allowlist.root })
+      ).to.be.revertedWith("公开抽奖不需要白名单");
+    });
+  });
+
+  describe("Entry passes", function () {
+    // 发起人作为凭证签发人的私有抽奖
+    async function passLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { lottery } = await createLottery(fixture.factory, "gated", {
+        lotteryMode: PRIVATE,
+        passSigner: fixture.owner.address,
+      });
+      const expiry = (await time.latest()) + ONE_DAY_IN_SECS;
+      return { ...fixture, lottery, expiry };
+    }
+
+    it("Should hash passes the same way as the TypeScript issuer", async function () {
+      const { lottery, alice, expiry } = await loadFixture(passLotteryFixture);
+      const [{ pass }] = await issueEntryPasses(alice, await lottery.getAddress(), [alice.address], expiry);
+      const domain = entryPassDomain((await hre.ethers.provider.getNetwork()).chainId, await lottery.getAddress());
+
+      expect(await lottery.hashEntryPass(pass)).to.equal(hre.ethers.TypedDataEncoder.hash(domain, ENTRY_PASS_TYPES, pass));
+    });
+
+    it("Should let the holder enter once with a signed pass", async function () {
+      const { lottery, owner, alice, expiry } = await loadFixture(passLotteryFixture);
+      const [{ pass, signature }] = await issueEntryPasses(owner, await lottery.getAddress(), [alice.address], expiry);
+
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith("您不在白名单中，无法参与");
+      await expect(lottery.connect(alice).enterWithPass(1, pass, signature, { value: ENTRY_FEE }))
+        .to.emit(lottery, "PassUsed")
+        .withArgs(alice.address, pass.nonce);
+      expect(await lottery.hasParticipated(alice.address)).to.equal(true);
+
+      // 同一凭证不能重复使用
+      await expect(
+        lottery.connect(alice).enterWithPass(1, pass, signature, { value: ENTRY_FEE })
+      ).to.be.revertedWith("入场凭证已使用");
+    });
+
+    it("Should reject expired passes", async function () {
+      const { lottery, owner, alice, expiry } = await loadFixture(passLotteryFixture);
+      const [{ pass, signature }] = await issueEntryPasses(owner, await lottery.getAddress(), [alice.address], expiry);
+
+      await time.increaseTo(expiry + 1);
+      await expect(
+        lottery.connect(alice).enterWithPass(1, pass, signature, { value: ENTRY_FEE })
+      ).to.be.revertedWith("入场凭证已过期");
+    });
+
+    it("Should reject passes for another entrant, another lottery or another signer", async function () {
+      const { factory, lottery, owner, alice, bob, expiry } = await loadFixture(passLotteryFixture);
+      const lotteryAddress = await lottery.getAddress();
+      const [forAlice] = await issueEntryPasses(owner, lotteryAddress, [alice.address], expiry);
+      const [forged] = await issueEntryPasses(bob, lotteryAddress, [bob.address], expiry);
+      const { lottery: other } = await createLottery(factory, "other-gated", {
+        lotteryMode: PRIVATE,
+        passSigner: owner.address,
+      });
+      const [elsewhere] = await issueEntryPasses(owner, await other.getAddress(), [alice.address], expiry);
+
+      for (const [entrant, { pass, signature }] of [
+        [bob, forAlice],
+        [bob, forged],
+        [alice, elsewhere],
+      ] as const) {
+        await expect(
+          lottery.connect(entrant).enterWithPass(1, pass, signature, { value: ENTRY_FEE })
+        ).to.be.revertedWith("入场凭证无效");
+      }
+    });
+
+    it("Should invalidate outstanding passes when the owner changes the signer", async function () {
+      const { lottery, owner, alice, bob, expiry } = await loadFixture(passLotteryFixture);
+      const [{ pass, signature }] = await issueEntryPasses(owner, await lottery.getAddress(), [alice.address], expiry);
+
+      await expect(lottery.connect(alice).setPassSigner(alice.address)).to.be.revertedWithCustomError(
+        lottery,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lottery.setPassSigner(bob.address)).to.emit(lottery, "PassSignerUpdated").withArgs(bob.address);
+      await expect(
+        lottery.connect(alice).enterWithPass(1, pass, signature, { value: ENTRY_FEE })
+      ).to.be.revertedWith("入场凭证无效");
+    });
+  });
+
+  describe("Gasless entry", function () {
+    // 免费参与、带初始奖池的抽奖，carol 作为中继代付 gas
+    async function freeLotteryFixture() {
+      const fixture = await deployLotteryFixture();
+      const { lottery, drawTime } = await createLottery(fixture.factory, "free-giveaway", {
+        entryFee: 0n,
+        deposit: hre.ethers.parseEther("1"),
+      });
+      return { ...fixture, paidLottery: fixture.lottery, lottery, drawTime };
+    }
+
+    // 用户为一次抽奖调用签名 ForwardRequest
+    async function signLotteryCall(
+      signer: Awaited<ReturnType<typeof hre.ethers.getSigner>>,
+      forwarderAddress: string,
+      lottery: Awaited<ReturnType<typeof createLottery>>["lottery"],
+      data: string
+    ) {
+      return signForwardRequest(signer, forwarderAddress, await lottery.getAddress(), data, 500_000n);
+    }
+
+    it("Should record the signer, not the relayer, as the participant", async function () {
+      const { factory, forwarder, lottery, alice, carol } = await loadFixture(freeLotteryFixture);
+      const entry = lottery.interface.encodeFunctionData("enter", [1]);
+      const request = await signLotteryCall(alice, await forwarder.getAddress(), lottery, entry);
+      const balanceBefore = await hre.ethers.provider.getBalance(alice.address);
+
+      await submitForwardRequest(carol, await factory.getAddress(), request);
+
+      expect(await lottery.ticketsOf(alice.address)).to.equal(1);
+      expect(await lottery.getParticipants()).to.deep.equal([alice.address]);
+      expect(await factory.getUserParticipatedLotteries(alice.address)).to.deep.equal(["free-giveaway"]);
+      expect(await hre.ethers.provider.getBalance(alice.address)).to.equal(balanceBefore);
+
+      // 同一签名不能被重放
+      await expect(submitForwardRequest(carol, await factory.getAddress(), request)).to.be.rejectedWith(
+        "签名无效或请求已过期"
+      );
+    });
+
+    it("Should pass the signer through to owner checks and the draw module", async function () {
+      const { factory, forwarder, lottery, drawTime, owner, alice, bob, carol } = await loadFixture(freeLotteryFixture);
+      const forwarderAddress = await forwarder.getAddress();
+      expect(await lottery.trustedForwarder()).to.equal(forwarderAddress);
+      expect(await factory.trustedForwarder()).to.equal(forwarderAddress);
+
+      await submitForwardRequest(
+        carol,
+        await factory.getAddress(),
+        await signLotteryCall(alice, forwarderAddress, lottery, lottery.interface.encodeFunctionData("enter", [1]))
+      );
+      const addManager = lottery.interface.encodeFunctionData("addManager", [bob.address]);
+      await forwarder.connect(carol).execute(await signLotteryCall(owner, forwarderAddress, lottery, addManager));
+      expect(await lottery.isManager(bob.address)).to.equal(true);
+
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      expect(await lottery.winner()).to.equal(alice.address);
+
+      // 领奖在开奖逻辑模块中执行，奖金发给签名的中奖者而不是中继
+      const claim = await signLotteryCall(alice, forwarderAddress, lottery, lottery.interface.encodeFunctionData("claimPrize"));
+      await expect(forwarder.connect(carol).execute(claim)).to.changeEtherBalance(alice, hre.ethers.parseEther("1"));
+    });
+
+    it("Should only relay an address's first entry in each round", async function () {
+      const { factory, forwarder, lottery, alice, carol } = await loadFixture(freeLotteryFixture);
+      const factoryAddress = await factory.getAddress();
+      const forwarderAddress = await forwarder.getAddress();
+      const entry = lottery.interface.encodeFunctionData("enter", [1]);
+
+      await submitForwardRequest(carol, factoryAddress, await signLotteryCall(alice, forwarderAddress, lottery, entry));
+      const again = await signLotteryCall(alice, forwarderAddress, lottery, entry);
+      await expect(submitForwardRequest(carol, factoryAddress, again)).to.be.rejectedWith(
+        "中继只代付每个地址在本轮的首次参与"
+      );
+
+      // 用户自己付 gas 仍可加购
+      await lottery.connect(alice).enter(1);
+      expect(await lottery.ticketsOf(alice.address)).to.equal(2);
+    });
+
+    it("Should only relay entries that buy a single ticket", async function () {
+      const { factory, forwarder, alice, carol } = await loadFixture(freeLotteryFixture);
+      const factoryAddress = await factory.getAddress();
+      const { lottery } = await createLottery(factory, "free-capped", { entryFee: 0n, maxTicketsPerAddress: 3 });
+
+      const bulk = await signLotteryCall(
+        alice,
+        await forwarder.getAddress(),
+        lottery,
+        lottery.interface.encodeFunctionData("enter", [3])
+      );
+      await expect(submitForwardRequest(carol, factoryAddress, bulk)).to.be.rejectedWith("中继只代付购买 1 张彩票的参与");
+      expect(await lottery.hasParticipated(alice.address)).to.equal(false);
+    });
+
+    it("Should refuse to relay anything but entries to the platform's lotteries", async function () {
+      const { factory, forwarder, lottery, paidLottery, alice, carol } = await loadFixture(freeLotteryFixture);
+      const factoryAddress = await factory.getAddress();
+      const forwarderAddress = await forwarder.getAddress();
+
+      const claim = await signLotteryCall(alice, forwarderAddress, lottery, lottery.interface.encodeFunctionData("claimPrize"));
+      await expect(submitForwardRequest(carol, factoryAddress, claim)).to.be.rejectedWith("中继只代付参与抽奖的交易");
+
+      // 其他工厂创建的抽奖即使信任同一个转发器也不代付
+      const otherFactory = await (await hre.ethers.getContractFactory("LotteryFactory")).deploy(forwarderAddress);
+      const { lottery: foreign } = await createLottery(otherFactory, "foreign", { entryFee: 0n });
+      const foreignEntry = await signLotteryCall(
+        alice,
+        forwarderAddress,
+        foreign,
+        foreign.interface.encodeFunctionData("enter", [1])
+      );
+      await expect(submitForwardRequest(carol, factoryAddress, foreignEntry)).to.be.rejectedWith("目标合约不是本平台的抽奖");
+
+      // 篡改过的请求签名无效
+      const entry = await signLotteryCall(alice, forwarderAddress, lottery, lottery.interface.encodeFunctionData("enter", [1]));
+      const tampered = { ...entry, data: lottery.interface.encodeFunctionData("enter", [5]) };
+      await expect(submitForwardRequest(carol, factoryAddress, tampered)).to.be.rejectedWith("签名无效或请求已过期");
+
+      // 中继不代付入场费，付费抽奖的参与在模拟时即失败
+      const paidEntry = await signLotteryCall(
+        alice,
+        forwarderAddress,
+        paidLottery,
+        paidLottery.interface.encodeFunctionData("enter", [1])
+      );
+      await expect(submitForwardRequest(carol, factoryAddress, paidEntry)).to.be.rejectedWith("支付的入场费不正确");
+      expect(await lottery.hasParticipated(alice.address)).to.equal(false);
+    });
+
+    it("Should ignore appended senders when no forwarder is trusted", async function () {
+      const { alice, bob } = await loadFixture(deployLotteryFixture);
+      const factory = await (await hre.ethers.getContractFactory("LotteryFactory")).deploy(hre.ethers.ZeroAddress);
+      const { lottery } = await createLottery(factory, "no-forwarder", { entryFee: 0n });
+
+      // 末尾附加他人地址的调用仍按 msg.sender 记录
+      const data = hre.ethers.concat([lottery.interface.encodeFunctionData("enter", [1]), bob.address]);
+      await alice.sendTransaction({ to: await lottery.getAddress(), data });
+      expect(await lottery.getParticipants()).to.deep.equal([alice.address]);
+    });
+  });
+
+  describe("Keeper", function () {
+    // 三个抽奖：已过揭示期限的 due、尚未到开奖时间的 later、人数不足的 short
+    async function keeperFixture() {
+      const fixture = await deployLotteryFixture();
+      const { factory, alice, bob } = fixture;
+      const { lottery: due, drawTime } = await createLottery(factory, "due");
+      const { lottery: later } = await createLottery(factory, "later", { drawTime: drawTime + 10 * ONE_DAY_IN_SECS });
+      const { lottery: short } = await createLottery(factory, "short", { drawTime, minParticipants: 3 });
+      for (const lottery of [due, later, short]) {
+        await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      }
+      await due.connect(bob).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime + ONE_DAY_IN_SECS);
+      return { ...fixture, due, later, short };
+    }
+
+    function keeperOptions(logs: KeeperLogEntry[], dryRun = false) {
+      return {
+        ...DEFAULT_KEEPER_OPTIONS,
+        dryRun,
+        retryDelayMs: 0,
+        pageSize: 2,
+        logger: (entry: KeeperLogEntry) => logs.push(entry),
+      };
+    }
+
+    it("Should draw or cancel every due lottery and skip the rest", async function () {
+      const { factory, due, later, short, carol } = await loadFixture(keeperFixture);
+      const logs: KeeperLogEntry[] = [];
+
+      const result = await runKeeperPass(factory, carol, keeperOptions(logs));
+
+      expect(result).to.deep.equal({ checked: 4, drawn: ["due", "short"], failed: [] });
+      // 发起人超时未揭示种子的抽奖被取消
+      expect(await due.currentLotteryState()).to.equal(4);
+      expect(await short.currentLotteryState()).to.equal(4);
+      expect(await later.currentLotteryState()).to.equal(0);
+
+      // 两笔交易使用连续的 nonce，日志为结构化对象
+      const submitted = logs.filter(entry => entry.event === "draw_submitted");
+      expect(submitted.map(entry => entry.nonce)).to.deep.equal([0, 1]);
+      expect(logs[logs.length - 1]).to.include({ level: "info", event: "pass_completed", drawn: 2, failed: 0 });
+
+      // 再执行一轮没有需要开奖的抽奖
+      expect((await runKeeperPass(factory, carol, keeperOptions([]))).drawn).to.deep.equal([]);
+    });
+
+    it("Should only simulate draws in dry-run mode", async function () {
+      const { factory, due, short, carol } = await loadFixture(keeperFixture);
+      const logs: KeeperLogEntry[] = [];
+
+      const result = await runKeeperPass(factory, carol, keeperOptions(logs, true));
+
+      expect(result.drawn).to.deep.equal(["due", "short"]);
+      expect(logs.filter(entry => entry.event === "draw_simulated")).to.have.length(2);
+      expect(await hre.ethers.provider.getTransactionCount(carol.address)).to.equal(0);
+      expect(await due.currentLotteryState()).to.equal(0);
+      expect(await short.currentLotteryState()).to.equal(0);
+    });
+  });
+
+  describe("Hardhat tasks", function () {
+    // 以 --json 运行任务，屏蔽控制台输出并返回解析后的 JSON
+    async function runTask(name: string, args: Record<string, unknown>) {
+      const printed: string[] = [];
+      const log = console.log;
+      console.log = (line: string) => printed.push(line);
+      try {
+        await hre.run(name, { ...args, json: true });
+      } finally {
+        console.log = log;
+      }
+      return JSON.parse(printed.join("\n"));
+    }
+
+    it("Should run a lottery from creation to claim through the tasks", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const common = { factory: await factory.getAddress() };
+      const drawTime = (await time.latest()) + ONE_DAY_IN_SECS;
+
+      const created = await runTask("lottery:create", {
+        ...common,
+        id: "ops",
+        name: "Ops Lottery",
+        fee: "0.01",
+        deposit: "1",
+        drawTime: String(drawTime),
+      });
+      expect(created.address).to.equal(await factory.getLotteryInstanceAddress("ops"));
+      expect(created.seedSecret).to.match(/^0x[0-9a-f]{64}$/);
+
+      const entered = await runTask("lottery:enter", { ...common, id: "ops", quantity: 2, from: 1 });
+      expect(entered).to.include({ account: alice.address, tickets: "2", cost: hre.ethers.parseEther("0.02").toString() });
+
+      const sponsored = await runTask("lottery:sponsor", { ...common, id: "ops", amount: "0.5", from: 2 });
+      expect(sponsored.prizePool).to.equal(hre.ethers.parseEther("1.52").toString());
+
+      const rescheduled = await runTask("lottery:set-draw-time", { ...common, id: "ops", time: String(drawTime + 60) });
+      expect(rescheduled).to.include({ oldTime: drawTime, newTime: drawTime + 60 });
+
+      const listed = await runTask("lottery:list", { ...common });
+      expect(listed.total).to.equal(2);
+      expect(listed.lotteries.map((lottery: { id: string }) => lottery.id)).to.deep.equal(["lottery-1", "ops"]);
+
+      await time.increaseTo(drawTime + 60);
+      const drawn = await runTask("lottery:draw", { ...common, id: "ops", secret: created.seedSecret });
+      expect(drawn).to.deep.include({ state: "Claimable", winners: [alice.address] });
+
+      const claimed = await runTask("lottery:claim", { ...common, id: "ops", from: 1 });
+      expect(claimed.amount).to.equal(hre.ethers.parseEther("1.52").toString());
+
+      const shown = await runTask("lottery:show", { ...common, id: "ops" });
+      expect(shown).to.include({ state: "Closed", participantCount: 1, totalTickets: 2 });
+      expect(shown.winners).to.deep.equal([
+        { rank: 1, winner: alice.address, amount: hre.ethers.parseEther("1.52").toString(), claimed: true },
+      ]);
+    });
+
+    it("Should reject unknown lotteries and networks without a deployment", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      await expect(runTask("lottery:show", { factory: await factory.getAddress(), id: "missing" }))
+        .to.be.rejectedWith("抽奖 missing 不存在");
+      await expect(runTask("lottery:list", {})).to.be.rejectedWith("未找到 hardhat 网络的部署信息");
+    });
+  });
+
+  describe("Initialization", function () {
+    it("Should initialise the instance with the creation parameters", async function () {
+      const { factory, lottery, drawTime, owner } = await loadFixture(deployLotteryFixture);
+
+      expect(await lottery.lotteryId()).to.equal("lottery-1");
+      expect(await lottery.lotteryName()).to.equal("Test Lottery");
+      expect(await lottery.owner()).to.equal(owner.address);
+      expect(await lottery.factory()).to.equal(await factory.getAddress());
+      expect(await lottery.entryFee()).to.equal(ENTRY_FEE);
+      expect(await lottery.drawTime()).to.equal(drawTime);
+      expect(await lottery.getLotteryMode()).to.equal(PUBLIC);
+      expect(await lottery.getLotteryState()).to.equal(0);
+      expect(await lottery.currentRound()).to.equal(1);
+      expect(await lottery.isDrawn()).to.equal(false);
+      expect(await lottery.prizePool()).to.equal(0);
+      expect(await lottery.getPrizePool()).to.equal(0);
+      expect(await lottery.getParticipantCount()).to.equal(0);
+      expect(await lottery.getWinner()).to.equal(hre.ethers.ZeroAddress);
+    });
+
+    it("Should take the creator deposit as the initial prize pool", async function () {
+      const { factory, owner, alice } = await loadFixture(deployLotteryFixture);
+      const deposit = hre.ethers.parseEther("1");
+      const { lottery } = await createLottery(factory, "with-deposit", { deposit });
+
+      expect(await lottery.creatorDeposit()).to.equal(deposit);
+      expect(await lottery.prizePool()).to.equal(deposit);
+      expect(await lottery.getPrizePool()).to.equal(deposit);
+      expect(await lottery.getRefundAmount(owner.address)).to.equal(deposit);
+      expect(await lottery.getRefundAmount(alice.address)).to.equal(0);
+    });
+
+    it("Should return the full details in one call", async function () {
+      const { lottery, drawTime, owner } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+
+      const details = await lottery.getLotteryDetails();
+      const winner = await lottery.getWinner();
+      expect(details.name).to.equal("Test Lottery");
+      expect(details.ownerAddress).to.equal(owner.address);
+      expect(details.fee).to.equal(ENTRY_FEE);
+      expect(details.time).to.equal(drawTime);
+      expect(details.pool).to.equal(ENTRY_FEE * 3n);
+      expect(details.state).to.equal(2);
+      expect(details.winnerAddress).to.equal(winner);
+      expect(details.winnerList).to.deep.equal([winner]);
+      expect(details.prizeAmountList).to.deep.equal([ENTRY_FEE * 3n]);
+    });
+  });
+
+  describe("Lifecycle", function () {
+    it("Should move from Open through Drawing and Claimable to Closed", async function () {
+      const { lottery, drawTime } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+
+      await expect(lottery.revealAndDraw(SEED_SECRET))
+        .to.emit(lottery, "LotteryStateChanged")
+        .withArgs("lottery-1", 1)
+        .and.to.emit(lottery, "LotteryStateChanged")
+        .withArgs("lottery-1", 2);
+      expect(await lottery.isDrawn()).to.equal(true);
+      expect(await lottery.getLotteryState()).to.equal(2);
+
+      const winner = await hre.ethers.getSigner(await lottery.getWinner());
+      await expect(lottery.connect(winner).claimPrize())
+        .to.emit(lottery, "LotteryStateChanged")
+        .withArgs("lottery-1", 3);
+      expect(await lottery.getLotteryState()).to.equal(3);
+      await expect(lottery.connect(winner).claimPrize()).to.be.revertedWith("奖金当前不可领取");
+    });
+
+    it("Should only accept entries while open and before the draw time", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+
+      await time.increaseTo(drawTime);
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith(
+        "已到开奖时间，无法参与"
+      );
+
+      await lottery.revealAndDraw(SEED_SECRET);
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith(
+        "当前抽奖未开放参与"
+      );
+    });
+
+    it("Should not draw before the draw time or without participants", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.connect(alice).drawWinner()).to.be.revertedWith("未到开奖时间，无法开奖");
+
+      await time.increaseTo(drawTime);
+      expect(await lottery.canDraw()).to.equal(false);
+      await expect(lottery.revealAndDraw(SEED_SECRET)).to.be.revertedWith("没有参与者，无法开奖");
+    });
+
+    it("Should freeze the draw time, sponsorships and cancellation once drawn", async function () {
+      const { lottery, drawTime, alice } = await loadFixture(enteredLotteryFixture);
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+
+      await expect(lottery.setDrawTime(drawTime + ONE_DAY_IN_SECS, "")).to.be.revertedWith("已开奖不能修改时间");
+      await expect(lottery.connect(alice).sponsor({ value: ENTRY_FEE })).to.be.revertedWith("抽奖未结束，不能赞助");
+      await expect(lottery.cancelLottery()).to.be.revertedWith("抽奖未开放，无法取消");
+      await expect(lottery.settleUnclaimed()).to.be.revertedWith("未到领奖期限");
+    });
+
+    it("Should freeze the whitelist once drawn", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "private", {
+        lotteryMode: PRIVATE,
+        whitelist: [alice.address],
+      });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+
+      await expect(lottery.addToWhitelist([alice.address])).to.be.revertedWith("抽奖已开奖，不能修改白名单");
+      await expect(lottery.removeFromWhitelist([alice.address])).to.be.revertedWith("抽奖已开奖，不能修改白名单");
+      await expect(lottery.setMerkleRoot(hre.ethers.ZeroHash)).to.be.revertedWith("抽奖已开奖，不能修改白名单");
+    });
+
+    it("Should only settle unclaimed prizes while claimable", async function () {
+      const { lottery } = await loadFixture(enteredLotteryFixture);
+
+      await expect(lottery.settleUnclaimed()).to.be.revertedWith("奖金当前不可领取");
+    });
+
+    it("Should reject a randomness callback once nothing is pending", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const coordinator = await (await hre.ethers.getContractFactory("MockVRFCoordinator")).deploy();
+      await factory.setRandomnessProvider(await coordinator.getAddress());
+      const { lottery, drawTime } = await createLottery(factory, "vrf-lottery", {
+        seedCommitment: hre.ethers.ZeroHash,
+      });
+
+      await time.increaseTo(drawTime);
+      await expect(lottery.drawWinner()).to.be.revertedWith("没有参与者，无法开奖");
+      await lottery.setDrawTime((await time.latest()) + ONE_DAY_IN_SECS, "");
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(await lottery.drawTime());
+
+      // 第一次请求超时后重新请求，第二次请求完成开奖后第一次请求的回调才到达
+      await lottery.drawWinner();
+      await time.increase(Number(await lottery.RANDOMNESS_TIMEOUT()));
+      await lottery.drawWinner();
+      await coordinator.fulfillRandomness(2, 0);
+      expect(await lottery.getWinner()).to.equal(alice.address);
+
+      await expect(coordinator.fulfillRandomness(1, 0)).to.be.revertedWith("当前没有等待中的随机数请求");
+    });
+  });
+
+  describe("Reset", function () {
+    const SPONSORSHIP = hre.ethers.parseEther("0.5");
+
+    // 赞助后开奖，中奖者领奖使抽奖进入 Closed 状态
+    async function closedLotteryFixture() {
+      const fixture = await enteredLotteryFixture();
+      const { lottery, drawTime, carol } = fixture;
+      await lottery.connect(carol).sponsor({ value: SPONSORSHIP });
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      await lottery.connect(await hre.ethers.getSigner(await lottery.winner())).claimPrize();
+      return fixture;
+    }
+
+    it("Should only reset a closed lottery and only by the owner or a manager", async function () {
+      const { lottery, drawTime, alice, bob } = await loadFixture(enteredLotteryFixture);
+
+      await expect(lottery.resetLottery()).to.be.revertedWith("抽奖未结束，无法重置");
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      await expect(lottery.resetLottery()).to.be.revertedWith("抽奖未结束，无法重置");
+
+      await lottery.connect(await hre.ethers.getSigner(await lottery.winner())).claimPrize();
+      await expect(lottery.connect(bob).resetLottery()).to.be.revertedWith("只有发起人或管理员可以操作");
+      await lottery.addManager(alice.address);
+      await lottery.connect(alice).resetLottery();
+    });
+
+    it("Should clear participants, tickets, winners and sponsors", async function () {
+      const { lottery, alice, carol } = await loadFixture(closedLotteryFixture);
+
+      await lottery.resetLottery();
+
+      expect(await lottery.getParticipants()).to.deep.equal([]);
+      expect(await lottery.hasParticipated(alice.address)).to.equal(false);
+      expect(await lottery.ticketsOf(alice.address)).to.equal(0);
+      expect(await lottery.totalTickets()).to.equal(0);
+      expect(await lottery.getWinner()).to.equal(hre.ethers.ZeroAddress);
+      const [winners, amounts, claimed] = await lottery.getWinners();
+      expect(winners).to.deep.equal([]);
+      expect(amounts).to.deep.equal([]);
+      expect(claimed).to.deep.equal([]);
+      const [sponsors] = await lottery.getSponsors();
+      expect(sponsors).to.deep.equal([]);
+      expect(await lottery.getSponsorAmount(carol.address)).to.equal(0);
+      expect(await lottery.getSponsorships()).to.deep.equal([]);
+      expect(await lottery.isDrawn()).to.equal(false);
+    });
+
+    it("Should keep the state, round and archived result", async function () {
+      const { lottery, alice } = await loadFixture(closedLotteryFixture);
+      const archived = await lottery.getRoundResult(1);
+
+      await lottery.resetLottery();
+
+      // 重置不会重新开放参与，需要发起人调用 startNextRound
+      expect(await lottery.getLotteryState()).to.equal(3);
+      expect(await lottery.currentRound()).to.equal(1);
+      expect(await lottery.getRoundResult(1)).to.deep.equal(archived);
+      await expect(lottery.connect(alice).enter(1, { value: ENTRY_FEE })).to.be.revertedWith(
+        "当前抽奖未开放参与"
+      );
+    });
+  });
+
+  describe("Prize pool accounting", function () {
+    // prizePool 只累计入场费、初始奖池和赞助，退款时扣减，领奖时不扣减
+    // getPrizePool() 和开奖金额以合约余额为准，二者的差额就是直接转入合约的金额和已发出的奖金；
+    // 合约余额中发起人未提取的佣金和取消后待领取的退款不计入 getPrizePool()
+    it("Should count direct transfers in the balance but not in prizePool", async function () {
+      const { lottery, bob } = await loadFixture(enteredLotteryFixture);
+      const transfer = hre.ethers.parseEther("0.3");
+
+      await expect(bob.sendTransaction({ to: await lottery.getAddress(), value: transfer })).to.not.emit(
+        lottery,
+        "SponsorReceived"
+      );
+
+      expect(await lottery.prizePool()).to.equal(ENTRY_FEE * 3n);
+      expect(await lottery.getPrizePool()).to.equal(ENTRY_FEE * 3n + transfer);
+      const [sponsors] = await lottery.getSponsors();
+      expect(sponsors).to.deep.equal([]);
+    });
+
+    it("Should track sponsorships in both prizePool and the balance", async function () {
+      const { lottery, alice } = await loadFixture(enteredLotteryFixture);
+      const sponsorship = hre.ethers.parseEther("0.3");
+
+      await expect(lottery.connect(alice).sponsor({ value: 0 })).to.be.revertedWith("赞助金额需大于0");
+      await lottery.connect(alice).sponsor({ value: sponsorship });
+
+      expect(await lottery.prizePool()).to.equal(ENTRY_FEE * 3n + sponsorship);
+      expect(await lottery.getPrizePool()).to.equal(await lottery.prizePool());
+    });
+
+    it("Should pay direct transfers out to the winner", async function () {
+      const { lottery, drawTime, bob } = await loadFixture(enteredLotteryFixture);
+      const transfer = hre.ethers.parseEther("0.3");
+      await bob.sendTransaction({ to: await lottery.getAddress(), value: transfer });
+
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      const total = ENTRY_FEE * 3n + transfer;
+      expect(await lottery.prizeAmounts(0)).to.equal(total);
+      expect((await lottery.getRoundResult(1)).pool).to.equal(total);
+
+      const winner = await hre.ethers.getSigner(await lottery.getWinner());
+      await expect(lottery.connect(winner).claimPrize()).to.changeEtherBalance(winner, total);
+      expect(await lottery.getPrizePool()).to.equal(0);
+      expect(await lottery.prizePool()).to.equal(ENTRY_FEE * 3n);
+    });
+
+    it("Should leave direct transfers in the contract after all refunds", async function () {
+      const { factory, owner, alice, bob, carol } = await loadFixture(deployLotteryFixture);
+      const deposit = hre.ethers.parseEther("1");
+      const sponsorship = hre.ethers.parseEther("0.2");
+      const transfer = hre.ethers.parseEther("0.3");
+      const { lottery, drawTime } = await createLottery(factory, "refunds", { deposit, minParticipants: 2 });
+      await lottery.connect(alice).enter(2, { value: ENTRY_FEE * 2n });
+      await lottery.connect(bob).sponsor({ value: sponsorship });
+      await carol.sendTransaction({ to: await lottery.getAddress(), value: transfer });
+
+      await time.increaseTo(drawTime);
+      await lottery.cancelLottery();
+      expect(await lottery.getPrizePool()).to.equal(transfer);
+      expect(await lottery.getRefundAmount(owner.address)).to.equal(deposit);
+      expect(await lottery.getRefundAmount(alice.address)).to.equal(ENTRY_FEE * 2n);
+      expect(await lottery.getRefundAmount(bob.address)).to.equal(sponsorship);
+      expect(await lottery.getRefundAmount(carol.address)).to.equal(0);
+
+      for (const account of [owner, alice, bob]) {
+        await lottery.connect(account).withdrawRefund();
+        expect(await lottery.getRefundAmount(account.address)).to.equal(0);
+        expect(await lottery.refundWithdrawn(account.address)).to.equal(true);
+      }
+      await expect(lottery.connect(carol).withdrawRefund()).to.be.revertedWith("没有可退款的金额");
+
+      expect(await lottery.prizePool()).to.equal(0);
+      expect(await lottery.getPrizePool()).to.equal(transfer);
+    });
+
+    it("Should leave unwithdrawn commission out of the prize pool", async function () {
+      const { factory, alice, bob } = await loadFixture(deployLotteryFixture);
+      const { lottery, drawTime } = await createLottery(factory, "commission", { creatorCommissionBps: 1000 });
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      await lottery.connect(alice).claimPrize();
+
+      const commission = (ENTRY_FEE * 1000n) / 10000n;
+      expect(await lottery.creatorCommissionBalance()).to.equal(commission);
+      expect(await lottery.getPrizePool()).to.equal(0);
+
+      const nextSecret = hre.ethers.id("commission-next");
+      await lottery.startNextRound((await time.latest()) + ONE_DAY_IN_SECS, hre.ethers.keccak256(nextSecret));
+      await lottery.connect(bob).enter(1, { value: ENTRY_FEE });
+      expect(await lottery.getPrizePool()).to.equal(ENTRY_FEE);
+      expect((await lottery.getLotteryDetails()).pool).to.equal(ENTRY_FEE);
+      const [summary] = await factory.getLotterySummaries(["commission"]);
+      expect(summary.balance).to.equal(ENTRY_FEE);
+
+      await time.increaseTo(await lottery.drawTime());
+      await lottery.revealAndDraw(nextSecret);
+      expect(await lottery.prizeAmounts(0)).to.equal(ENTRY_FEE);
+    });
+  });
+
+  describe("Failed transfers", function () {
+    // 拒收原生币的合约作为唯一参与者
+    async function rejectingEntrantFixture() {
+      const fixture = await deployLotteryFixture();
+      const { lottery } = fixture;
+      const entrant = await (await hre.ethers.getContractFactory("MockRejectingEntrant")).deploy();
+      await entrant.enter(await lottery.getAddress(), 1, { value: ENTRY_FEE });
+      return { ...fixture, entrant };
+    }
+
+    it("Should revert a prize claim that cannot be paid out", async function () {
+      const { lottery, drawTime, entrant } = await loadFixture(rejectingEntrantFixture);
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      expect(await lottery.getWinner()).to.equal(await entrant.getAddress());
+
+      await expect(entrant.claimPrize(await lottery.getAddress())).to.be.revertedWith("转账失败");
+      const [, , claimed] = await lottery.getWinners();
+      expect(claimed).to.deep.equal([false]);
+      expect(await lottery.getPrizePool()).to.equal(ENTRY_FEE);
+    });
+
+    it("Should revert a refund that cannot be paid out", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+      const entrant = await (await hre.ethers.getContractFactory("MockRejectingEntrant")).deploy();
+      const { lottery, drawTime } = await createLottery(factory, "min-2", { minParticipants: 2 });
+      await entrant.enter(await lottery.getAddress(), 1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.cancelLottery();
+
+      await expect(entrant.withdrawRefund(await lottery.getAddress())).to.be.revertedWith("转账失败");
+      expect(await lottery.refundWithdrawn(await entrant.getAddress())).to.equal(false);
+    });
+
+    it("Should validate the platform revenue recipient", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+      const entrant = await (await hre.ethers.getContractFactory("MockRejectingEntrant")).deploy();
+      await factory.setPlatformFee(500);
+      const { lottery, drawTime } = await createLottery(factory, "with-fee");
+      await lottery.connect(alice).enter(1, { value: ENTRY_FEE });
+      await time.increaseTo(drawTime);
+      await lottery.revealAndDraw(SEED_SECRET);
+      await lottery.connect(alice).claimPrize();
+
+      await expect(factory.withdrawPlatformRevenue(hre.ethers.ZeroAddress, hre.ethers.ZeroAddress)).to.be.revertedWith(
+        "收款地址无效"
+      );
+      await expect(
+        factory.withdrawPlatformRevenue(hre.ethers.ZeroAddress, await entrant.getAddress())
+      ).to.be.revertedWith("转账失败");
+    });
+  });
+
+  describe("Factory checks", function () {
+    it("Should reject a lottery id that is already taken", async function () {
+      const { factory, alice } = await loadFixture(deployLotteryFixture);
+
+      await expect(createLotteryTx(factory, "lottery-1")).to.be.revertedWith("抽奖 ID 已被使用");
+      await expect(createLotteryTx(factory.connect(alice), "lottery-1")).to.be.revertedWith("抽奖 ID 已被使用");
+    });
+
+    it("Should reject a draw time that is not in the future", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+
+      // 交易在下一个区块执行，区块时间晚于当前最新区块
+      await expect(createLotteryTx(factory, "past", { drawTime: (await time.latest()) - 1 })).to.be.revertedWith(
+        "开奖时间必须在未来"
+      );
+      await expect(createLotteryTx(factory, "now", { drawTime: (await time.latest()) + 1 })).to.be.revertedWith(
+        "开奖时间必须在未来"
+      );
+      await expect(createLotteryTx(factory, "later", { drawTime: (await time.latest()) + 2 })).to.emit(
+        factory,
+        "LotteryInstanceCreated"
+      );
+    });
+
+    it("Should list every lottery id and resolve its instance", async function () {
+      const { factory, lottery, alice } = await loadFixture(deployLotteryFixture);
+
+      const tx = await createLotteryTx(factory.connect(alice), "lottery-2");
+      const instance = await factory.getLotteryInstanceAddress("lottery-2");
+      await expect(tx).to.emit(factory, "LotteryInstanceCreated").withArgs("lottery-2", instance, alice.address);
+
+      expect(await factory.getAllLotteryIds()).to.deep.equal(["lottery-1", "lottery-2"]);
+      expect(await factory.lotteryIds(1)).to.equal("lottery-2");
+      expect(await factory.lotteryInstances("lottery-1")).to.equal(await lottery.getAddress());
+      expect(await factory.getLotteryInstanceAddress("missing")).to.equal(hre.ethers.ZeroAddress);
+      expect(await (await hre.ethers.getContractAt("SimpleLottery", instance)).owner()).to.equal(alice.address);
+    });
+  });
+
+  describe("Argument checks", function () {
+    it("Should validate manager addresses", async function () {
+      const { lottery, owner } = await loadFixture(deployLotteryFixture);
+
+      await expect(lottery.addManager(hre.ethers.ZeroAddress)).to.be.revertedWith("管理员地址无效");
+      await expect(lottery.addManager(owner.address)).to.be.revertedWith("发起人无需设为管理员");
+    });
+
+    it("Should cap the number of prize tiers", async function () {
+      const { factory } = await loadFixture(deployLotteryFixture);
+      const tiers = Array(11).fill(1000);
+      tiers[10] = 0;
+
+      await expect(createLotteryTx(factory, "too-many", { prizeTiers: tiers })).to.be.revertedWith("奖项数量过多");
+    });
+  });
+});